@@ -13,7 +13,6 @@ import {
   readdirSync,
   writeFileSync,
   existsSync,
-  copyFileSync,
   statSync,
   createReadStream,
   mkdirSync,
@@ -33,9 +32,18 @@ import { getEmailConfig, saveEmailConfig } from "./dist/mailer.js";
 import {
   openCheckpointDb,
   getRecordsForRun,
+  getAllRecords,
+  getCurrentRunId,
   closeCheckpointDb,
+  resetCheckpointStore,
 } from "./dist/checkpoint.js";
 import { loadConfig } from "./dist/config.js";
+import {
+  getDiscoveryCachePath,
+  loadDiscoveredTenants,
+  refreshDiscoveredTenants,
+} from "./dist/tenant-discovery.js";
+import { findExtractionResult } from "./dist/result-store.js";
 import {
   loadHistoricalRunSummaries,
   htmlReportFromHistory,
@@ -51,8 +59,19 @@ const __dirname = dirname(fileURLToPath(import.meta.url));
 const PORT = 8765;
 const ROOT = join(__dirname);
 
-// Build brand-purchaser map from S3_TENANT_PURCHASERS env variable
+const config = loadConfig(join(ROOT, "config", "config.yaml"));
+
+// Build brand-purchaser map from S3_TENANT_PURCHASERS env variable, or from the
+// bucket entries built from the discovery cache when s3.discovery is enabled.
 function loadBrandPurchasers() {
+  if (config.s3.discovery?.enabled) {
+    const map = {};
+    for (const b of config.s3.buckets) {
+      if (!b.tenant || !b.purchaser) continue;
+      (map[b.tenant] ||= []).push(b.purchaser);
+    }
+    return map;
+  }
   const raw = process.env.S3_TENANT_PURCHASERS;
   if (!raw) return {};
   try {
@@ -67,8 +86,20 @@ function loadBrandPurchasers() {
   } catch (_) {}
   return {};
 }
-const BRAND_PURCHASERS = loadBrandPurchasers();
-const config = loadConfig(join(ROOT, "config", "config.yaml"));
+let BRAND_PURCHASERS = loadBrandPurchasers();
+let TENANTS_DISCOVERED_AT = config.s3.discovery?.enabled
+  ? (loadDiscoveredTenants(getDiscoveryCachePath(config))?.discoveredAt ?? null)
+  : null;
+if (config.s3.discovery?.enabled && !TENANTS_DISCOVERED_AT) {
+  // No discovery cache yet: list the bucket in the background so the picker fills in.
+  refreshDiscoveredTenants(config)
+    .then((discovered) => {
+      if (!discovered) return;
+      BRAND_PURCHASERS = loadBrandPurchasers();
+      TENANTS_DISCOVERED_AT = discovered.discoveredAt;
+    })
+    .catch((e) => console.error("Tenant discovery failed:", e.message));
+}
 const REPORTS_DIR = join(ROOT, "output", "reports");
 const EXTRACTIONS_DIR = join(ROOT, "output", "extractions");
 const STAGING_DIR = join(ROOT, "output", "staging");
@@ -79,12 +110,6 @@ const SYNC_MANIFEST_PATH = join(
   "sync-manifest.json",
 );
 const CHECKPOINT_PATH = join(ROOT, "output", "checkpoints", "checkpoint.db");
-const CHECKPOINT_JSON_PATH = join(
-  ROOT,
-  "output",
-  "checkpoints",
-  "checkpoint.json",
-);
 const LAST_PIPE_PARAMS_PATH = join(
   ROOT,
   "output",
@@ -291,14 +316,8 @@ function readScheduleLogEntries() {
 }
 
 function getCurrentRunIdFromCheckpoint() {
-  const path = existsSync(CHECKPOINT_JSON_PATH)
-    ? CHECKPOINT_JSON_PATH
-    : CHECKPOINT_PATH;
-  if (!existsSync(path)) return null;
   try {
-    const raw = readFileSync(path, "utf-8");
-    const data = JSON.parse(raw);
-    return data?.run_meta?.current_run_id ?? null;
+    return getCurrentRunId(openCheckpointDb(CHECKPOINT_PATH));
   } catch (_) {
     return null;
   }
@@ -334,16 +353,8 @@ function getRunStatusFromCheckpoint() {
       syncLimit: 0,
     };
   const lastCompleted = getLastCompletedRunId();
-  const path = existsSync(CHECKPOINT_JSON_PATH)
-    ? CHECKPOINT_JSON_PATH
-    : CHECKPOINT_PATH;
   try {
-    const raw = readFileSync(path, "utf-8");
-    const data = JSON.parse(raw);
-    const checkpoints = Array.isArray(data?.checkpoints)
-      ? data.checkpoints
-      : [];
-    const forRun = checkpoints.filter((c) => c.run_id === runId);
+    const forRun = getRecordsForRun(openCheckpointDb(CHECKPOINT_PATH), runId);
     const done = forRun.filter((c) => c.status === "done").length;
     const failed = forRun.filter((c) => c.status === "error").length;
     const canResume = forRun.length > 0 && runId !== lastCompleted;
@@ -460,22 +471,20 @@ function buildExtractionDataPageHtml() {
     if (!existsSync(dir)) return [];
 
     // Load checkpoint DB to recover source paths for existing JSONs that don't have _relativePath
-    const checkpointData = existsSync(CHECKPOINT_PATH)
-      ? JSON.parse(readFileSync(CHECKPOINT_PATH, "utf8"))
-      : { checkpoints: [] };
+    const checkpoints = getAllRecords(openCheckpointDb(CHECKPOINT_PATH));
     const filenameToMetadata = {};
-    if (checkpointData.checkpoints) {
-      checkpointData.checkpoints.forEach((c) => {
-        const safe = (c.relative_path || "")
+    if (checkpoints.length > 0) {
+      checkpoints.forEach((c) => {
+        const safe = (c.relativePath || "")
           .replaceAll("/", "_")
           .replaceAll(/[^a-zA-Z0-9._-]/g, "_");
         const base = c.brand + "_" + (safe || "file");
         const jsonName = base.endsWith(".json") ? base : base + ".json";
         filenameToMetadata[jsonName] = {
-          relativePath: c.relative_path,
+          relativePath: c.relativePath,
           brand: c.brand,
           purchaser: c.purchaser,
-          runId: c.run_id,
+          runId: c.runId,
         };
       });
     }
@@ -1848,14 +1857,12 @@ function buildSyncReportHtml() {
   files.sort((a, b) => b.mtime - a.mtime);
 
   // Load checkpoint mapping
-  const checkpointData = existsSync(CHECKPOINT_PATH)
-    ? JSON.parse(readFileSync(CHECKPOINT_PATH, "utf8"))
-    : { checkpoints: [] };
+  const checkpoints = getAllRecords(openCheckpointDb(CHECKPOINT_PATH));
   const pathToRunId = {};
-  if (checkpointData.checkpoints) {
-    checkpointData.checkpoints.forEach((c) => {
-      const key = (c.brand + "/" + (c.relative_path || "")).replace(/\\/g, "/");
-      pathToRunId[key] = c.run_id;
+  if (checkpoints.length > 0) {
+    checkpoints.forEach((c) => {
+      const key = (c.brand + "/" + (c.relativePath || "")).replace(/\\/g, "/");
+      pathToRunId[key] = c.runId;
     });
   }
 
@@ -3262,13 +3269,9 @@ const CASE_COMMANDS = {
   N3: (p, runOpts) => syncArgs(p, runOpts),
   E1: (p, runOpts) => runArgs(p, ["--no-sync"], runOpts),
   E2: (p) => {
-    const cp = join(ROOT, "output", "checkpoints", "checkpoint.json");
-    if (existsSync(cp)) {
-      try {
-        copyFileSync(cp, cp + ".bak");
-      } catch (_) {}
-      writeFileSync(cp, "{}", "utf-8");
-    }
+    try {
+      resetCheckpointStore(CHECKPOINT_PATH);
+    } catch (_) {}
     return runArgs(p, ["--no-sync"]);
   },
   E3: (p, runOpts) => syncArgs(p, runOpts),
@@ -3290,6 +3293,10 @@ const RESUME_SKIP_PREFIX = "RESUME_SKIP\t";
 const RESUME_SKIP_SYNC_PREFIX = "RESUME_SKIP_SYNC\t";
 const RUN_ID_PREFIX = "RUN_ID\t";
 const LOG_PREFIX = "LOG\t";
+const CONCURRENCY_PREFIX = "CONCURRENCY\t";
+const SLO_PREFIX = "SLO\t";
+/** Exit code of run / sync-extract when the SLO failed (src/slo.ts); the run itself finished. */
+const SLO_FAILED_EXIT_CODE = 3;
 
 function runCase(caseId, params = {}, callbacks = null, runOpts = null) {
   const def = CASE_COMMANDS[caseId];
@@ -3304,6 +3311,7 @@ function runCase(caseId, params = {}, callbacks = null, runOpts = null) {
   const onExtractionProgress = callbacks?.onExtractionProgress ?? null;
   const onResumeSkip = callbacks?.onResumeSkip ?? null;
   const onResumeSkipSync = callbacks?.onResumeSkipSync ?? null;
+  const onConcurrency = callbacks?.onConcurrency ?? null;
   const onChild = callbacks?.onChild ?? null;
   return new Promise((resolve) => {
     const child = spawn(cmd, args || [], {
@@ -3364,6 +3372,19 @@ function runCase(caseId, params = {}, callbacks = null, runOpts = null) {
               onResumeSkipSync(skipped, Number.isNaN(total) ? 0 : total);
           }
         }
+        if (onConcurrency && line.startsWith(CONCURRENCY_PREFIX)) {
+          const parts = line.slice(CONCURRENCY_PREFIX.length).split("\t");
+          if (parts.length >= 4) {
+            const concurrency = Number(parts[0]);
+            if (!Number.isNaN(concurrency))
+              onConcurrency({
+                concurrency,
+                min: Number(parts[1]),
+                max: Number(parts[2]),
+                reason: (parts[3] ?? "").trim(),
+              });
+          }
+        }
         if (line.startsWith(RUN_ID_PREFIX)) {
           const parts = line.slice(RUN_ID_PREFIX.length).split("\t");
           if (parts.length >= 1) {
@@ -3376,6 +3397,21 @@ function runCase(caseId, params = {}, callbacks = null, runOpts = null) {
             }
           }
         }
+        if (line.startsWith(SLO_PREFIX)) {
+          const parts = line.slice(SLO_PREFIX.length).split("\t");
+          if (parts.length >= 3 && child.stdout && !child.stdout.destroyed) {
+            child.stdout.emit(
+              "data",
+              JSON.stringify({
+                type: "slo",
+                passed: parts[0] === "pass",
+                violations: Number(parts[1]),
+                checks: Number(parts[2]),
+                summary: (parts[3] ?? "").trim(),
+              }) + "\n",
+            );
+          }
+        }
         if (line.startsWith(LOG_PREFIX)) {
           const message = line.slice(LOG_PREFIX.length).trim();
           if (child.stdout && !child.stdout.destroyed) {
@@ -3569,6 +3605,9 @@ function registerScheduleJob(schedule) {
             onExtractionProgress: (done, total) => {
               runInfo.extractProgress = { done, total };
             },
+            onConcurrency: (c) => {
+              runInfo.concurrency = c;
+            },
           },
           null,
         );
@@ -3803,6 +3842,14 @@ createServer(async (req, res) => {
           onResumeSkipSync: (skipped, total) => {
             writeLine({ type: "resume_skip_sync", skipped, total });
           },
+          onConcurrency: (c) => {
+            writeLine({ type: "concurrency", ...c });
+            const activeRun = ACTIVE_RUNS.get(caseId);
+            if (activeRun) {
+              activeRun.concurrency = c;
+              ACTIVE_RUNS.set(caseId, activeRun);
+            }
+          },
         },
         runOpts,
       );
@@ -3842,8 +3889,11 @@ createServer(async (req, res) => {
           // For cases that don't support resume, clear the state
           clearRunState(caseId);
         }
-      } else if (result.exitCode === 0) {
-        // Process completed successfully
+      } else if (
+        result.exitCode === 0 ||
+        result.exitCode === SLO_FAILED_EXIT_CODE
+      ) {
+        // Process completed (an SLO failure still finished the run)
         const runId = getCurrentRunIdFromCheckpoint();
         if (runId) markRunCompleted(runId);
         // Clear run state on successful completion
@@ -4441,7 +4491,50 @@ createServer(async (req, res) => {
   if (req.method === "GET" && url === "/api/config") {
     try {
       res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({ brandPurchasers: BRAND_PURCHASERS }));
+      res.end(
+        JSON.stringify({
+          brandPurchasers: BRAND_PURCHASERS,
+          discovery: {
+            enabled: config.s3.discovery?.enabled === true,
+            discoveredAt: TENANTS_DISCOVERED_AT,
+          },
+        }),
+      );
+    } catch (e) {
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: String(e.message) }));
+    }
+    return;
+  }
+  // Re-list S3_BUCKET for tenant/purchaser folders (s3.discovery) and update the picker map.
+  if (req.method === "POST" && url === "/api/config/refresh-tenants") {
+    try {
+      if (!config.s3.discovery?.enabled) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: "Tenant discovery is off (s3.discovery.enabled)",
+          }),
+        );
+        return;
+      }
+      const discovered = await refreshDiscoveredTenants(config, {
+        force: true,
+      });
+      if (!discovered) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "S3_BUCKET is not set" }));
+        return;
+      }
+      BRAND_PURCHASERS = loadBrandPurchasers();
+      TENANTS_DISCOVERED_AT = discovered.discoveredAt;
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          brandPurchasers: BRAND_PURCHASERS,
+          discovery: { enabled: true, discoveredAt: TENANTS_DISCOVERED_AT },
+        }),
+      );
     } catch (e) {
       res.writeHead(500, { "Content-Type": "application/json" });
       res.end(JSON.stringify({ error: String(e.message) }));
@@ -4656,29 +4749,29 @@ createServer(async (req, res) => {
       archive.pipe(res);
 
       const db = openCheckpointDb(CHECKPOINT_PATH);
-      const allFiles = new Set();
+      // Each run's own copy (versioned result store), or the latest one for runs from before it.
+      // With several runs, results go under <runId>/ so the same file from two runs does not collide.
+      const allFiles = new Map();
 
       for (const runId of runIds) {
         const records = getRecordsForRun(db, runId);
         for (const r of records) {
-          const safe = (r.relativePath || "")
-            .replaceAll("/", "_")
-            .replaceAll(/[^a-zA-Z0-9._-]/g, "_");
-          const base = r.brand + "_" + (safe || "file");
-          const jsonName = base.endsWith(".json") ? base : base + ".json";
-
-          // Try succeeded first, then failed
-          const succPath = resolve(EXTRACTIONS_DIR, "succeeded", jsonName);
-          const failPath = resolve(EXTRACTIONS_DIR, "failed", jsonName);
-
-          if (existsSync(succPath)) allFiles.add(succPath);
-          else if (existsSync(failPath)) allFiles.add(failPath);
+          const found = findExtractionResult(config, r, runId);
+          const absPath = found ? resolve(ROOT, found) : null;
+          if (absPath && !allFiles.has(absPath)) {
+            allFiles.set(
+              absPath,
+              runIds.length > 1
+                ? `${runId}/${basename(absPath)}`
+                : basename(absPath),
+            );
+          }
         }
       }
       closeCheckpointDb(db);
 
-      for (const absPath of allFiles) {
-        archive.file(absPath, { name: basename(absPath) });
+      for (const [absPath, name] of allFiles) {
+        archive.file(absPath, { name });
       }
 
       archive.finalize();
@@ -0,0 +1,352 @@
+/**
+ * Golden-dataset accuracy (accuracy in config): compare each extraction with an expected JSON from a
+ * ground-truth directory laid out like staging (<brand>/<relativePath>.json).
+ *
+ * Only paths defined by the ground truth are scored, so extra fields in the response do not count. Every
+ * non-empty expected leaf is an expected field; every non-empty extracted value at such a path is a
+ * predicted field. A field matches exactly when the JSON values are equal, or after normalization
+ * (case, whitespace, number formatting, numericTolerance). Arrays of objects are line items: extracted
+ * rows are aligned to expected rows by best field overlap before their fields are compared; unaligned rows
+ * count as missed (expected) or extra (extracted). Scores go on the file's checkpoint row; metrics.ts sums
+ * them per pattern key, brand and purchaser.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { AccuracyConfig, Config, FileAccuracy } from "./types.js";
+
+const MAX_MISMATCHES = 10;
+const MAX_VALUE_CHARS = 100;
+
+/** Validate accuracy; returns human-readable problems (empty when valid). */
+export function validateAccuracy(value: unknown): string[] {
+  const c = value as AccuracyConfig | null;
+  if (typeof c !== "object" || c === null) return ["accuracy (object)"];
+  const problems: string[] = [];
+  if (typeof c.groundTruthDir !== "string" || c.groundTruthDir === "")
+    problems.push("accuracy.groundTruthDir");
+  if (c.responsePath !== undefined && typeof c.responsePath !== "string")
+    problems.push("accuracy.responsePath (string when set)");
+  if (
+    c.ignoreFields !== undefined &&
+    !(
+      Array.isArray(c.ignoreFields) &&
+      c.ignoreFields.every((p) => typeof p === "string" && p !== "")
+    )
+  )
+    problems.push("accuracy.ignoreFields (array of strings when set)");
+  if (
+    c.numericTolerance !== undefined &&
+    !(typeof c.numericTolerance === "number" && c.numericTolerance >= 0)
+  )
+    problems.push("accuracy.numericTolerance (>= 0 when set)");
+  return problems;
+}
+
+/** Expected JSON path of a staged file. */
+export function groundTruthPath(
+  accuracy: AccuracyConfig,
+  job: { brand: string; relativePath: string },
+): string {
+  return join(accuracy.groundTruthDir, job.brand, `${job.relativePath}.json`);
+}
+
+/**
+ * "*" matches within one path segment, "**" across segments ("**." at the start also matches at the top
+ * level); a pattern also covers everything below it. Paths mark array elements with "[]".
+ */
+export function fieldPathMatcher(pattern: string): (path: string) => boolean {
+  const anyDepth = pattern.startsWith("**.");
+  const source = (anyDepth ? pattern.slice(3) : pattern)
+    .split("**")
+    .map((part) =>
+      part
+        .split("*")
+        .map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join("[^.]*"),
+    )
+    .join(".*");
+  const re = new RegExp(
+    `^${anyDepth ? "(?:.*\\.)?" : ""}${source}(?:$|\\.|\\[\\])`,
+  );
+  return (path) => re.test(path);
+}
+
+type Json = null | boolean | number | string | Json[] | { [k: string]: Json };
+
+function isObject(v: unknown): v is Record<string, Json> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isEmpty(v: unknown): boolean {
+  return (
+    v === undefined ||
+    v === null ||
+    (typeof v === "string" && v.trim() === "") ||
+    (Array.isArray(v) && v.length === 0)
+  );
+}
+
+function display(v: unknown): string {
+  const s = v === undefined ? "(missing)" : JSON.stringify(v);
+  return s.length > MAX_VALUE_CHARS ? s.slice(0, MAX_VALUE_CHARS) + "…" : s;
+}
+
+/** Number from "1,234.50", "$ 12", "-3.5%" and the like; null when the string is not numeric. */
+function parseNumeric(s: string): number | null {
+  const cleaned = s.replace(/[\s,$€£¥%]/g, "");
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return null;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : null;
+}
+
+function normalize(v: unknown): string | number {
+  if (typeof v === "number") return v;
+  if (typeof v === "boolean") return String(v);
+  if (typeof v !== "string") return JSON.stringify(v ?? null);
+  const n = parseNumeric(v);
+  if (n !== null) return n;
+  return v.normalize("NFKC").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+interface Tally {
+  expected: number;
+  predicted: number;
+  matched: number;
+  exact: number;
+  expectedRows: number;
+  predictedRows: number;
+  alignedRows: number;
+  hasRows: boolean;
+  mismatches: NonNullable<FileAccuracy["mismatches"]>;
+}
+
+function emptyTally(): Tally {
+  return {
+    expected: 0,
+    predicted: 0,
+    matched: 0,
+    exact: 0,
+    expectedRows: 0,
+    predictedRows: 0,
+    alignedRows: 0,
+    hasRows: false,
+    mismatches: [],
+  };
+}
+
+class Comparer {
+  private readonly ignored: ((path: string) => boolean)[];
+  private readonly tolerance: number;
+
+  constructor(accuracy: AccuracyConfig) {
+    this.ignored = (accuracy.ignoreFields ?? []).map(fieldPathMatcher);
+    this.tolerance = accuracy.numericTolerance ?? 0;
+  }
+
+  private valuesMatch(expected: unknown, actual: unknown): boolean {
+    const a = normalize(expected);
+    const b = normalize(actual);
+    if (typeof a === "number" && typeof b === "number") {
+      const scale = Math.max(Math.abs(a), Math.abs(b));
+      return Math.abs(a - b) <= this.tolerance * scale;
+    }
+    return a === b;
+  }
+
+  compare(path: string, expected: unknown, actual: unknown, t: Tally): void {
+    if (path !== "" && this.ignored.some((m) => m(path))) return;
+    if (isObject(expected)) {
+      const act = isObject(actual) ? actual : undefined;
+      for (const [key, value] of Object.entries(expected)) {
+        if (path === "" && key.startsWith("_")) continue; // runner metadata (_runId, _brand, ...)
+        this.compare(path ? `${path}.${key}` : key, value, act?.[key], t);
+      }
+      return;
+    }
+    if (Array.isArray(expected)) {
+      const act = Array.isArray(actual) ? actual : isEmpty(actual) ? [] : null;
+      if (expected.some(isObject)) {
+        this.compareRows(path, expected, act ?? [], t);
+        if (act === null) this.leaf(path, null, actual, t);
+      } else {
+        this.compareScalars(path, expected, act ?? [actual], t);
+      }
+      return;
+    }
+    this.leaf(path, expected, actual, t);
+  }
+
+  private leaf(path: string, expected: unknown, actual: unknown, t: Tally) {
+    const expEmpty = isEmpty(expected);
+    const actEmpty = isEmpty(actual);
+    if (!expEmpty) t.expected++;
+    if (!actEmpty) t.predicted++;
+    if (expEmpty && actEmpty) return;
+    if (!expEmpty && !actEmpty) {
+      if (JSON.stringify(expected) === JSON.stringify(actual)) {
+        t.exact++;
+        t.matched++;
+        return;
+      }
+      if (this.valuesMatch(expected, actual)) {
+        t.matched++;
+        return;
+      }
+    }
+    if (t.mismatches.length < MAX_MISMATCHES)
+      t.mismatches.push({
+        path,
+        expected: display(expected),
+        actual: display(actual),
+      });
+  }
+
+  /** Arrays of scalars compare as multisets. */
+  private compareScalars(
+    path: string,
+    expected: unknown[],
+    actual: unknown[],
+    t: Tally,
+  ): void {
+    const exp = expected.filter((v) => !isEmpty(v));
+    const left = actual.filter((v) => !isEmpty(v));
+    t.expected += exp.length;
+    t.predicted += left.length;
+    const missing: unknown[] = [];
+    for (const e of exp) {
+      let i = left.findIndex((a) => JSON.stringify(a) === JSON.stringify(e));
+      if (i >= 0) t.exact++;
+      else i = left.findIndex((a) => this.valuesMatch(e, a));
+      if (i >= 0) {
+        t.matched++;
+        left.splice(i, 1);
+      } else missing.push(e);
+    }
+    if (
+      (missing.length > 0 || left.length > 0) &&
+      t.mismatches.length < MAX_MISMATCHES
+    )
+      t.mismatches.push({
+        path: `${path}[]`,
+        expected: display(missing),
+        actual: display(left),
+      });
+  }
+
+  /** Line items: align rows greedily by field overlap, then score aligned pairs and leftovers. */
+  private compareRows(
+    path: string,
+    expected: unknown[],
+    actual: unknown[],
+    t: Tally,
+  ): void {
+    const rowPath = `${path}[]`;
+    const expRows = expected.filter(isObject);
+    const actRows = actual.filter(isObject);
+    t.hasRows = true;
+    t.expectedRows += expRows.length;
+    t.predictedRows += actRows.length;
+
+    const pairs: { e: number; a: number; score: number }[] = [];
+    expRows.forEach((e, ei) =>
+      actRows.forEach((a, ai) => {
+        const probe = emptyTally();
+        this.compare(rowPath, e, a, probe);
+        const denom = Math.max(probe.expected, probe.predicted, 1);
+        if (probe.matched > 0)
+          pairs.push({ e: ei, a: ai, score: probe.matched / denom });
+      }),
+    );
+    pairs.sort((x, y) => y.score - x.score || x.e - y.e || x.a - y.a);
+    const expUsed = new Set<number>();
+    const actUsed = new Set<number>();
+    for (const p of pairs) {
+      if (expUsed.has(p.e) || actUsed.has(p.a)) continue;
+      expUsed.add(p.e);
+      actUsed.add(p.a);
+      t.alignedRows++;
+      this.compare(rowPath, expRows[p.e], actRows[p.a], t);
+    }
+    expRows.forEach((e, ei) => {
+      if (!expUsed.has(ei)) this.compare(rowPath, e, undefined, t);
+    });
+    // Extra rows: count their values at the columns the expected rows define.
+    const columns: Record<string, null> = {};
+    for (const e of expRows) for (const k of Object.keys(e)) columns[k] = null;
+    actRows.forEach((a, ai) => {
+      if (!actUsed.has(ai)) this.compare(rowPath, columns, a, t);
+    });
+  }
+}
+
+function valueAtPath(data: unknown, path: string | undefined): unknown {
+  if (!path) return data;
+  let cur = data;
+  for (const key of path.split(".")) {
+    if (!isObject(cur)) return undefined;
+    cur = cur[key];
+  }
+  return cur;
+}
+
+/** Score an extracted value against its expected JSON. */
+export function scoreAgainstGroundTruth(
+  accuracy: AccuracyConfig,
+  expected: unknown,
+  response: unknown,
+): FileAccuracy {
+  const t = emptyTally();
+  new Comparer(accuracy).compare(
+    "",
+    expected,
+    valueAtPath(response, accuracy.responsePath),
+    t,
+  );
+  const precision =
+    t.predicted > 0 ? t.matched / t.predicted : t.expected > 0 ? 0 : 1;
+  const recall = t.expected > 0 ? t.matched / t.expected : 1;
+  return {
+    expectedFields: t.expected,
+    predictedFields: t.predicted,
+    matchedFields: t.matched,
+    exactFields: t.exact,
+    precision,
+    recall,
+    f1:
+      precision + recall > 0
+        ? (2 * precision * recall) / (precision + recall)
+        : 0,
+    exactMatchRate: t.expected > 0 ? t.exact / t.expected : 1,
+    lineItems: t.hasRows
+      ? {
+          expectedRows: t.expectedRows,
+          predictedRows: t.predictedRows,
+          alignedRows: t.alignedRows,
+        }
+      : undefined,
+    mismatches: t.mismatches.length > 0 ? t.mismatches : undefined,
+  };
+}
+
+/**
+ * Score a file's API response body when accuracy is configured and the file has a ground truth.
+ * Returns undefined otherwise (or when either JSON cannot be read).
+ */
+export function scoreExtraction(
+  config: Config,
+  job: { brand: string; relativePath: string },
+  responseBody: string,
+): FileAccuracy | undefined {
+  const accuracy = config.accuracy;
+  if (!accuracy) return undefined;
+  const path = groundTruthPath(accuracy, job);
+  if (!existsSync(path)) return undefined;
+  try {
+    const expected = JSON.parse(readFileSync(path, "utf-8")) as unknown;
+    const response = JSON.parse(responseBody) as unknown;
+    return scoreAgainstGroundTruth(accuracy, expected, response);
+  } catch {
+    return undefined;
+  }
+}
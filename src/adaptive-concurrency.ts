@@ -0,0 +1,139 @@
+/**
+ * Adaptive concurrency: grow or shrink the extraction queue between run.adaptiveConcurrency.min and max
+ * from observed latency and the share of 429/5xx responses (additive increase, multiplicative decrease).
+ */
+
+import { quantile } from "simple-statistics";
+import type { AdaptiveConcurrencyConfig } from "./types.js";
+
+const DEFAULT_WINDOW_SIZE = 10;
+const DEFAULT_MAX_THROTTLE_RATE = 0.05;
+const DEFAULT_DECREASE_FACTOR = 0.5;
+
+/** Outcome of one file's extract call (all attempts). */
+export interface ConcurrencySample {
+  latencyMs: number;
+  attempts: number;
+  /** Attempts answered with 429 or 5xx. */
+  throttledAttempts: number;
+  /** Limit in force when the file was dispatched; samples from a higher limit than the current one are ignored. */
+  concurrencyLimit?: number;
+}
+
+export interface ConcurrencyChange {
+  concurrency: number;
+  previous: number;
+  reason: "throttled" | "high_latency" | "healthy";
+  /** p95 latency (ms) of the window that triggered the change. */
+  p95LatencyMs: number;
+  /** Fraction of attempts in the window answered with 429/5xx. */
+  throttleRate: number;
+}
+
+export interface ConcurrencyController {
+  readonly concurrency: number;
+  /** Record a finished file; returns the change when this sample closed a window and moved the limit. */
+  record(sample: ConcurrencySample): ConcurrencyChange | null;
+}
+
+/** Validate run.adaptiveConcurrency; returns human-readable problems (empty when valid). */
+export function validateAdaptiveConcurrency(value: unknown): string[] {
+  const a = value as AdaptiveConcurrencyConfig | null;
+  if (typeof a !== "object" || a === null) {
+    return ["run.adaptiveConcurrency (object)"];
+  }
+  const problems: string[] = [];
+  const isInt = (n: unknown, min: number) =>
+    typeof n === "number" && Number.isInteger(n) && n >= min;
+  if (!isInt(a.min, 1))
+    problems.push("run.adaptiveConcurrency.min (integer >= 1)");
+  if (!isInt(a.max, 1) || (isInt(a.min, 1) && a.max < a.min)) {
+    problems.push("run.adaptiveConcurrency.max (integer >= min)");
+  }
+  if (typeof a.targetLatencyMs !== "number" || !(a.targetLatencyMs > 0)) {
+    problems.push("run.adaptiveConcurrency.targetLatencyMs (> 0)");
+  }
+  if (
+    a.maxThrottleRate !== undefined &&
+    !(
+      typeof a.maxThrottleRate === "number" &&
+      a.maxThrottleRate >= 0 &&
+      a.maxThrottleRate <= 1
+    )
+  ) {
+    problems.push("run.adaptiveConcurrency.maxThrottleRate (0..1 when set)");
+  }
+  if (a.windowSize !== undefined && !isInt(a.windowSize, 1)) {
+    problems.push("run.adaptiveConcurrency.windowSize (integer >= 1 when set)");
+  }
+  if (
+    a.decreaseFactor !== undefined &&
+    !(
+      typeof a.decreaseFactor === "number" &&
+      a.decreaseFactor > 0 &&
+      a.decreaseFactor < 1
+    )
+  ) {
+    problems.push(
+      "run.adaptiveConcurrency.decreaseFactor (between 0 and 1 when set)",
+    );
+  }
+  return problems;
+}
+
+/**
+ * Create a controller starting at `initial` (clamped to min..max). Every `windowSize` samples:
+ * - throttle rate above maxThrottleRate: multiply the limit by decreaseFactor;
+ * - else p95 latency above targetLatencyMs: decrease by 1;
+ * - else: increase by 1.
+ */
+export function createConcurrencyController(
+  settings: AdaptiveConcurrencyConfig,
+  initial: number,
+): ConcurrencyController {
+  const windowSize = settings.windowSize ?? DEFAULT_WINDOW_SIZE;
+  const maxThrottleRate = settings.maxThrottleRate ?? DEFAULT_MAX_THROTTLE_RATE;
+  const decreaseFactor = settings.decreaseFactor ?? DEFAULT_DECREASE_FACTOR;
+  const clamp = (n: number) =>
+    Math.min(settings.max, Math.max(settings.min, n));
+  let concurrency = clamp(initial);
+  let window: ConcurrencySample[] = [];
+
+  return {
+    get concurrency() {
+      return concurrency;
+    },
+    record(sample) {
+      // Requests started before a decrease would shrink the limit again for the same overload.
+      if ((sample.concurrencyLimit ?? concurrency) > concurrency) return null;
+      window.push(sample);
+      if (window.length < windowSize) return null;
+
+      const attempts = window.reduce((a, s) => a + s.attempts, 0);
+      const throttled = window.reduce((a, s) => a + s.throttledAttempts, 0);
+      const throttleRate = attempts > 0 ? throttled / attempts : 0;
+      const p95LatencyMs = quantile(
+        window.map((s) => s.latencyMs),
+        0.95,
+      );
+      window = [];
+
+      let reason: ConcurrencyChange["reason"];
+      let next: number;
+      if (throttleRate > maxThrottleRate) {
+        reason = "throttled";
+        next = clamp(Math.floor(concurrency * decreaseFactor));
+      } else if (p95LatencyMs > settings.targetLatencyMs) {
+        reason = "high_latency";
+        next = clamp(concurrency - 1);
+      } else {
+        reason = "healthy";
+        next = clamp(concurrency + 1);
+      }
+      if (next === concurrency) return null;
+      const previous = concurrency;
+      concurrency = next;
+      return { concurrency, previous, reason, p95LatencyMs, throttleRate };
+    },
+  };
+}
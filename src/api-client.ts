@@ -3,22 +3,42 @@
  * Uses POST /api/v1/spreadsheet/extract/upload (multipart/form-data file upload).
  * Auth headers (must match Swagger): X-Access-Key, X-Secret-Message, X-Signature.
  * Uses undici with a custom connect timeout (config.api.timeoutMs); Node's default fetch has a 10s connect limit.
+ * The multipart body is streamed from disk (or a caller-supplied stream) so large workbooks are never held in memory.
+ * A run shares one pooled keep-alive dispatcher (initExtractDispatcher / closeExtractDispatcher) so latency
+ * is not dominated by per-file TCP/TLS handshakes; each result carries a connect/TLS/TTFB/download breakdown.
  */
 
 import { config as loadEnv } from "dotenv";
 import { basename } from "node:path";
-import { fetch, Agent, FormData } from "undici";
-import type { Config } from "./types.js";
+import { closeSync, createReadStream, fstatSync, openSync } from "node:fs";
+import { randomBytes } from "node:crypto";
+import type { Readable } from "node:stream";
+import type { Socket } from "node:net";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { performance } from "node:perf_hooks";
+import { fetch, Agent, buildConnector } from "undici";
+import type { Config, RequestTiming } from "./types.js";
 import { loadSecrets } from "./secrets.js";
+import { maxLoadProfileConcurrency } from "./load-profile.js";
 
 loadEnv();
 loadSecrets();
 
 export interface ExtractRequest {
+  /** Path of the file to upload (also used for the multipart filename). Streamed from disk unless fileStream/fileContentBase64 is set. */
   filePath: string;
+  /** Upload this stream instead of reading filePath. Single-use: a new stream is needed for every attempt. */
+  fileStream?: Readable;
+  /** Size of fileStream in bytes, when known (sets Content-Length instead of chunked encoding). */
+  fileSize?: number;
+  /** @deprecated In-memory upload; prefer filePath or fileStream. */
   fileContentBase64?: string;
   fileUrl?: string;
   brand?: string;
+  /** Sent as pattern_key (empty = let the API detect the pattern). */
+  patternKey?: string;
+  /** Sent as request_metadata (JSON string). */
+  requestMetadata?: string;
 }
 
 export interface ExtractResult {
@@ -27,6 +47,96 @@ export interface ExtractResult {
   latencyMs: number;
   body: string;
   headers: Record<string, string>;
+  /** Bytes of the multipart request body actually sent (file part plus form fields). */
+  uploadBytes: number;
+  /** Bytes of the file itself that were streamed into the request (its size on disk after a full upload). */
+  fileBytes: number;
+  timing: RequestTiming;
+  /** The file could not be read (or changed size during the upload); the API was not at fault. */
+  fileReadError?: boolean;
+}
+
+/** The file being uploaded could not be read, or its size changed while it streamed. */
+class FileReadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FileReadError";
+  }
+}
+
+/** Connection timings captured by the connector for the request that opened the socket. */
+interface ConnectTiming {
+  connectMs?: number;
+  tlsMs?: number;
+}
+
+const connectTimingContext = new AsyncLocalStorage<ConnectTiming>();
+
+let sharedDispatcher: Agent | null = null;
+
+/**
+ * Agent whose connector records DNS+TCP and TLS time into the ConnectTiming of the request
+ * that triggered the new connection (via AsyncLocalStorage).
+ */
+function createDispatcher(config: Config, connections?: number): Agent {
+  const baseConnect = buildConnector({ timeout: config.api.timeoutMs });
+  const connect: buildConnector.connector = (opts, callback) => {
+    const timing = connectTimingContext.getStore();
+    const t0 = performance.now();
+    let tcpDoneAt: number | undefined;
+    const socket = baseConnect(opts, (...args) => {
+      if (timing && !args[0]) {
+        const doneAt = performance.now();
+        const tcpAt = tcpDoneAt ?? doneAt;
+        timing.connectMs = Math.round(tcpAt - t0);
+        timing.tlsMs =
+          opts.protocol === "https:" ? Math.round(doneAt - tcpAt) : 0;
+      }
+      callback(...args);
+    }) as unknown as Socket | undefined;
+    socket?.once("connect", () => {
+      tcpDoneAt = performance.now();
+    });
+    return socket;
+  };
+  return new Agent({
+    connect,
+    connections,
+    bodyTimeout: config.api.timeoutMs,
+    keepAliveTimeout: config.api.keepAliveTimeoutMs,
+    keepAliveMaxTimeout: config.api.keepAliveMaxTimeoutMs,
+    pipelining: config.api.pipelining,
+  });
+}
+
+/**
+ * Create the pooled keep-alive dispatcher used by every extract() call until closeExtractDispatcher().
+ * Pool size: api.maxConnections, else the most requests the run can have in flight
+ * (run.concurrency, raised to adaptive max / busiest load profile stage).
+ */
+export function initExtractDispatcher(config: Config): void {
+  if (sharedDispatcher) return;
+  const run = config.run;
+  const inFlight = Math.max(
+    run.adaptiveConcurrency?.max ?? 0,
+    run.loadProfile
+      ? maxLoadProfileConcurrency(run.loadProfile, run.concurrency)
+      : (run.concurrency ?? 1),
+  );
+  const connections = Math.max(1, config.api.maxConnections ?? inFlight);
+  sharedDispatcher = createDispatcher(config, connections);
+}
+
+/** Close the shared dispatcher (waits for in-flight requests). */
+export async function closeExtractDispatcher(): Promise<void> {
+  const dispatcher = sharedDispatcher;
+  sharedDispatcher = null;
+  if (!dispatcher) return;
+  try {
+    await dispatcher.close();
+  } catch {
+    // ignore close errors
+  }
 }
 
 /** Base URL for the extract-upload endpoint (no trailing slash). */
@@ -35,7 +145,7 @@ export function getExtractUploadUrl(config: Config): string {
   return `${base}/api/v1/spreadsheet/extract/upload`;
 }
 
-/** Headers to match Swagger: auth + Accept. Do not set Content-Type; fetch sets multipart boundary. */
+/** Headers to match Swagger: auth + Accept. Content-Type (with the multipart boundary) is added per request. */
 function buildHeaders(): Record<string, string> {
   const accessKey = process.env.INTELLIEXTRACT_ACCESS_KEY ?? "";
   const secretMessage = process.env.INTELLIEXTRACT_SECRET_MESSAGE ?? "";
@@ -58,59 +168,217 @@ function getSpreadsheetMimeType(filename: string): string {
   return "application/octet-stream";
 }
 
+/** Quote a multipart filename the way browsers do (escape quotes and line breaks). */
+function quoteMultipartFilename(filename: string): string {
+  return filename
+    .replaceAll('"', "%22")
+    .replaceAll("\r", "%0D")
+    .replaceAll("\n", "%0A");
+}
+
+interface MultipartBody {
+  contentType: string;
+  /** Total body length when the file size is known; undefined = chunked upload. */
+  contentLength?: number;
+  body: AsyncIterable<Uint8Array>;
+  /** Bytes yielded so far (updated while the body streams). */
+  bytesSent: () => number;
+}
+
+/**
+ * Build a streaming multipart/form-data body: file part first, then pattern_key and request_metadata
+ * (same field order as the Swagger form).
+ */
+function buildMultipartBody(
+  filename: string,
+  mimeType: string,
+  file: AsyncIterable<Uint8Array | string> | Iterable<Uint8Array>,
+  fileSize: number | undefined,
+  fields: [string, string][],
+): MultipartBody {
+  const boundary = `----IntelliExtractRunner${randomBytes(12).toString("hex")}`;
+  const head = Buffer.from(
+    `--${boundary}\r\n` +
+      `Content-Disposition: form-data; name="file"; filename="${quoteMultipartFilename(filename)}"\r\n` +
+      `Content-Type: ${mimeType}\r\n\r\n`,
+  );
+  const tail = Buffer.concat([
+    ...fields.map(([name, value]) =>
+      Buffer.from(
+        `\r\n--${boundary}\r\n` +
+          `Content-Disposition: form-data; name="${name}"\r\n\r\n` +
+          value,
+      ),
+    ),
+    Buffer.from(`\r\n--${boundary}--\r\n`),
+  ]);
+  let sent = 0;
+  async function* generate(): AsyncGenerator<Uint8Array> {
+    sent += head.length;
+    yield head;
+    for await (const chunk of file) {
+      const buf = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+      sent += buf.length;
+      yield buf;
+    }
+    sent += tail.length;
+    yield tail;
+  }
+  return {
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    contentLength:
+      fileSize !== undefined ? head.length + fileSize + tail.length : undefined,
+    body: generate(),
+    bytesSent: () => sent,
+  };
+}
+
 export async function extract(
   config: Config,
   request: ExtractRequest,
   abortSignal?: AbortSignal,
 ): Promise<ExtractResult> {
   const start = Date.now();
+  const startPerf = performance.now();
   const url = getExtractUploadUrl(config);
+  const connectTiming: ConnectTiming = {};
+  const buildTiming = (
+    headersAt?: number,
+    bodyDoneAt?: number,
+  ): RequestTiming => {
+    const end = performance.now();
+    return {
+      connectMs: connectTiming.connectMs ?? 0,
+      tlsMs: connectTiming.tlsMs ?? 0,
+      ttfbMs: Math.round((headersAt ?? end) - startPerf),
+      downloadMs:
+        headersAt !== undefined && bodyDoneAt !== undefined
+          ? Math.round(bodyDoneAt - headersAt)
+          : 0,
+      reusedConnection: connectTiming.connectMs === undefined,
+    };
+  };
 
-  if (!request.fileContentBase64) {
+  let file: AsyncIterable<Uint8Array | string> | Iterable<Uint8Array>;
+  let fileSize: number | undefined;
+  let ownedStream: Readable | undefined;
+  let readError: FileReadError | undefined;
+  let fileBytes = 0;
+  try {
+    if (request.fileStream) {
+      file = request.fileStream;
+      fileSize = request.fileSize;
+    } else if (request.fileContentBase64) {
+      const fileBuffer = Buffer.from(request.fileContentBase64, "base64");
+      file = [fileBuffer];
+      fileSize = fileBuffer.length;
+    } else {
+      // Size from the descriptor that is streamed, so Content-Length describes the bytes actually read.
+      const fd = openSync(request.filePath, "r");
+      try {
+        fileSize = fstatSync(fd).size;
+      } catch (e) {
+        closeSync(fd);
+        throw e;
+      }
+      ownedStream = createReadStream("", {
+        fd,
+        start: 0,
+        end: Math.max(0, fileSize - 1),
+      });
+      file = ownedStream;
+    }
+  } catch (e) {
     return {
       success: false,
       statusCode: 0,
       latencyMs: Date.now() - start,
-      body: "Missing file content (fileContentBase64 required for upload)",
+      body: `Read file: ${e instanceof Error ? e.message : String(e)}`,
       headers: {},
+      uploadBytes: 0,
+      fileBytes: 0,
+      timing: buildTiming(),
+      fileReadError: true,
     };
   }
 
-  const fileBuffer = Buffer.from(request.fileContentBase64, "base64");
+  // Surface mid-upload read failures (and a file that shrank or grew past the announced Content-Length)
+  // as FileReadError rather than network errors.
+  async function* trackReadErrors(): AsyncGenerator<Uint8Array | string> {
+    let bytes = 0;
+    try {
+      for await (const chunk of file) {
+        bytes +=
+          typeof chunk === "string" ? Buffer.byteLength(chunk) : chunk.length;
+        if (fileSize !== undefined && bytes > fileSize) break;
+        yield chunk;
+        fileBytes = bytes;
+      }
+    } catch (e) {
+      readError = new FileReadError(e instanceof Error ? e.message : String(e));
+      throw readError;
+    }
+    if (fileSize !== undefined && bytes !== fileSize) {
+      readError = new FileReadError(
+        `file size changed during upload (expected ${fileSize} bytes, read ${bytes})`,
+      );
+      throw readError;
+    }
+  }
+
   const filename = basename(request.filePath);
   const mimeType = getSpreadsheetMimeType(filename);
-  const form = new FormData();
-  form.append("file", new Blob([fileBuffer], { type: mimeType }), filename);
-  form.append("pattern_key", "");
-  form.append("request_metadata", "");
+  const multipart = buildMultipartBody(
+    filename,
+    mimeType,
+    trackReadErrors(),
+    fileSize,
+    [
+      ["pattern_key", request.patternKey ?? ""],
+      ["request_metadata", request.requestMetadata ?? ""],
+    ],
+  );
+  const headers: Record<string, string> = {
+    ...buildHeaders(),
+    "Content-Type": multipart.contentType,
+  };
+  if (multipart.contentLength !== undefined)
+    headers["Content-Length"] = String(multipart.contentLength);
 
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), config.api.timeoutMs);
   const signal = abortSignal ?? controller.signal;
-  const dispatcher = new Agent({
-    connectTimeout: config.api.timeoutMs,
-    bodyTimeout: config.api.timeoutMs,
-  });
+  // Outside a run (no shared dispatcher) use a one-off agent and close it afterwards.
+  const ownDispatcher = sharedDispatcher ? null : createDispatcher(config);
+  const dispatcher = sharedDispatcher ?? ownDispatcher!;
 
   try {
-    const res = await fetch(url, {
-      method: "POST",
-      headers: buildHeaders(),
-      body: form,
-      signal,
-      dispatcher,
-    });
+    const res = await connectTimingContext.run(connectTiming, () =>
+      fetch(url, {
+        method: "POST",
+        headers,
+        body: multipart.body,
+        duplex: "half",
+        signal,
+        dispatcher,
+      }),
+    );
+    const headersAt = performance.now();
     const latencyMs = Date.now() - start;
     clearTimeout(timeout);
     const text = await res.text();
-    const headers: Record<string, string> = {};
-    res.headers.forEach((v, k) => (headers[k] = v));
+    const bodyDoneAt = performance.now();
+    const responseHeaders: Record<string, string> = {};
+    res.headers.forEach((v, k) => (responseHeaders[k] = v));
     return {
       success: res.ok,
       statusCode: res.status,
       latencyMs,
       body: text,
-      headers,
+      headers: responseHeaders,
+      uploadBytes: multipart.bytesSent(),
+      fileBytes,
+      timing: buildTiming(headersAt, bodyDoneAt),
     };
   } catch (err) {
     clearTimeout(timeout);
@@ -122,13 +390,25 @@ export async function extract(
         : err instanceof Error && err.cause
           ? String(err.cause)
           : "";
-    const body = cause ? `${message} (${cause})` : message;
+    const body = readError
+      ? `Read file: ${readError.message}`
+      : cause
+        ? `${message} (${cause})`
+        : message;
     return {
       success: false,
       statusCode: 0,
       latencyMs,
       body,
       headers: {},
+      uploadBytes: multipart.bytesSent(),
+      fileBytes,
+      timing: buildTiming(),
+      fileReadError: readError !== undefined,
     };
+  } finally {
+    // Release the file handle if the request ended before the stream was fully consumed.
+    ownedStream?.destroy();
+    if (ownDispatcher) void ownDispatcher.close().catch(() => {});
   }
 }
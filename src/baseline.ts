@@ -0,0 +1,374 @@
+/**
+ * Baselines (baseline in config): compare a run's latency, throughput and error rate with a pinned run
+ * (baseline.runId) or a rolling window of the last N earlier runs that processed files of the same
+ * tenant/purchaser pairs. Latency distributions are compared with a one-sided Mann-Whitney U test (normal
+ * approximation, tie-corrected); p50/p95/p99 are flagged when that shift is significant and the metric
+ * worsened by at least minRelativeChange. Wall-clock throughput (processed files per second of run time)
+ * is compared as two Poisson rates and flagged the same way. The error rate uses a one-sided two-proportion
+ * z-test.
+ * Regressions go into RunMetrics.baseline and anomalies (baseline_regression), and from there into the
+ * reports and the consolidated email.
+ */
+
+import { errorFunction } from "simple-statistics";
+import type {
+  Anomaly,
+  BaselineComparison,
+  BaselineConfig,
+  BaselineMetricComparison,
+  CheckpointRecord,
+  Config,
+  RunMetrics,
+} from "./types.js";
+import {
+  type CheckpointDb,
+  getAllRunIdsOrdered,
+  getRecordsForRun,
+} from "./checkpoint.js";
+import { computeMetrics } from "./metrics.js";
+
+const DEFAULT_WINDOW = 5;
+const DEFAULT_ALPHA = 0.05;
+const DEFAULT_MIN_RELATIVE_CHANGE = 0.1;
+const DEFAULT_MIN_SAMPLES = 10;
+
+/** Validate baseline; returns human-readable problems (empty when valid). */
+export function validateBaseline(value: unknown): string[] {
+  const c = value as BaselineConfig | null;
+  if (typeof c !== "object" || c === null) return ["baseline (object)"];
+  const problems: string[] = [];
+  if (c.runId !== undefined && (typeof c.runId !== "string" || c.runId === ""))
+    problems.push("baseline.runId (run ID when set)");
+  if (c.window !== undefined && !(Number.isInteger(c.window) && c.window >= 1))
+    problems.push("baseline.window (integer >= 1 when set)");
+  if (
+    c.alpha !== undefined &&
+    !(typeof c.alpha === "number" && c.alpha > 0 && c.alpha < 1)
+  )
+    problems.push("baseline.alpha (between 0 and 1 when set)");
+  if (
+    c.minRelativeChange !== undefined &&
+    !(typeof c.minRelativeChange === "number" && c.minRelativeChange >= 0)
+  )
+    problems.push("baseline.minRelativeChange (>= 0 when set)");
+  if (
+    c.minSamples !== undefined &&
+    !(Number.isInteger(c.minSamples) && c.minSamples >= 1)
+  )
+    problems.push("baseline.minSamples (integer >= 1 when set)");
+  return problems;
+}
+
+/** P(Z >= z) for a standard normal Z. */
+function upperTailProbability(z: number): number {
+  return 0.5 * (1 - errorFunction(z / Math.SQRT2));
+}
+
+/**
+ * One-sided test that `currentCount` events in `currentSeconds` come at a lower rate than `baseCount` in
+ * `baseSeconds`: given the total, the current count is binomial under equal rates (normal approximation
+ * with continuity correction).
+ */
+function rateLowerPValue(
+  currentCount: number,
+  currentSeconds: number,
+  baseCount: number,
+  baseSeconds: number,
+): number {
+  const total = currentCount + baseCount;
+  const share = currentSeconds / (currentSeconds + baseSeconds);
+  if (total === 0 || !(share > 0 && share < 1)) return 1;
+  const z =
+    (currentCount + 0.5 - total * share) /
+    Math.sqrt(total * share * (1 - share));
+  return upperTailProbability(-z);
+}
+
+function isProcessed(r: CheckpointRecord): boolean {
+  return r.status === "done" || r.status === "error";
+}
+
+function scopeKey(r: CheckpointRecord): string {
+  return `${r.brand}\0${r.purchaser ?? ""}`;
+}
+
+/**
+ * One-sided Mann-Whitney U test that `current` tends to be larger than `baseline`. Returns U of the current
+ * sample and the p-value (normal approximation with tie correction and continuity correction).
+ */
+function mannWhitneyGreater(
+  current: number[],
+  baseline: number[],
+): { u: number; pValue: number } {
+  const n1 = current.length;
+  const n2 = baseline.length;
+  if (n1 === 0 || n2 === 0) return { u: 0, pValue: 1 };
+  const all = [
+    ...current.map((value) => ({ value, current: true })),
+    ...baseline.map((value) => ({ value, current: false })),
+  ].sort((a, b) => a.value - b.value);
+  const n = all.length;
+  let rankSum = 0;
+  let tieTerm = 0;
+  for (let i = 0; i < n;) {
+    let j = i;
+    while (j + 1 < n && all[j + 1].value === all[i].value) j++;
+    const t = j - i + 1;
+    const avgRank = (i + j + 2) / 2;
+    for (let k = i; k <= j; k++) if (all[k].current) rankSum += avgRank;
+    tieTerm += t * t * t - t;
+    i = j + 1;
+  }
+  const u = rankSum - (n1 * (n1 + 1)) / 2;
+  const mean = (n1 * n2) / 2;
+  const variance = ((n1 * n2) / 12) * (n + 1 - tieTerm / (n * (n - 1)));
+  if (variance <= 0) return { u, pValue: 1 };
+  const z = (u - mean - 0.5) / Math.sqrt(variance);
+  return { u, pValue: upperTailProbability(z) };
+}
+
+/** One-sided two-proportion z-test that the current failure share is higher than the baseline's. */
+function proportionGreaterPValue(
+  currentFailed: number,
+  currentTotal: number,
+  baselineFailed: number,
+  baselineTotal: number,
+): number {
+  if (currentTotal === 0 || baselineTotal === 0) return 1;
+  const pooled =
+    (currentFailed + baselineFailed) / (currentTotal + baselineTotal);
+  const se = Math.sqrt(
+    pooled * (1 - pooled) * (1 / currentTotal + 1 / baselineTotal),
+  );
+  if (se === 0) return 1;
+  const z =
+    (currentFailed / currentTotal - baselineFailed / baselineTotal) / se;
+  return upperTailProbability(z);
+}
+
+/**
+ * Baseline runs for a run (or a report's cluster of runs, `runIds`): the pinned run, or the newest
+ * `window` runs older than all of `runIds` that processed files of the same tenant/purchaser pairs.
+ * `history` is every run, newest first. Window runs contribute only rows of those pairs.
+ */
+function selectBaseline(
+  baseline: BaselineConfig,
+  runIds: string[],
+  records: CheckpointRecord[],
+  history: { runId: string; records: CheckpointRecord[] }[],
+): {
+  mode: "pinned" | "window";
+  runIds: string[];
+  records: CheckpointRecord[];
+} {
+  if (baseline.runId !== undefined) {
+    const pinned = history.find((h) => h.runId === baseline.runId);
+    if (!pinned || runIds.includes(pinned.runId))
+      return { mode: "pinned", runIds: [], records: [] };
+    return {
+      mode: "pinned",
+      runIds: [pinned.runId],
+      records: pinned.records.filter(isProcessed),
+    };
+  }
+  const scopes = new Set(records.filter(isProcessed).map(scopeKey));
+  const oldestIndex = Math.max(
+    ...runIds.map((id) => history.findIndex((h) => h.runId === id)),
+  );
+  const picked: string[] = [];
+  const pooled: CheckpointRecord[] = [];
+  for (const h of history.slice(oldestIndex + 1)) {
+    if (picked.length >= (baseline.window ?? DEFAULT_WINDOW)) break;
+    const inScope = h.records.filter(
+      (r) => isProcessed(r) && scopes.has(scopeKey(r)),
+    );
+    if (inScope.length === 0) continue;
+    picked.push(h.runId);
+    pooled.push(...inScope);
+  }
+  return { mode: "window", runIds: picked, records: pooled };
+}
+
+/**
+ * Compare a run's metrics with its baseline. `runIds` are the runs behind `metrics` (one run, or a report
+ * cluster) and `records` their rows. Returns undefined when no baseline run was found or either side has
+ * fewer than minSamples latencies.
+ */
+export function compareWithBaseline(
+  baseline: BaselineConfig,
+  runIds: string[],
+  records: CheckpointRecord[],
+  metrics: RunMetrics,
+  history: { runId: string; records: CheckpointRecord[] }[],
+): BaselineComparison | undefined {
+  const selected = selectBaseline(baseline, runIds, records, history);
+  if (selected.runIds.length === 0) return undefined;
+  let start = Infinity;
+  let end = 0;
+  for (const r of selected.records) {
+    const s = Date.parse(r.startedAt ?? "");
+    const f = Date.parse(r.finishedAt ?? "");
+    if (!Number.isNaN(s)) start = Math.min(start, s);
+    if (!Number.isNaN(f)) end = Math.max(end, f);
+  }
+  const base = computeMetrics(
+    selected.runIds[0],
+    selected.records,
+    new Date(Number.isFinite(start) ? start : 0),
+    new Date(end),
+  );
+  const minSamples = baseline.minSamples ?? DEFAULT_MIN_SAMPLES;
+  if (
+    metrics.latenciesMs.length < minSamples ||
+    base.latenciesMs.length < minSamples
+  )
+    return undefined;
+
+  const alpha = baseline.alpha ?? DEFAULT_ALPHA;
+  const minRelativeChange =
+    baseline.minRelativeChange ?? DEFAULT_MIN_RELATIVE_CHANGE;
+  const latency = mannWhitneyGreater(metrics.latenciesMs, base.latenciesMs);
+  const slower = latency.pValue < alpha;
+  const relative = (current: number, before: number) =>
+    before > 0 ? (current - before) / before : undefined;
+  const compared: BaselineMetricComparison[] = (
+    ["p50LatencyMs", "p95LatencyMs", "p99LatencyMs"] as const
+  ).map((metric) => {
+    const relativeChange = relative(metrics[metric], base[metric]);
+    return {
+      metric,
+      baseline: base[metric],
+      current: metrics[metric],
+      relativeChange,
+      pValue: latency.pValue,
+      regressed:
+        slower &&
+        relativeChange !== undefined &&
+        relativeChange >= minRelativeChange,
+    };
+  });
+  // Wall-clock throughput: processed files over the seconds the run was active.
+  const processed = (m: RunMetrics) => m.success + m.failed;
+  const activeSeconds = (m: RunMetrics) =>
+    m.wallClockThroughputPerSecond > 0
+      ? processed(m) / m.wallClockThroughputPerSecond
+      : 0;
+  const throughputChange = relative(
+    metrics.wallClockThroughputPerSecond,
+    base.wallClockThroughputPerSecond,
+  );
+  const throughputPValue = rateLowerPValue(
+    processed(metrics),
+    activeSeconds(metrics),
+    processed(base),
+    activeSeconds(base),
+  );
+  compared.push({
+    metric: "throughputPerSecond",
+    baseline: base.wallClockThroughputPerSecond,
+    current: metrics.wallClockThroughputPerSecond,
+    relativeChange: throughputChange,
+    pValue: throughputPValue,
+    regressed:
+      throughputPValue < alpha &&
+      throughputChange !== undefined &&
+      -throughputChange >= minRelativeChange,
+  });
+  const errorPValue = proportionGreaterPValue(
+    metrics.failed,
+    metrics.success + metrics.failed,
+    base.failed,
+    base.success + base.failed,
+  );
+  compared.push({
+    metric: "errorRate",
+    baseline: base.errorRate,
+    current: metrics.errorRate,
+    relativeChange: relative(metrics.errorRate, base.errorRate),
+    pValue: errorPValue,
+    regressed: errorPValue < alpha && metrics.errorRate > base.errorRate,
+  });
+
+  return {
+    mode: selected.mode,
+    runIds: selected.runIds,
+    alpha,
+    minRelativeChange,
+    currentSamples: metrics.latenciesMs.length,
+    baselineSamples: base.latenciesMs.length,
+    mannWhitneyU: latency.u,
+    metrics: compared,
+    regressions: compared.filter((m) => m.regressed).length,
+  };
+}
+
+const METRIC_LABELS: Record<BaselineMetricComparison["metric"], string> = {
+  p50LatencyMs: "P50 latency",
+  p95LatencyMs: "P95 latency",
+  p99LatencyMs: "P99 latency",
+  throughputPerSecond: "Throughput",
+  errorRate: "Error rate",
+};
+
+/** "P95 latency 1200ms vs baseline 800ms (+50.0%, p=0.003)" and the like. */
+export function formatBaselineMetric(m: BaselineMetricComparison): string {
+  const value = (v: number) =>
+    m.metric === "errorRate"
+      ? `${(v * 100).toFixed(2)}%`
+      : m.metric === "throughputPerSecond"
+        ? `${v.toFixed(2)}/s`
+        : `${v.toFixed(0)}ms`;
+  const change =
+    m.relativeChange !== undefined
+      ? `${m.relativeChange >= 0 ? "+" : ""}${(m.relativeChange * 100).toFixed(1)}%, `
+      : "";
+  return `${METRIC_LABELS[m.metric]} ${value(m.current)} vs baseline ${value(m.baseline)} (${change}${m.pValue < 0.001 ? "p<0.001" : `p=${m.pValue.toFixed(3)}`})`;
+}
+
+/** Record a comparison on the metrics and add a baseline_regression anomaly per regressed metric. */
+export function applyBaseline(
+  metrics: RunMetrics,
+  comparison: BaselineComparison | undefined,
+): void {
+  if (!comparison) return;
+  metrics.baseline = comparison;
+  const anomalies: Anomaly[] = comparison.metrics
+    .filter((m) => m.regressed)
+    .map((m) => ({
+      type: "baseline_regression",
+      message: `${formatBaselineMetric(m)} against ${comparison.mode === "pinned" ? "pinned run" : "runs"} ${comparison.runIds.join(", ")}`,
+      value: m.current,
+      threshold: m.baseline,
+    }));
+  metrics.anomalies.push(...anomalies);
+}
+
+/** Every run's rows, newest first (for compareWithBaseline). */
+export function loadRunHistory(
+  db: CheckpointDb,
+): { runId: string; records: CheckpointRecord[] }[] {
+  return getAllRunIdsOrdered(db).map((runId) => ({
+    runId,
+    records: getRecordsForRun(db, runId),
+  }));
+}
+
+/** Compare a finished run with its baseline (no-op without baseline in config). */
+export function evaluateRunBaseline(
+  config: Config,
+  db: CheckpointDb,
+  runId: string,
+  records: CheckpointRecord[],
+  metrics: RunMetrics,
+): BaselineComparison | undefined {
+  if (!config.baseline) return undefined;
+  const comparison = compareWithBaseline(
+    config.baseline,
+    [runId],
+    records,
+    metrics,
+    loadRunHistory(db),
+  );
+  applyBaseline(metrics, comparison);
+  return comparison;
+}
@@ -1,22 +1,53 @@
 /**
  * File-level checkpointing for resumable execution.
- * Uses a JSON file to record status per file so runs can resume after interruption.
+ * Rows are kept in an append-only JSONL journal (one entry per upsert / run_meta change) and indexed in
+ * memory by (run_id, file_path); the journal is compacted into a snapshot once it holds mostly superseded
+ * entries. Appends and compaction hold `<journal>.lock`, and every append first applies what other
+ * processes appended since, so each process's index stays current. An existing whole-file checkpoint.json
+ * store is migrated on first open.
  * (No native modules - works on Windows without Visual Studio build tools.)
  */
 
 import {
+  appendFileSync,
+  closeSync,
+  fstatSync,
   mkdirSync,
   existsSync,
+  openSync,
   readFileSync,
+  readSync,
   writeFileSync,
   renameSync,
+  statSync,
   unlinkSync,
 } from "node:fs";
-import { dirname, join } from "node:path";
-import type { CheckpointRecord, CheckpointStatus } from "./types.js";
+import { dirname } from "node:path";
+import type {
+  CheckpointRecord,
+  CheckpointStatus,
+  CircuitState,
+  RequestTiming,
+  UploadStatus,
+  FileAccuracy,
+} from "./types.js";
 
 const RUN_ID_KEY = "current_run_id";
 const LAST_RUN_NUM_KEY = "last_run_number";
+const CIRCUIT_BREAKER_KEY = "circuit_breaker";
+const HEARTBEAT_KEY_PREFIX = "heartbeat:";
+/** run_meta `invalidated:<file_path>` = ISO time the file's source object changed (see invalidateFiles). */
+const INVALIDATED_KEY_PREFIX = "invalidated:";
+
+// A process writing "running" rows refreshes its heartbeat this often; rows of a process whose
+// heartbeat is older than HEARTBEAT_STALE_MS (or that is no longer alive) are orphaned.
+const HEARTBEAT_INTERVAL_MS = 15000;
+const HEARTBEAT_STALE_MS = 4 * HEARTBEAT_INTERVAL_MS;
+
+const JOURNAL_VERSION = 1;
+// Compact once the journal has at least this many entries and more than COMPACT_RATIO x the live ones
+const COMPACT_MIN_ENTRIES = 10000;
+const COMPACT_RATIO = 2;
 
 // Retry configuration for lock acquisition
 const LOCK_RETRIES = 10;
@@ -42,6 +73,17 @@ interface CheckpointRow {
   pattern_key: string | null;
   run_id: string;
   purchaser: string | null;
+  requested_pattern_key?: string | null;
+  request_metadata?: string | null;
+  timing?: RequestTiming | null;
+  load_stage_index?: number | null;
+  load_stage?: string | null;
+  concurrency_limit?: number | null;
+  pid?: number | null;
+  upload_status?: string | null;
+  upload_location?: string | null;
+  upload_error?: string | null;
+  accuracy?: FileAccuracy | null;
 }
 
 interface CheckpointStore {
@@ -49,17 +91,44 @@ interface CheckpointStore {
   checkpoints: CheckpointRow[];
 }
 
+/** One journal line. Later entries win; unknown ops are ignored so older readers survive newer journals. */
+type JournalEntry =
+  | { op: "header"; version: number; compactedAt: string }
+  | { op: "put"; row: CheckpointRow }
+  | { op: "meta"; key: string; value: string }
+  | { op: "unset"; key: string }
+  | { op: "delete_run"; run_id: string };
+
 export interface CheckpointDb {
+  /** Path of the JSONL journal. */
   _path: string;
   _data: CheckpointStore;
+  /** `${run_id}::${file_path}` → index in _data.checkpoints. */
+  _index: Map<string, number>;
+  /** Entries in the journal file (live + superseded), to decide when to compact. */
+  _journalEntries: number;
+  /** Bytes of the journal applied so far and its inode (a compaction elsewhere replaces the file). */
+  _journalOffset: number;
+  _journalIno: number;
 }
 
+/** Path of the legacy whole-file JSON store. */
 function jsonPath(checkpointPath: string): string {
   return (
     checkpointPath.replace(/\.sqlite$/i, ".json") || checkpointPath + ".json"
   );
 }
 
+/** Path of the journal: checkpoint.db / checkpoint.json / checkpoint.sqlite → checkpoint.jsonl. */
+function journalPath(checkpointPath: string): string {
+  if (/\.jsonl$/i.test(checkpointPath)) return checkpointPath;
+  return checkpointPath.replace(/\.(db|json|sqlite)$/i, "") + ".jsonl";
+}
+
+function rowKey(runId: string, filePath: string): string {
+  return `${runId}::${filePath}`;
+}
+
 function loadStore(path: string): CheckpointStore {
   // Try to read up to 3 times in case of atomic write contention
   for (let i = 0; i < 3; i++) {
@@ -80,93 +149,329 @@ function loadStore(path: string): CheckpointStore {
   return { run_meta: {}, checkpoints: [] };
 }
 
-function saveStore(db: CheckpointDb): void {
-  const dir = dirname(db._path);
-  mkdirSync(dir, { recursive: true });
+function emptyDb(path: string): CheckpointDb {
+  return {
+    _path: path,
+    _data: { run_meta: {}, checkpoints: [] },
+    _index: new Map(),
+    _journalEntries: 0,
+    _journalOffset: 0,
+    _journalIno: 0,
+  };
+}
 
-  const lockFile = db._path + ".lock";
-  const tempFile = db._path + ".tmp." + Math.random().toString(36).slice(2);
-  let locked = false;
+function putRow(db: CheckpointDb, row: CheckpointRow): void {
+  const key = rowKey(row.run_id, row.file_path);
+  const idx = db._index.get(key);
+  if (idx !== undefined) {
+    db._data.checkpoints[idx] = row;
+  } else {
+    db._index.set(key, db._data.checkpoints.push(row) - 1);
+  }
+}
+
+/** Remove rows matching `drop` and rebuild the index; returns the number removed. */
+function removeRows(
+  db: CheckpointDb,
+  drop: (row: CheckpointRow) => boolean,
+): number {
+  const kept = db._data.checkpoints.filter((row) => !drop(row));
+  const removed = db._data.checkpoints.length - kept.length;
+  if (removed === 0) return 0;
+  db._data.checkpoints = kept;
+  db._index = new Map(
+    kept.map((row, i) => [rowKey(row.run_id, row.file_path), i]),
+  );
+  return removed;
+}
+
+function applyEntry(db: CheckpointDb, entry: JournalEntry): void {
+  if (entry.op === "put") putRow(db, entry.row);
+  else if (entry.op === "meta") db._data.run_meta[entry.key] = entry.value;
+  else if (entry.op === "unset") delete db._data.run_meta[entry.key];
+  else if (entry.op === "delete_run") {
+    removeRows(db, (row) => row.run_id === entry.run_id);
+  }
+}
 
+/**
+ * Apply the journal's complete lines from db._journalOffset on. A line still being appended is left for
+ * the next read; a corrupt line (e.g. torn by a crash mid-append) is skipped rather than failing the store.
+ */
+function readJournalTail(db: CheckpointDb): void {
+  let fd: number;
   try {
-    // 1. Acquire Lock
-    for (let i = 0; i < LOCK_RETRIES; i++) {
-      try {
-        // Exclusive creation fails if file exists
-        writeFileSync(lockFile, process.pid.toString(), { flag: "wx" });
-        locked = true;
-        break;
-      } catch (e) {
-        if (i === LOCK_RETRIES - 1) {
-          // Could not acquire lock, proceed with risk or log error?
-          // We'll proceed to try and write anyway to avoid total data loss,
-          // but this indicates high contention.
-        } else {
-          sleep(LOCK_WAIT_MS);
-        }
-      }
+    fd = openSync(db._path, "r");
+  } catch (_) {
+    return;
+  }
+  let buf: Buffer;
+  try {
+    const { size, ino } = fstatSync(fd);
+    db._journalIno = ino;
+    buf = Buffer.alloc(Math.max(0, size - db._journalOffset));
+    let read = 0;
+    while (read < buf.length) {
+      const n = readSync(
+        fd,
+        buf,
+        read,
+        buf.length - read,
+        db._journalOffset + read,
+      );
+      if (n === 0) break;
+      read += n;
     }
+    buf = buf.subarray(0, buf.lastIndexOf(0x0a, read - 1) + 1);
+  } finally {
+    closeSync(fd);
+  }
+  db._journalOffset += buf.length;
+  for (const line of buf.toString("utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    db._journalEntries++;
+    try {
+      applyEntry(db, JSON.parse(line) as JournalEntry);
+    } catch (_) {}
+  }
+}
+
+/** Replay the whole journal into `db`, replacing its contents. */
+function replayJournal(db: CheckpointDb): void {
+  Object.assign(db, emptyDb(db._path));
+  readJournalTail(db);
+}
 
-    // 2. Reload latest data to merge (in case it changed while we were working)
-    // This is critical for concurrency: merge our changes into LATEST on disk
-    let currentOnDisk: CheckpointStore = { run_meta: {}, checkpoints: [] };
-    if (existsSync(db._path)) {
+/**
+ * Bring `db` up to date with the journal on disk: apply what other processes appended since the last read,
+ * or replay it all when the file was replaced (compacted or reset by another process). Call under the lock.
+ */
+function syncJournal(db: CheckpointDb): void {
+  const current = existsSync(db._path) ? statSync(db._path) : null;
+  if (
+    !current ||
+    current.ino !== db._journalIno ||
+    current.size < db._journalOffset
+  ) {
+    if (current || db._journalOffset > 0) replayJournal(db);
+  } else if (current.size > db._journalOffset) {
+    readJournalTail(db);
+  }
+}
+
+/**
+ * Run `fn` holding `<journal>.lock` (best effort: after LOCK_RETRIES it runs anyway, as before). A lock left
+ * by a process that is gone (e.g. killed mid-append) is removed instead of waited out.
+ */
+function withLock<T>(db: CheckpointDb, fn: () => T): T {
+  const lockFile = db._path + ".lock";
+  let locked = false;
+  for (let i = 0; i < LOCK_RETRIES; i++) {
+    try {
+      // Exclusive creation fails if file exists
+      writeFileSync(lockFile, process.pid.toString(), { flag: "wx" });
+      locked = true;
+      break;
+    } catch (e) {
+      if (removeStaleLock(lockFile)) continue;
+      if (i < LOCK_RETRIES - 1) sleep(LOCK_WAIT_MS);
+    }
+  }
+  try {
+    return fn();
+  } finally {
+    if (locked) {
       try {
-        const raw = readFileSync(db._path, "utf-8");
-        currentOnDisk = JSON.parse(raw);
+        unlinkSync(lockFile);
       } catch (_) {}
     }
+  }
+}
 
-    // Merge strategy:
-    // - run_meta: overwrite with ours
-    // - checkpoints: merge ours into disk version based on (run_id, file_path)
-    const mergedCheckpoints = [...(currentOnDisk.checkpoints || [])];
-    const ourCheckpoints = db._data.checkpoints;
-
-    // Create a map for fast lookup of disk records
-    const diskMap = new Map<string, number>();
-    mergedCheckpoints.forEach((r, idx) => {
-      diskMap.set(`${r.run_id}::${r.file_path}`, idx);
-    });
-
-    // Apply our updates
-    for (const ourRow of ourCheckpoints) {
-      const key = `${ourRow.run_id}::${ourRow.file_path}`;
-      const idx = diskMap.get(key);
-      if (idx !== undefined) {
-        mergedCheckpoints[idx] = ourRow;
-      } else {
-        mergedCheckpoints.push(ourRow);
-        diskMap.set(key, mergedCheckpoints.length - 1);
-      }
-    }
+/** Remove the lock file when the process named in it is gone; true when it was removed. */
+function removeStaleLock(lockFile: string): boolean {
+  try {
+    const pid = parseInt(readFileSync(lockFile, "utf-8"), 10);
+    if (!(pid > 0) || pid === process.pid || isProcessAlive(pid)) return false;
+    unlinkSync(lockFile);
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
 
-    const mergedData: CheckpointStore = {
-      run_meta: { ...currentOnDisk.run_meta, ...db._data.run_meta },
-      checkpoints: mergedCheckpoints,
-    };
+/**
+ * Append `entries` (already applied to `db`) while holding the lock. Entries other processes appended
+ * meanwhile are applied first and `entries` re-applied on top, so memory matches the journal's order.
+ */
+function appendJournalLocked(db: CheckpointDb, entries: JournalEntry[]): void {
+  if (entries.length === 0) return;
+  syncJournal(db);
+  for (const entry of entries) applyEntry(db, entry);
+  mkdirSync(dirname(db._path), { recursive: true });
+  appendFileSync(
+    db._path,
+    entries.map((e) => JSON.stringify(e) + "\n").join(""),
+    "utf-8",
+  );
+  db._journalEntries += entries.length;
+  // Nobody else appends while we hold the lock, so the journal now ends with our lines.
+  const { size, ino } = statSync(db._path);
+  db._journalOffset = size;
+  db._journalIno = ino;
+}
 
-    // Update in-memory db logic to match merged state
-    db._data = mergedData;
+function appendJournal(db: CheckpointDb, entries: JournalEntry[]): void {
+  if (entries.length === 0) return;
+  withLock(db, () => appendJournalLocked(db, entries));
+  maybeCompact(db);
+}
 
-    // 3. Write to temp file
-    writeFileSync(tempFile, JSON.stringify(mergedData, null, 0), "utf-8");
+function liveEntries(db: CheckpointDb): number {
+  return (
+    db._data.checkpoints.length + Object.keys(db._data.run_meta).length + 1
+  );
+}
+
+function maybeCompact(db: CheckpointDb): void {
+  if (
+    db._journalEntries >= COMPACT_MIN_ENTRIES &&
+    db._journalEntries > COMPACT_RATIO * liveEntries(db)
+  ) {
+    compactCheckpointDb(db);
+  }
+}
 
-    // 4. Atomic Rename
+function writeSnapshot(db: CheckpointDb): void {
+  const tempFile = db._path + ".tmp." + Math.random().toString(36).slice(2);
+  const lines: string[] = [
+    JSON.stringify({
+      op: "header",
+      version: JOURNAL_VERSION,
+      compactedAt: new Date().toISOString(),
+    } satisfies JournalEntry),
+  ];
+  for (const [key, value] of Object.entries(db._data.run_meta)) {
+    lines.push(
+      JSON.stringify({ op: "meta", key, value } satisfies JournalEntry),
+    );
+  }
+  for (const row of db._data.checkpoints) {
+    lines.push(JSON.stringify({ op: "put", row } satisfies JournalEntry));
+  }
+  try {
+    writeFileSync(tempFile, lines.join("\n") + "\n", "utf-8");
     renameSync(tempFile, db._path);
+    const { size, ino } = statSync(db._path);
+    db._journalEntries = lines.length;
+    db._journalOffset = size;
+    db._journalIno = ino;
   } catch (e) {
-    // Write failed
     try {
       if (existsSync(tempFile)) unlinkSync(tempFile);
     } catch (_) {}
-  } finally {
-    // 5. Release Lock
-    if (locked) {
-      try {
-        unlinkSync(lockFile);
-      } catch (_) {}
+    throw e;
+  }
+}
+
+export interface CompactResult {
+  /** Journal entries before / after compaction. */
+  entriesBefore: number;
+  entriesAfter: number;
+  /** Superseded skipped and filtered rows removed (pruneSkipped only). */
+  skippedRowsDropped: number;
+  /** SKIP- (no-op) runs left without rows and therefore removed. */
+  skipRunsDropped: string[];
+}
+
+/**
+ * Rewrite the journal as a snapshot of the live rows and run_meta (drops superseded entries).
+ * Re-reads the journal under the lock so entries appended by other processes are kept; appends take the
+ * same lock, so nothing is written between the re-read and the swap. With pruneSkipped,
+ * superseded skipped and filtered rows are dropped as well (see pruneSkippedRows).
+ */
+export function compactCheckpointDb(
+  db: CheckpointDb,
+  options: { pruneSkipped?: boolean } = {},
+): CompactResult {
+  return withLock(db, () => {
+    replayJournal(db);
+    const entriesBefore = db._journalEntries;
+    const runsBefore = new Set(db._data.checkpoints.map((c) => c.run_id));
+    const skippedRowsDropped = options.pruneSkipped ? pruneSkippedRows(db) : 0;
+    const runsAfter = new Set(db._data.checkpoints.map((c) => c.run_id));
+    writeSnapshot(db);
+    return {
+      entriesBefore,
+      entriesAfter: db._journalEntries,
+      skippedRowsDropped,
+      skipRunsDropped: [...runsBefore].filter(
+        (id) => id.startsWith("SKIP-") && !runsAfter.has(id),
+      ),
+    };
+  });
+}
+
+/**
+ * Drop "skipped" rows that no longer carry information: the file also has a done/error row, or a newer
+ * skipped row. The file's last skipped row is kept when it is its only record, so getCompletedPaths is
+ * unchanged. "filtered" rows are dropped when the file has a newer filtered row. Rows of the current run
+ * and of the newest SKIP- run (e.g. the last reported run) are kept.
+ */
+function pruneSkippedRows(db: CheckpointDb): number {
+  const protectedRuns = new Set<string>();
+  const currentRunId = db._data.run_meta[RUN_ID_KEY];
+  if (currentRunId) protectedRuns.add(currentRunId);
+  const newestSkipRun = getAllRunIdsOrdered(db).find((id) =>
+    id.startsWith("SKIP-"),
+  );
+  if (newestSkipRun) protectedRuns.add(newestSkipRun);
+
+  const hasOutcome = new Set<string>();
+  const latestSkipped = new Map<string, CheckpointRow>();
+  const latestFiltered = new Map<string, CheckpointRow>();
+  for (const c of db._data.checkpoints) {
+    if (c.status === "done" || c.status === "error") {
+      hasOutcome.add(c.file_path);
+    } else if (c.status === "skipped") {
+      const cur = latestSkipped.get(c.file_path);
+      if (!cur || (c.started_at ?? "") >= (cur.started_at ?? "")) {
+        latestSkipped.set(c.file_path, c);
+      }
+    } else if (c.status === "filtered") {
+      const cur = latestFiltered.get(c.file_path);
+      if (!cur || (c.started_at ?? "") >= (cur.started_at ?? "")) {
+        latestFiltered.set(c.file_path, c);
+      }
     }
   }
+  return removeRows(
+    db,
+    (c) =>
+      !protectedRuns.has(c.run_id) &&
+      ((c.status === "skipped" &&
+        (hasOutcome.has(c.file_path) ||
+          latestSkipped.get(c.file_path) !== c)) ||
+        (c.status === "filtered" && latestFiltered.get(c.file_path) !== c)),
+  );
+}
+
+/** Move a legacy whole-file JSON store into a new journal; the old file is kept as `<name>.migrated`. */
+function migrateLegacyStore(db: CheckpointDb, legacyPath: string): void {
+  withLock(db, () => {
+    if (existsSync(db._path)) return; // another process migrated first
+    const legacy = loadStore(legacyPath);
+    for (const [key, value] of Object.entries(legacy.run_meta ?? {})) {
+      db._data.run_meta[key] = value;
+    }
+    for (const row of Array.isArray(legacy.checkpoints)
+      ? legacy.checkpoints
+      : []) {
+      putRow(db, row);
+    }
+    writeSnapshot(db);
+    renameSync(legacyPath, legacyPath + ".migrated");
+  });
 }
 
 function rowToRecord(r: CheckpointRow): CheckpointRecord {
@@ -183,6 +488,17 @@ function rowToRecord(r: CheckpointRow): CheckpointRecord {
     patternKey: r.pattern_key ?? undefined,
     runId: r.run_id,
     purchaser: r.purchaser ?? undefined,
+    requestedPatternKey: r.requested_pattern_key ?? undefined,
+    requestMetadata: r.request_metadata ?? undefined,
+    timing: r.timing ?? undefined,
+    loadStageIndex: r.load_stage_index ?? undefined,
+    loadStage: r.load_stage ?? undefined,
+    concurrencyLimit: r.concurrency_limit ?? undefined,
+    pid: r.pid ?? undefined,
+    uploadStatus: (r.upload_status as UploadStatus | null) ?? undefined,
+    uploadLocation: r.upload_location ?? undefined,
+    uploadError: r.upload_error ?? undefined,
+    accuracy: r.accuracy ?? undefined,
   };
 }
 
@@ -200,17 +516,42 @@ function recordToRow(record: CheckpointRecord): CheckpointRow {
     pattern_key: record.patternKey ?? null,
     run_id: record.runId,
     purchaser: record.purchaser ?? null,
+    requested_pattern_key: record.requestedPatternKey ?? null,
+    request_metadata: record.requestMetadata ?? null,
+    timing: record.timing ?? null,
+    load_stage_index: record.loadStageIndex ?? null,
+    load_stage: record.loadStage ?? null,
+    concurrency_limit: record.concurrencyLimit ?? null,
+    pid: record.pid ?? null,
+    upload_status: record.uploadStatus ?? null,
+    upload_location: record.uploadLocation ?? null,
+    upload_error: record.uploadError ?? null,
+    accuracy: record.accuracy ?? null,
   };
 }
 
 export function openCheckpointDb(checkpointPath: string): CheckpointDb {
-  const path = jsonPath(checkpointPath);
+  const path = journalPath(checkpointPath);
   const dir = dirname(path);
   if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
-  const _data = loadStore(path);
-  if (!_data.run_meta) _data.run_meta = {};
-  if (!Array.isArray(_data.checkpoints)) _data.checkpoints = [];
-  return { _path: path, _data };
+  const db = emptyDb(path);
+  const legacyPath = jsonPath(checkpointPath);
+  if (!existsSync(path) && legacyPath !== path && existsSync(legacyPath)) {
+    migrateLegacyStore(db, legacyPath);
+  }
+  replayJournal(db);
+  return db;
+}
+
+/**
+ * Back up the store to `<journal>.bak` and start empty (used by the "fresh checkpoint" experiment).
+ */
+export function resetCheckpointStore(checkpointPath: string): void {
+  const db = openCheckpointDb(checkpointPath);
+  withLock(db, () => {
+    if (!existsSync(db._path)) return;
+    renameSync(db._path, db._path + ".bak");
+  });
 }
 
 /** Format run ID as a sequence number (RUN1) or human-readable date for temporary IDs. */
@@ -249,17 +590,33 @@ function getNextRunNumber(db: CheckpointDb): number {
   return max + 1;
 }
 
+function setMeta(db: CheckpointDb, values: Record<string, string>): void {
+  const entries: JournalEntry[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    db._data.run_meta[key] = value;
+    entries.push({ op: "meta", key, value });
+  }
+  appendJournal(db, entries);
+}
+
 /** Generate a new run ID without persisting it (for "no work" runs so we don't overwrite the current run). */
 export function createRunIdOnly(): string {
   return formatRunId(new Date());
 }
 
+/** Allocate the next RUN number under the lock, after reading what other processes appended. */
 export function startRun(db: CheckpointDb): string {
-  const nextNum = getNextRunNumber(db);
-  const runId = formatRunId(new Date(), nextNum);
-  db._data.run_meta[RUN_ID_KEY] = runId;
-  db._data.run_meta[LAST_RUN_NUM_KEY] = String(nextNum);
-  saveStore(db);
+  const runId = withLock(db, () => {
+    syncJournal(db);
+    const nextNum = getNextRunNumber(db);
+    const id = formatRunId(new Date(), nextNum);
+    appendJournalLocked(db, [
+      { op: "meta", key: RUN_ID_KEY, value: id },
+      { op: "meta", key: LAST_RUN_NUM_KEY, value: String(nextNum) },
+    ]);
+    return id;
+  });
+  maybeCompact(db);
   return runId;
 }
 
@@ -279,36 +636,88 @@ export function upsertCheckpoint(
   db: CheckpointDb,
   record: CheckpointRecord,
 ): void {
-  const row = recordToRow(record);
-  const idx = db._data.checkpoints.findIndex(
-    (c) => c.file_path === record.filePath && c.run_id === record.runId,
-  );
-  if (idx >= 0) {
-    db._data.checkpoints[idx] = row;
-  } else {
-    db._data.checkpoints.push(row);
-  }
-  saveStore(db);
+  upsertCheckpoints(db, [record]);
 }
 
-/** Batch upsert: apply all records in memory then save once. Use for many skipped/completed records to avoid N file writes. */
+/** Batch upsert: one journal append for all records. Use for many skipped/completed records. */
 export function upsertCheckpoints(
   db: CheckpointDb,
   records: CheckpointRecord[],
 ): void {
   if (records.length === 0) return;
+  const entries: JournalEntry[] = [];
   for (const record of records) {
     const row = recordToRow(record);
-    const idx = db._data.checkpoints.findIndex(
-      (c) => c.file_path === record.filePath && c.run_id === record.runId,
-    );
-    if (idx >= 0) {
-      db._data.checkpoints[idx] = row;
-    } else {
-      db._data.checkpoints.push(row);
+    putRow(db, row);
+    entries.push({ op: "put", row });
+    // A finished extraction of the new object version clears the invalidation.
+    const key = INVALIDATED_KEY_PREFIX + row.file_path;
+    if (
+      (row.status === "done" || row.status === "error") &&
+      key in db._data.run_meta &&
+      !isInvalidated(db, row)
+    ) {
+      delete db._data.run_meta[key];
+      entries.push({ op: "unset", key });
     }
   }
-  saveStore(db);
+  appendJournal(db, entries);
+}
+
+/** True when the row predates the latest invalidation of its file (it describes the old object). */
+function isInvalidated(db: CheckpointDb, row: CheckpointRow): boolean {
+  const at = db._data.run_meta[INVALIDATED_KEY_PREFIX + row.file_path];
+  if (!at) return false;
+  return (row.finished_at ?? row.started_at ?? "") < at;
+}
+
+/**
+ * Mark files whose source object changed (re-synced with a new ETag): their existing rows stop counting as
+ * completed, so the next run extracts them again. The rows themselves are kept for reports.
+ */
+export function invalidateFiles(
+  db: CheckpointDb,
+  filePaths: string[],
+  at: Date = new Date(),
+): void {
+  if (filePaths.length === 0) return;
+  const values: Record<string, string> = {};
+  for (const filePath of filePaths) {
+    values[INVALIDATED_KEY_PREFIX + filePath] = at.toISOString();
+  }
+  setMeta(db, values);
+}
+
+/** The row for (runId, filePath), if any. */
+export function getCheckpoint(
+  db: CheckpointDb,
+  runId: string,
+  filePath: string,
+): CheckpointRecord | undefined {
+  const idx = db._index.get(rowKey(runId, filePath));
+  return idx === undefined ? undefined : rowToRecord(db._data.checkpoints[idx]);
+}
+
+/**
+ * Record the results sink upload of a file's extraction JSON on its row for the run. The rest of the row is
+ * kept; does nothing when the row no longer exists (e.g. the run was deleted meanwhile).
+ */
+export function recordUploadStatus(
+  db: CheckpointDb,
+  runId: string,
+  filePath: string,
+  upload: { status: UploadStatus; location: string; error?: string },
+): void {
+  const idx = db._index.get(rowKey(runId, filePath));
+  if (idx === undefined) return;
+  const row: CheckpointRow = {
+    ...db._data.checkpoints[idx],
+    upload_status: upload.status,
+    upload_location: upload.location,
+    upload_error: upload.error ?? null,
+  };
+  putRow(db, row);
+  appendJournal(db, [{ op: "put", row }]);
 }
 
 export function isCompleted(
@@ -316,10 +725,9 @@ export function isCompleted(
   runId: string,
   filePath: string,
 ): boolean {
-  const row = db._data.checkpoints.find(
-    (c) => c.file_path === filePath && c.run_id === runId,
-  );
-  return row?.status === "done";
+  const row =
+    db._data.checkpoints[db._index.get(rowKey(runId, filePath)) ?? -1];
+  return row?.status === "done" && !isInvalidated(db, row);
 }
 
 export function getCompletedPaths(db: CheckpointDb): Set<string> {
@@ -330,9 +738,11 @@ export function getCompletedPaths(db: CheckpointDb): Set<string> {
   // - Files explicitly marked as "skipped" in a later run (because they
   //   were already completed) continue to be treated as completed even
   //   if older "done" rows are no longer present in the checkpoint file.
+  // Rows older than an invalidation (the object changed since) do not count.
   const rows = db._data.checkpoints.filter(
     (c) =>
-      c.status === "done" || c.status === "skipped" || c.status === "error",
+      (c.status === "done" || c.status === "skipped" || c.status === "error") &&
+      !isInvalidated(db, c),
   );
   return new Set(rows.map((r) => r.file_path));
 }
@@ -345,6 +755,27 @@ export function getRecordsForRun(
   return rows.map(rowToRecord);
 }
 
+/** Delete every row of `runId`; returns the number of rows removed. */
+export function deleteRun(db: CheckpointDb, runId: string): number {
+  const removed = removeRows(db, (row) => row.run_id === runId);
+  if (removed > 0) appendJournal(db, [{ op: "delete_run", run_id: runId }]);
+  return removed;
+}
+
+/** Every row of every run. */
+export function getAllRecords(db: CheckpointDb): CheckpointRecord[] {
+  return db._data.checkpoints.map(rowToRecord);
+}
+
+/** File paths whose row in any run has status "error" or "interrupted" (for retryFailed). */
+export function getErrorPaths(db: CheckpointDb): Set<string> {
+  return new Set(
+    db._data.checkpoints
+      .filter((c) => c.status === "error" || c.status === "interrupted")
+      .map((c) => c.file_path),
+  );
+}
+
 /**
  * Returns overall statistics across ALL runs for unique files,
  * taking the latest status for each file.
@@ -358,6 +789,8 @@ export function getCumulativeStats(
   for (const c of db._data.checkpoints) {
     if (filter?.tenant && c.brand !== filter.tenant) continue;
     if (filter?.purchaser && c.purchaser !== filter.purchaser) continue;
+    // Filtered files were never meant to be extracted; an earlier result still counts.
+    if (c.status === "filtered") continue;
 
     const time = c.started_at ? new Date(c.started_at).getTime() : 0;
     const existing = latestByFile.get(c.file_path);
@@ -390,6 +823,101 @@ export function getAllRunIdsOrdered(db: CheckpointDb): string[] {
     .map(([runId]) => runId);
 }
 
+/** Last circuit breaker state change (stored as JSON in run_meta). */
+export interface CircuitBreakerCheckpoint {
+  runId: string;
+  state: CircuitState;
+  changedAt: string;
+  reason?: string;
+}
+
+export function saveCircuitBreakerState(
+  db: CheckpointDb,
+  state: CircuitBreakerCheckpoint,
+): void {
+  setMeta(db, { [CIRCUIT_BREAKER_KEY]: JSON.stringify(state) });
+}
+
+export function getCircuitBreakerState(
+  db: CheckpointDb,
+): CircuitBreakerCheckpoint | null {
+  const raw = db._data.run_meta[CIRCUIT_BREAKER_KEY];
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as CircuitBreakerCheckpoint;
+  } catch {
+    return null;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    return (e as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Refresh this process's heartbeat in run_meta every HEARTBEAT_INTERVAL_MS while a run may write
+ * "running" rows. Returns the function that stops it and removes the heartbeat.
+ */
+export function startCheckpointHeartbeat(db: CheckpointDb): () => void {
+  const key = HEARTBEAT_KEY_PREFIX + process.pid;
+  const beat = () => setMeta(db, { [key]: new Date().toISOString() });
+  beat();
+  const timer = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+  timer.unref();
+  return () => {
+    clearInterval(timer);
+    delete db._data.run_meta[key];
+    appendJournal(db, [{ op: "unset", key }]);
+  };
+}
+
+/**
+ * Mark "running" rows left behind by a process that is gone (crash, kill -9) as "interrupted" so they are
+ * counted and re-queued. A row is orphaned when it has no pid (written by an older version), carries this
+ * process's pid (reused after a restart), or its process is not alive or has a stale heartbeat.
+ * Call at the start of a run, before this process writes any "running" row.
+ */
+export function recoverInterruptedRows(db: CheckpointDb): CheckpointRecord[] {
+  const now = Date.now();
+  const isOrphaned = (pid: number | null | undefined): boolean => {
+    if (pid == null || pid === process.pid || !isProcessAlive(pid)) {
+      return true;
+    }
+    const beat = db._data.run_meta[HEARTBEAT_KEY_PREFIX + pid];
+    return !beat || now - Date.parse(beat) > HEARTBEAT_STALE_MS;
+  };
+
+  const recovered: CheckpointRecord[] = db._data.checkpoints
+    .filter((c) => c.status === "running" && isOrphaned(c.pid))
+    .map((c) => ({
+      ...rowToRecord(c),
+      status: "interrupted",
+      finishedAt: new Date(now).toISOString(),
+      errorMessage: `Interrupted: process ${c.pid ?? "(unknown)"} stopped before the request finished`,
+      pid: undefined,
+    }));
+  upsertCheckpoints(db, recovered);
+
+  // Heartbeats of processes that are gone
+  const staleKeys = Object.keys(db._data.run_meta).filter(
+    (key) =>
+      key.startsWith(HEARTBEAT_KEY_PREFIX) &&
+      isOrphaned(Number(key.slice(HEARTBEAT_KEY_PREFIX.length))),
+  );
+  for (const key of staleKeys) delete db._data.run_meta[key];
+  appendJournal(
+    db,
+    staleKeys.map((key) => ({ op: "unset", key })),
+  );
+  return recovered;
+}
+
+/** Every write is already on disk; compacts the journal if it has grown mostly stale. */
 export function closeCheckpointDb(db: CheckpointDb): void {
-  saveStore(db);
+  maybeCompact(db);
 }
@@ -0,0 +1,214 @@
+/**
+ * Circuit breaker around extract(): closed → open when the failure ratio over a sliding window of recent
+ * requests reaches run.circuitBreaker.failureRatio; open holds every request for openDurationMs; half-open
+ * lets a single probe through and closes again on success (or re-opens on failure). Each admitted request
+ * carries a CircuitPermit, so only the probe's own outcome moves a half-open breaker and outcomes of
+ * requests admitted before the last state change are ignored.
+ * Failures are network errors and 5xx responses. One breaker is active per run (initCircuitBreaker).
+ */
+
+import type { CircuitBreakerConfig, CircuitState } from "./types.js";
+
+const DEFAULT_FAILURE_RATIO = 0.5;
+const DEFAULT_WINDOW_SIZE = 20;
+const DEFAULT_MIN_REQUESTS = 10;
+const DEFAULT_OPEN_DURATION_MS = 30000;
+const DEFAULT_MAX_OPEN_DURATION_MS = 30 * 60 * 1000;
+
+export interface CircuitStateChange {
+  state: CircuitState;
+  previous: CircuitState;
+  /** Why the state changed, e.g. "12/20 requests failed". */
+  reason: string;
+}
+
+/** Handed out by beforeRequest(); pass it back to record() with the request's outcome. */
+export interface CircuitPermit {
+  /** True for the single half-open probe request. */
+  readonly probe: boolean;
+  /** State-change counter at admission; outcomes from an earlier epoch are stale. */
+  readonly epoch: number;
+}
+
+export interface CircuitBreaker {
+  readonly state: CircuitState;
+  /**
+   * Wait until a request may be sent (immediately while closed; after the open period as the half-open probe,
+   * or once the probe has closed the breaker). Resolves null when the breaker has been open longer than
+   * maxOpenDurationMs in total, so the caller should give up.
+   */
+  beforeRequest(): Promise<CircuitPermit | null>;
+  /** Record the outcome of a request let through by beforeRequest(), with the permit it was given. */
+  record(permit: CircuitPermit, failed: boolean): void;
+  /** Resolve pending beforeRequest() calls with null (no permit) and stop timers. */
+  close(): void;
+}
+
+let activeBreaker: CircuitBreaker | null = null;
+
+/** Validate run.circuitBreaker; returns human-readable problems (empty when valid). */
+export function validateCircuitBreaker(value: unknown): string[] {
+  const c = value as CircuitBreakerConfig | null;
+  if (typeof c !== "object" || c === null) {
+    return ["run.circuitBreaker (object)"];
+  }
+  const problems: string[] = [];
+  if (
+    c.failureRatio !== undefined &&
+    !(
+      typeof c.failureRatio === "number" &&
+      c.failureRatio > 0 &&
+      c.failureRatio <= 1
+    )
+  ) {
+    problems.push("run.circuitBreaker.failureRatio (0 < ratio <= 1 when set)");
+  }
+  for (const key of [
+    "windowSize",
+    "minRequests",
+    "openDurationMs",
+    "maxOpenDurationMs",
+  ] as const) {
+    const v = c[key];
+    if (v !== undefined && !(typeof v === "number" && v >= 1)) {
+      problems.push(`run.circuitBreaker.${key} (>= 1 when set)`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Create a breaker. `initialState` "open" / "half_open" (e.g. restored from the checkpoint on resume)
+ * starts in half-open so the first request is a probe.
+ */
+export function createCircuitBreaker(
+  settings: CircuitBreakerConfig,
+  initialState: CircuitState = "closed",
+  onStateChange?: (change: CircuitStateChange) => void,
+): CircuitBreaker {
+  const failureRatio = settings.failureRatio ?? DEFAULT_FAILURE_RATIO;
+  const windowSize = settings.windowSize ?? DEFAULT_WINDOW_SIZE;
+  const minRequests = Math.min(
+    windowSize,
+    settings.minRequests ?? DEFAULT_MIN_REQUESTS,
+  );
+  const openDurationMs = settings.openDurationMs ?? DEFAULT_OPEN_DURATION_MS;
+  const maxOpenDurationMs =
+    settings.maxOpenDurationMs ?? DEFAULT_MAX_OPEN_DURATION_MS;
+
+  let state: CircuitState = initialState === "closed" ? "closed" : "half_open";
+  let outcomes: boolean[] = []; // true = failed
+  let probeInFlight = false;
+  let epoch = 0;
+  let openedAt = 0;
+  let openTotalMs = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+  const waiters: ((permit: CircuitPermit | null) => void)[] = [];
+
+  function transition(next: CircuitState, reason: string): void {
+    const previous = state;
+    if (previous === next) return;
+    if (previous === "open") openTotalMs += Date.now() - openedAt;
+    state = next;
+    epoch += 1;
+    onStateChange?.({ state: next, previous, reason });
+  }
+
+  function open(reason: string): void {
+    transition("open", reason);
+    openedAt = Date.now();
+    outcomes = [];
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      transition("half_open", `open for ${Math.round(openDurationMs / 1000)}s`);
+      release();
+    }, openDurationMs);
+  }
+
+  function admit(): CircuitPermit | null {
+    if (state === "closed") return { probe: false, epoch };
+    if (state === "half_open" && !probeInFlight) {
+      probeInFlight = true;
+      return { probe: true, epoch };
+    }
+    return null;
+  }
+
+  /** Let waiters through according to the current state. */
+  function release(): void {
+    while (waiters.length > 0) {
+      const permit = admit();
+      if (!permit) return;
+      waiters.shift()!(permit);
+    }
+  }
+
+  function shutdown(): void {
+    closed = true;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    while (waiters.length > 0) waiters.shift()!(null);
+  }
+
+  function gaveUp(): boolean {
+    const openFor =
+      openTotalMs + (state === "open" ? Date.now() - openedAt : 0);
+    return openFor >= maxOpenDurationMs;
+  }
+
+  return {
+    get state() {
+      return state;
+    },
+    beforeRequest() {
+      if (closed || gaveUp()) return Promise.resolve(null);
+      const permit = admit();
+      if (permit) return Promise.resolve(permit);
+      return new Promise((resolve) => waiters.push(resolve));
+    },
+    record(permit, failed) {
+      // Stragglers admitted before the last state change (e.g. sent before the breaker opened).
+      if (closed || permit.epoch !== epoch) return;
+      if (permit.probe) {
+        probeInFlight = false;
+        if (failed) {
+          open("probe request failed");
+          if (gaveUp()) shutdown();
+        } else {
+          outcomes = [];
+          transition("closed", "probe request succeeded");
+          release();
+        }
+        return;
+      }
+      outcomes.push(failed);
+      if (outcomes.length > windowSize) outcomes.shift();
+      const failures = outcomes.filter(Boolean).length;
+      if (
+        outcomes.length >= minRequests &&
+        failures / outcomes.length >= failureRatio
+      ) {
+        open(`${failures}/${outcomes.length} recent requests failed`);
+      }
+    },
+    close: shutdown,
+  };
+}
+
+/** Make `breaker` the run's breaker (null disables it). Call once per run, like initRetryBudget. */
+export function initCircuitBreaker(breaker: CircuitBreaker | null): void {
+  activeBreaker?.close();
+  activeBreaker = breaker;
+}
+
+/** The run's breaker, or null when run.circuitBreaker is not set. */
+export function getCircuitBreaker(): CircuitBreaker | null {
+  return activeBreaker;
+}
+
+export function closeCircuitBreaker(): void {
+  activeBreaker?.close();
+  activeBreaker = null;
+}
@@ -4,6 +4,27 @@ import yaml from "js-yaml";
 import { config as loadEnv } from "dotenv";
 import type { Config } from "./types.js";
 import { loadSecrets } from "./secrets.js";
+import { validateLoadProfile } from "./load-profile.js";
+import { validateAdaptiveConcurrency } from "./adaptive-concurrency.js";
+import { validateRetryPolicy } from "./retry-policy.js";
+import { validateCircuitBreaker } from "./circuit-breaker.js";
+import { validateSyncSources } from "./sync-source.js";
+import { validateListing } from "./sync-watermark.js";
+import { validateFileFilter } from "./file-filter.js";
+import { validateResultsSink } from "./results-sink.js";
+import { validateAccuracy } from "./accuracy.js";
+import { validateDiff } from "./run-diff.js";
+import { validateBaseline } from "./baseline.js";
+import { validateSlo } from "./slo.js";
+import { validateExtract } from "./extract-options.js";
+import {
+  applyDiscoveryRules,
+  bucketsForTenantPurchasers,
+  getDiscoveryCachePath,
+  loadDiscoveredTenants,
+  validateDiscovery,
+  type TenantPurchasers,
+} from "./tenant-discovery.js";
 
 loadEnv();
 loadSecrets();
@@ -21,6 +42,8 @@ function substituteEnv(value: unknown): unknown {
     return process.env[key] ?? value;
   }
   if (Array.isArray(value)) return value.map(substituteEnv);
+  // Unquoted YAML timestamps (e.g. filter.modifiedAfter: 2026-01-01) load as Date objects.
+  if (value instanceof Date) return value;
   if (value !== null && typeof value === "object") {
     const out: Record<string, unknown> = {};
     for (const [k, v] of Object.entries(value)) out[k] = substituteEnv(v);
@@ -35,11 +58,63 @@ function validateConfig(c: Config, configPath: string): void {
     missing.push("api.baseUrl");
   if (typeof c.api?.timeoutMs !== "number" || c.api.timeoutMs <= 0)
     missing.push("api.timeoutMs (positive number)");
+  for (const key of [
+    "maxConnections",
+    "keepAliveTimeoutMs",
+    "keepAliveMaxTimeoutMs",
+    "pipelining",
+  ] as const) {
+    const v = c.api?.[key];
+    if (v !== undefined && (typeof v !== "number" || !(v >= 1)))
+      missing.push(`api.${key} (>= 1 when set)`);
+  }
+  if (c.run?.loadProfile !== undefined)
+    missing.push(...validateLoadProfile(c.run.loadProfile));
+  if (c.run?.circuitBreaker !== undefined)
+    missing.push(...validateCircuitBreaker(c.run.circuitBreaker));
+  if (c.run?.retryPolicy !== undefined)
+    missing.push(...validateRetryPolicy(c.run.retryPolicy));
+  if (c.run?.adaptiveConcurrency !== undefined)
+    missing.push(...validateAdaptiveConcurrency(c.run.adaptiveConcurrency));
   if (!Array.isArray(c.s3?.buckets)) missing.push("s3.buckets (array)");
   if (!c.s3?.stagingDir || typeof c.s3.stagingDir !== "string")
     missing.push("s3.stagingDir");
   if (!c.s3?.region || typeof c.s3.region !== "string")
     missing.push("s3.region");
+  if (
+    c.s3?.downloadConcurrency !== undefined &&
+    !(
+      Number.isInteger(c.s3.downloadConcurrency) &&
+      c.s3.downloadConcurrency >= 1
+    )
+  )
+    missing.push("s3.downloadConcurrency (integer >= 1 when set)");
+  if (c.s3 && typeof c.s3 === "object")
+    missing.push(...validateSyncSources(c.s3));
+  if (c.run?.filter !== undefined)
+    missing.push(...validateFileFilter(c.run.filter, "run.filter"));
+  if (Array.isArray(c.s3?.buckets)) {
+    c.s3.buckets.forEach((b, i) => {
+      if (b?.filter !== undefined)
+        missing.push(
+          ...validateFileFilter(b.filter, `s3.buckets[${i}].filter`),
+        );
+    });
+  }
+  if (c.s3?.listing !== undefined)
+    missing.push(...validateListing(c.s3.listing));
+  if (c.s3?.discovery !== undefined)
+    missing.push(...validateDiscovery(c.s3.discovery));
+  if (
+    c.s3?.prune !== undefined &&
+    !["off", "delete", "quarantine"].includes(c.s3.prune)
+  )
+    missing.push("s3.prune (off | delete | quarantine when set)");
+  if (
+    c.s3?.quarantineDir !== undefined &&
+    (typeof c.s3.quarantineDir !== "string" || c.s3.quarantineDir === "")
+  )
+    missing.push("s3.quarantineDir (path when set)");
   if (!c.run?.checkpointPath || typeof c.run.checkpointPath !== "string")
     missing.push("run.checkpointPath");
   if (typeof c.run?.concurrency !== "number" || c.run.concurrency < 1)
@@ -59,6 +134,26 @@ function validateConfig(c: Config, configPath: string): void {
       missing.push("report.retainCount (non-negative integer when set)");
     }
   }
+  for (const key of ["extractionRetainRuns", "extractionRetainDays"] as const) {
+    const v = c.report?.[key];
+    if (v !== undefined && !(Number.isInteger(v) && v >= 0))
+      missing.push(`report.${key} (non-negative integer when set)`);
+  }
+  if (
+    c.report?.timeSeriesIntervalSeconds !== undefined &&
+    !(
+      typeof c.report.timeSeriesIntervalSeconds === "number" &&
+      c.report.timeSeriesIntervalSeconds > 0
+    )
+  )
+    missing.push("report.timeSeriesIntervalSeconds (> 0 when set)");
+  if (c.extract !== undefined) missing.push(...validateExtract(c.extract));
+  if (c.resultsSink !== undefined)
+    missing.push(...validateResultsSink(c.resultsSink));
+  if (c.accuracy !== undefined) missing.push(...validateAccuracy(c.accuracy));
+  if (c.diff !== undefined) missing.push(...validateDiff(c.diff));
+  if (c.baseline !== undefined) missing.push(...validateBaseline(c.baseline));
+  if (c.slo !== undefined) missing.push(...validateSlo(c.slo));
   if (missing.length > 0) {
     throw new Error(
       `Invalid config at ${configPath}. Missing or invalid: ${missing.join(", ")}.`,
@@ -90,37 +185,30 @@ export function loadConfig(configPath: string = CONFIG_PATH): Config {
   // Build S3 buckets from env when S3_BUCKET + S3_TENANT_PURCHASERS are set.
   // Layout (single bucket): <brand>/<purchaser>/... so that staging becomes:
   //   output/staging/<brand>/<purchaser>/<key-after-prefix>
+  // With s3.discovery enabled the map comes from the discovery cache instead (see tenant-discovery.ts).
   const envBucket = process.env.S3_BUCKET?.trim();
   const envTenantPurchasers = process.env.S3_TENANT_PURCHASERS;
-  if (envBucket && envTenantPurchasers) {
+  const discoveryEnabled = withEnv.s3?.discovery?.enabled === true;
+  if (envBucket && envTenantPurchasers && !discoveryEnabled) {
     try {
-      const mapping = JSON.parse(envTenantPurchasers) as Record<
-        string,
-        string[]
-      >;
-      const buckets: Config["s3"]["buckets"] = [];
-      for (const [brand, purchasers] of Object.entries(mapping)) {
-        if (!Array.isArray(purchasers)) continue;
-        for (const purchaser of purchasers) {
-          // One logical bucket per (brand, purchaser). The brand is the top-level
-          // folder; purchaser is the subfolder inside that brand.
-          const name = brand;
-          const prefix = `${brand}/${purchaser}/`;
-          buckets.push({
-            name,
-            bucket: envBucket,
-            prefix,
-            tenant: brand,
-            purchaser,
-          });
-        }
-      }
+      const mapping = JSON.parse(envTenantPurchasers) as TenantPurchasers;
+      const buckets = bucketsForTenantPurchasers(envBucket, mapping);
       if (buckets.length > 0) withEnv.s3.buckets = buckets;
     } catch {
       // ignore invalid JSON, keep yaml buckets
     }
   }
   validateConfig(withEnv, configPath);
+  if (envBucket && discoveryEnabled) {
+    const discovered = loadDiscoveredTenants(getDiscoveryCachePath(withEnv));
+    if (discovered?.bucket === envBucket) {
+      const buckets = bucketsForTenantPurchasers(
+        envBucket,
+        applyDiscoveryRules(discovered.tenantPurchasers, withEnv.s3.discovery!),
+      );
+      if (buckets.length > 0) withEnv.s3.buckets = buckets;
+    }
+  }
   // Apply env overrides for API
   if (process.env.INTELLIEXTRACT_BASE_URL)
     withEnv.api.baseUrl = process.env.INTELLIEXTRACT_BASE_URL;
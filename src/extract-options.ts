@@ -0,0 +1,190 @@
+/**
+ * Per-file extract request options: pattern_key and request_metadata sent with each upload.
+ * Resolution order (later wins): config `extract` defaults → matching tenant/purchaser override → mapping file entry.
+ * Templates use {{var}} placeholders (not ${var}, which config.ts reserves for env substitution):
+ * runId, brand, tenant, purchaser, relativePath, filePath, fileName. In a string requestMetadata (a JSON
+ * string) the values are JSON-escaped, so paths with backslashes or quotes keep the JSON valid.
+ * The mapping file is validated with the config and read once per run (initExtractOptions).
+ */
+
+import { readFileSync, existsSync } from "node:fs";
+import { basename } from "node:path";
+import type { Config, ExtractRequestOptions } from "./types.js";
+
+export interface ExtractOptionsJob {
+  filePath: string;
+  relativePath: string;
+  brand: string;
+  purchaser?: string;
+}
+
+/** Values actually sent to the API for one file (undefined = sent as empty string). */
+export interface ResolvedExtractOptions {
+  patternKey?: string;
+  requestMetadata?: string;
+}
+
+/** The run's mapping file (set by initExtractOptions, or on first use). */
+let mappingCache: {
+  path: string;
+  data: Record<string, ExtractRequestOptions>;
+} | null = null;
+
+/** Read and parse a mapping file; throws with the reason when it is missing or not a JSON object. */
+function readMappingFile(path: string): Record<string, ExtractRequestOptions> {
+  if (!existsSync(path)) throw new Error("file not found");
+  const parsed = JSON.parse(readFileSync(path, "utf-8")) as unknown;
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("not a JSON object keyed by file");
+  }
+  return parsed as Record<string, ExtractRequestOptions>;
+}
+
+function loadMappingFile(path: string): Record<string, ExtractRequestOptions> {
+  if (mappingCache?.path !== path) {
+    try {
+      mappingCache = { path, data: readMappingFile(path) };
+    } catch (e) {
+      throw new Error(
+        `extract.mappingFile ${path}: ${e instanceof Error ? e.message : String(e)}`,
+      );
+    }
+  }
+  return mappingCache.data;
+}
+
+/** Validate extract; returns human-readable problems (empty when valid). */
+export function validateExtract(value: unknown): string[] {
+  const c = value as Config["extract"] | null;
+  if (typeof c !== "object" || c === null) return ["extract (object when set)"];
+  const problems: string[] = [];
+  if (c.overrides !== undefined && !Array.isArray(c.overrides))
+    problems.push("extract.overrides (array when set)");
+  if (c.mappingFile !== undefined) {
+    if (typeof c.mappingFile !== "string" || c.mappingFile === "") {
+      problems.push("extract.mappingFile (path when set)");
+    } else {
+      try {
+        readMappingFile(c.mappingFile);
+      } catch (e) {
+        problems.push(
+          `extract.mappingFile (${e instanceof Error ? e.message : String(e)}: ${c.mappingFile})`,
+        );
+      }
+    }
+  }
+  return problems;
+}
+
+/** Read the mapping file for a run (call once per run, like initRetryBudget). */
+export function initExtractOptions(config: Config): void {
+  mappingCache = null;
+  if (config.extract?.mappingFile) loadMappingFile(config.extract.mappingFile);
+}
+
+function applyTemplate(
+  value: string,
+  vars: Record<string, string>,
+  escape: (v: string) => string = (v) => v,
+): string {
+  return value.replace(/\{\{\s*([a-zA-Z]+)\s*\}\}/g, (match, name: string) =>
+    name in vars ? escape(vars[name]) : match,
+  );
+}
+
+/** A value as the contents of a JSON string literal (quotes and backslashes escaped). */
+function jsonEscape(value: string): string {
+  return JSON.stringify(value).slice(1, -1);
+}
+
+function applyTemplateDeep(
+  value: unknown,
+  vars: Record<string, string>,
+): unknown {
+  if (typeof value === "string") return applyTemplate(value, vars);
+  if (Array.isArray(value)) return value.map((v) => applyTemplateDeep(v, vars));
+  if (value !== null && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      out[k] = applyTemplateDeep(v, vars);
+    }
+    return out;
+  }
+  return value;
+}
+
+/** Normalize a staging-relative path for mapping lookups (forward slashes, no leading ./). */
+function normalizeKey(p: string): string {
+  return p.replace(/\\/g, "/").replace(/^\.\//, "");
+}
+
+/**
+ * Resolve pattern_key and request_metadata for a file. Returns empty values when no `extract` config is set.
+ * Mapping file keys are `<brand>/<relativePath>` (relativePath includes the purchaser folder).
+ */
+export function resolveExtractOptions(
+  config: Config,
+  runId: string,
+  job: ExtractOptionsJob,
+): ResolvedExtractOptions {
+  const ext = config.extract;
+  if (!ext) return {};
+
+  // Pipeline jobs (from sync) carry no purchaser; it is the first folder of relativePath.
+  const relParts = normalizeKey(job.relativePath).split("/");
+  const purchaser =
+    job.purchaser ?? (relParts.length > 1 ? relParts[0] : undefined);
+
+  let patternKey = ext.patternKey;
+  let requestMetadata = ext.requestMetadata;
+
+  const override = ext.overrides?.find(
+    (o) =>
+      (!o.tenant || o.tenant === job.brand) &&
+      (!o.purchaser || o.purchaser === purchaser),
+  );
+  if (override) {
+    if (override.patternKey !== undefined) patternKey = override.patternKey;
+    if (override.requestMetadata !== undefined)
+      requestMetadata = override.requestMetadata;
+  }
+
+  if (ext.mappingFile) {
+    const mapping = loadMappingFile(ext.mappingFile);
+    const entry =
+      mapping[normalizeKey(`${job.brand}/${job.relativePath}`)] ??
+      mapping[normalizeKey(job.relativePath)];
+    if (entry) {
+      if (entry.patternKey !== undefined) patternKey = entry.patternKey;
+      if (entry.requestMetadata !== undefined)
+        requestMetadata = entry.requestMetadata;
+    }
+  }
+
+  const vars: Record<string, string> = {
+    runId,
+    brand: job.brand,
+    tenant: job.brand,
+    purchaser: purchaser ?? "",
+    relativePath: normalizeKey(job.relativePath),
+    filePath: job.filePath,
+    fileName: basename(job.filePath),
+  };
+
+  const resolvedPatternKey = patternKey
+    ? applyTemplate(patternKey, vars)
+    : undefined;
+  let resolvedMetadata: string | undefined;
+  if (typeof requestMetadata === "string") {
+    resolvedMetadata = requestMetadata
+      ? applyTemplate(requestMetadata, vars, jsonEscape)
+      : undefined;
+  } else if (requestMetadata !== undefined && requestMetadata !== null) {
+    resolvedMetadata = JSON.stringify(applyTemplateDeep(requestMetadata, vars));
+  }
+
+  return {
+    patternKey: resolvedPatternKey || undefined,
+    requestMetadata: resolvedMetadata,
+  };
+}
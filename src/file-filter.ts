@@ -0,0 +1,176 @@
+/**
+ * Include/exclude rules for sync and extraction (s3.buckets[].filter and run.filter): globs, extensions,
+ * size bounds and a LastModified window. A file must pass every configured filter; the first failing rule
+ * is reported as the reason so filtered files can be counted and listed instead of silently dropped.
+ *
+ * Globs match the path relative to the bucket entry's staging folder (the key after the prefix when a
+ * purchaser is set). A pattern without "/" matches the file name at any depth; `*` and `?` do not cross
+ * "/", `**` does.
+ */
+
+import type { FileFilterConfig } from "./types.js";
+
+export interface FilterCandidate {
+  /** Path relative to the bucket entry's staging folder, "/"-separated. */
+  path: string;
+  size: number;
+  /** LastModified (ISO); staged files carry the object's LastModified as mtime. */
+  lastModified?: string;
+}
+
+/** Returns the reason the file is filtered out, or null when it passes. */
+export type FileFilter = (file: FilterCandidate) => string | null;
+
+const DURATION_RE = /^(\d+(?:\.\d+)?)\s*(m|h|d|w)$/;
+const DURATION_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/** Validate one filter block; `path` is its config path for messages. */
+export function validateFileFilter(value: unknown, path: string): string[] {
+  const c = value as FileFilterConfig | null;
+  if (typeof c !== "object" || c === null) return [`${path} (object)`];
+  const problems: string[] = [];
+  for (const key of ["include", "exclude", "extensions"] as const) {
+    const v = c[key];
+    if (
+      v !== undefined &&
+      !(Array.isArray(v) && v.every((p) => typeof p === "string" && p !== ""))
+    )
+      problems.push(`${path}.${key} (array of strings when set)`);
+    else if (v !== undefined && key !== "extensions") {
+      for (const glob of v) {
+        try {
+          globMatcher(glob);
+        } catch (e) {
+          problems.push(
+            `${path}.${key} (invalid glob ${JSON.stringify(glob)}: ${e instanceof Error ? e.message : String(e)})`,
+          );
+        }
+      }
+    }
+  }
+  for (const key of ["minSize", "maxSize"] as const) {
+    const v = c[key];
+    if (v !== undefined && !(typeof v === "number" && v >= 0))
+      problems.push(`${path}.${key} (bytes >= 0 when set)`);
+  }
+  for (const key of ["modifiedAfter", "modifiedBefore"] as const) {
+    const v = c[key];
+    if (v !== undefined && parseTime(v, new Date()) === null)
+      problems.push(`${path}.${key} (ISO date or age like 30d / 12h when set)`);
+  }
+  return problems;
+}
+
+/** ISO date, or an age ("30d", "12h", "2w", "90m") counted back from `now`. */
+function parseTime(value: unknown, now: Date): number | null {
+  if (typeof value !== "string" && !(value instanceof Date)) return null;
+  if (value instanceof Date) return value.getTime();
+  const m = DURATION_RE.exec(value.trim());
+  if (m) return now.getTime() - Number(m[1]) * DURATION_MS[m[2]];
+  const t = Date.parse(value);
+  return Number.isNaN(t) ? null : t;
+}
+
+/** Throws a SyntaxError for a glob whose character class is not a valid RegExp class, e.g. `[z-a]`. */
+function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories; a trailing "**" matches everything below.
+        if (glob[i + 2] === "/") {
+          re += "(?:.*/)?";
+          i += 2;
+        } else {
+          re += ".*";
+          i += 1;
+        }
+      } else {
+        re += "[^/]*";
+      }
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else if (ch === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end < 0) {
+        re += "\\[";
+      } else {
+        let cls = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+        if (cls.startsWith("!")) cls = "^" + cls.slice(1);
+        re += `[${cls}]`;
+        i = end;
+      }
+    } else {
+      re += ch.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/** Match a "/"-separated path; a glob without "/" matches its last segment. */
+export function globMatcher(glob: string): (path: string) => boolean {
+  const re = globToRegExp(glob.replace(/^\.?\//, ""));
+  if (glob.includes("/")) return (path) => re.test(path);
+  return (path) => re.test(path.slice(path.lastIndexOf("/") + 1));
+}
+
+function compileOne(c: FileFilterConfig, now: Date): FileFilter {
+  const include = (c.include ?? []).map((g) => ({ g, m: globMatcher(g) }));
+  const exclude = (c.exclude ?? []).map((g) => ({ g, m: globMatcher(g) }));
+  const extensions = (c.extensions ?? []).map(
+    (e) => "." + e.replace(/^\./, "").toLowerCase(),
+  );
+  const after =
+    c.modifiedAfter !== undefined ? parseTime(c.modifiedAfter, now) : null;
+  const before =
+    c.modifiedBefore !== undefined ? parseTime(c.modifiedBefore, now) : null;
+  return (file) => {
+    const name = file.path.slice(file.path.lastIndexOf("/") + 1).toLowerCase();
+    if (extensions.length > 0 && !extensions.some((e) => name.endsWith(e)))
+      return `extension not in ${extensions.join(", ")}`;
+    if (include.length > 0 && !include.some(({ m }) => m(file.path)))
+      return "not matched by include";
+    const excluded = exclude.find(({ m }) => m(file.path));
+    if (excluded) return `excluded by ${excluded.g}`;
+    if (c.minSize !== undefined && file.size < c.minSize)
+      return `size ${file.size} < minSize ${c.minSize}`;
+    if (c.maxSize !== undefined && file.size > c.maxSize)
+      return `size ${file.size} > maxSize ${c.maxSize}`;
+    if (after !== null || before !== null) {
+      const t = file.lastModified ? Date.parse(file.lastModified) : NaN;
+      if (Number.isNaN(t)) return "LastModified unknown";
+      if (after !== null && t < after)
+        return `modified before ${new Date(after).toISOString()}`;
+      if (before !== null && t >= before)
+        return `modified after ${new Date(before).toISOString()}`;
+    }
+    return null;
+  };
+}
+
+/**
+ * Combine filters (e.g. the bucket entry's and run.filter); a file must pass all of them. Returns null
+ * when none is configured. Relative ages are resolved once, at `now`.
+ */
+export function compileFileFilter(
+  configs: (FileFilterConfig | undefined)[],
+  now: Date = new Date(),
+): FileFilter | null {
+  const filters = configs
+    .filter((c): c is FileFilterConfig => c !== undefined && c !== null)
+    .map((c) => compileOne(c, now));
+  if (filters.length === 0) return null;
+  return (file) => {
+    for (const f of filters) {
+      const reason = f(file);
+      if (reason) return reason;
+    }
+    return null;
+  };
+}
@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 /**
  * IntelliExtract Runner – CLI
- * Commands: sync | run | report
+ * Commands: sync | run | sync-extract | report | runs list/show/delete | checkpoint compact | discover | push-results | diff
  */
 
 import { program } from "commander";
@@ -12,21 +12,50 @@ import {
   runExtractionOnly,
   runSyncExtractPipeline,
 } from "./runner.js";
-import type { Config } from "./types.js";
-import { buildSummary, writeReports, writeReportsForRunId } from "./report.js";
+import type { Config, RunMetrics } from "./types.js";
+import {
+  buildSummary,
+  writeDiffReports,
+  writeReports,
+  writeReportsForRunId,
+} from "./report.js";
 import {
   openCheckpointDb,
   getRecordsForRun,
   closeCheckpointDb,
+  deleteRun,
+  compactCheckpointDb,
 } from "./checkpoint.js";
+import {
+  listRuns,
+  filterRunRecords,
+  formatRunList,
+  formatRunRecords,
+} from "./runs.js";
 import { clearPartialFileAndResumeState } from "./resume-state.js";
+import {
+  applyDiscoveryRules,
+  refreshDiscoveredTenants,
+} from "./tenant-discovery.js";
+import {
+  formatSinkStats,
+  pushResults,
+  uploadReportFiles,
+} from "./results-sink.js";
+import { findExtractionResult, removeRunResults } from "./result-store.js";
+import {
+  DIFF_REGRESSION_EXIT_CODE,
+  diffRuns,
+  formatRunDiff,
+} from "./run-diff.js";
 import { computeMetrics } from "./metrics.js";
+import { formatBaselineMetric } from "./baseline.js";
+import { SLO_FAILED_EXIT_CODE, formatSloCheck } from "./slo.js";
+import { installShutdownHandlers } from "./shutdown.js";
 import { writeFileSync, readFileSync, existsSync } from "node:fs";
 import { dirname } from "node:path";
 
-process.on("SIGTERM", () => {
-  process.exit(143);
-});
+installShutdownHandlers();
 
 const LAST_RUN_FILE = "last-run-id.txt";
 
@@ -43,6 +72,54 @@ function saveLastRunId(
   writeFileSync(path, runId, "utf-8");
 }
 
+/** One-line golden-dataset accuracy of a run (only when files were scored, see accuracy.ts). */
+function printAccuracy(metrics: RunMetrics): void {
+  const a = metrics.accuracy?.overall;
+  if (!a) return;
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+  console.log(
+    `Extraction accuracy: precision=${pct(a.precision)}, recall=${pct(a.recall)}, f1=${pct(a.f1)}, exact=${pct(a.exactMatchRate)} (${a.files} file(s) scored)`,
+  );
+}
+
+/** Baseline regressions of a run (only when baseline is configured and a baseline was found). */
+function printBaseline(metrics: RunMetrics): void {
+  const b = metrics.baseline;
+  if (!b) return;
+  console.log(
+    `Baseline (${b.mode === "pinned" ? "pinned" : "window"}: ${b.runIds.join(", ")}): ${b.regressions === 0 ? "no significant regressions" : `${b.regressions} regression(s)`}`,
+  );
+  for (const m of b.metrics.filter((x) => x.regressed))
+    console.log(`  REGRESSION ${formatBaselineMetric(m)}`);
+}
+
+/**
+ * SLO verdict of a run (only when slo is configured). When stdout is piped (app, CI) also writes
+ * SLO\t<pass|fail>\t<violations>\t<checks>\t<failed objectives>, and a failed SLO sets the exit code.
+ */
+function printSlo(metrics: RunMetrics): void {
+  const slo = metrics.slo;
+  if (!slo) return;
+  const failed = slo.checks.filter((c) => !c.passed).map(formatSloCheck);
+  console.log(
+    slo.passed
+      ? `SLO: PASS (${slo.checks.length} objective(s) checked)`
+      : `SLO: FAIL (${slo.violations} of ${slo.checks.length} objective(s) missed)`,
+  );
+  for (const f of failed) console.log(`  VIOLATION ${f}`);
+  if (process.stdout?.isTTY !== true)
+    process.stdout.write(
+      `SLO\t${slo.passed ? "pass" : "fail"}\t${slo.violations}\t${slo.checks.length}\t${failed.join("; ")}\n`,
+    );
+  if (!slo.passed) process.exitCode = SLO_FAILED_EXIT_CODE;
+}
+
+/** Upload written report files to the results sink (when configured) and print the outcome. */
+async function uploadReports(config: Config, paths: string[]): Promise<void> {
+  const stats = await uploadReportFiles(config, paths);
+  if (stats) console.log(`Results sink (reports): ${formatSinkStats(stats)}`);
+}
+
 program
   .name("intelliextract-runner")
   .description(
@@ -117,16 +194,22 @@ program
     "--pairs <json>",
     'JSON array of {tenant, purchaser} to scope (e.g. \'[{"tenant":"a","purchaser":"p"}]\')',
   )
+  .option(
+    "--full-listing",
+    "List every object even when s3.listing.incremental is on (reconcile deletions and rewrites)",
+  )
   .action(
     async (cmdOpts: {
       limit?: number;
       tenant?: string;
       purchaser?: string;
       pairs?: string;
+      fullListing?: boolean;
     }) => {
       try {
         const opts = program.opts() as { config?: string };
         const config = loadConfig(opts.config ?? getConfigPath());
+        await refreshDiscoveredTenants(config);
         const syncLimit =
           cmdOpts.limit === undefined || Number.isNaN(cmdOpts.limit)
             ? undefined
@@ -161,6 +244,7 @@ program
         const results = await syncAllBuckets(config, {
           syncLimit,
           buckets,
+          fullListing: cmdOpts.fullListing,
           onProgress: stdoutPiped
             ? (done, total) => {
                 process.stdout.write(`SYNC_PROGRESS\t${done}\t${total}\n`);
@@ -299,10 +383,13 @@ program
         console.log(
           `Extraction metrics: success=${result.metrics.success}, skipped=${result.metrics.skipped}, failed=${result.metrics.failed}`,
         );
+        printAccuracy(result.metrics);
+        printBaseline(result.metrics);
+        printSlo(result.metrics);
         saveLastRunId(config, result.run.runId);
         if (doReport) {
           const summary = buildSummary(result.metrics);
-          writeReports(config, summary);
+          await uploadReports(config, writeReports(config, summary));
           console.log(`Reports path: ${config.report.outputDir}`);
         }
       } catch (e) {
@@ -344,6 +431,10 @@ program
     "--retry-failed",
     "Only retry files that previously failed (status 'error')",
   )
+  .option(
+    "--full-listing",
+    "List every object even when s3.listing.incremental is on",
+  )
   .action(
     async (cmdOpts: {
       limit?: number;
@@ -354,6 +445,7 @@ program
       report?: boolean;
       runId?: string;
       retryFailed?: boolean;
+      fullListing?: boolean;
     }) => {
       try {
         const globalOpts = program.opts() as { config?: string };
@@ -386,7 +478,7 @@ program
         if (cmdOpts.resume) {
           clearPartialFileAndResumeState(config);
           console.log(
-            "Resume: cleared partial file (if any). Continuing with same run.",
+            "Resume: partial downloads (if any) continue from where they stopped. Continuing with same run.",
           );
         } else {
           clearPartialFileAndResumeState(config);
@@ -408,6 +500,7 @@ program
           pairs,
           runId: cmdOpts.runId,
           retryFailed: cmdOpts.retryFailed,
+          fullListing: cmdOpts.fullListing,
           onProgress: stdoutPiped
             ? (done, total) => {
                 process.stdout.write(`SYNC_PROGRESS\t${done}\t${total}\n`);
@@ -453,10 +546,16 @@ program
         console.log(
           `Extraction metrics: success=${result.metrics.success}, skipped=${result.metrics.skipped}, failed=${result.metrics.failed}`,
         );
+        printAccuracy(result.metrics);
+        printBaseline(result.metrics);
+        printSlo(result.metrics);
         saveLastRunId(result.config, result.run.runId);
         if (doReport) {
           const summary = buildSummary(result.metrics);
-          writeReports(result.config, summary);
+          await uploadReports(
+            result.config,
+            writeReports(result.config, summary),
+          );
           console.log(`Reports path: ${result.config.report.outputDir}`);
         }
       } catch (e) {
@@ -514,7 +613,7 @@ program
         new Date(finishedAt),
       );
       const summary = buildSummary(metrics);
-      writeReports(config, summary);
+      await uploadReports(config, writeReports(config, summary));
       console.log(`Reports path: ${config.report.outputDir}`);
     } catch (e) {
       console.error(
@@ -525,4 +624,374 @@ program
     }
   });
 
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+function loadCliConfig(): Config {
+  const globalOpts = program.opts() as { config?: string };
+  return loadConfig(globalOpts.config ?? getConfigPath());
+}
+
+const runsCommand = program
+  .command("runs")
+  .description("Inspect and maintain runs in the checkpoint store");
+
+runsCommand
+  .command("list")
+  .description("List runs (latest first) with file counts, duration and scope")
+  .option("--json", "Print JSON instead of a table")
+  .action((cmdOpts: { json?: boolean }) => {
+    try {
+      const db = openCheckpointDb(loadCliConfig().run.checkpointPath);
+      const runs = listRuns(db);
+      closeCheckpointDb(db);
+      if (cmdOpts.json) printJson(runs);
+      else console.log(formatRunList(runs));
+    } catch (e) {
+      console.error(
+        "Runs list failed:",
+        e instanceof Error ? e.message : String(e),
+      );
+      process.exit(1);
+    }
+  });
+
+runsCommand
+  .command("show <runId>")
+  .description("Per-file status for one run")
+  .option(
+    "--status <status>",
+    "Only files with this status (done, error, skipped, running, pending)",
+  )
+  .option("--brand <name>", "Only files of this brand (tenant)")
+  .option("--purchaser <name>", "Only files of this purchaser")
+  .option("--status-code <code>", "Only files with this HTTP status code")
+  .option("--json", "Print JSON instead of a table")
+  .action(
+    (
+      runId: string,
+      cmdOpts: {
+        status?: string;
+        brand?: string;
+        purchaser?: string;
+        statusCode?: string;
+        json?: boolean;
+      },
+    ) => {
+      try {
+        const statusCode =
+          cmdOpts.statusCode !== undefined
+            ? Number(cmdOpts.statusCode)
+            : undefined;
+        if (statusCode !== undefined && !Number.isInteger(statusCode)) {
+          console.error("--status-code must be an integer");
+          process.exit(1);
+        }
+        const db = openCheckpointDb(loadCliConfig().run.checkpointPath);
+        const all = getRecordsForRun(db, runId);
+        closeCheckpointDb(db);
+        if (all.length === 0) {
+          console.error(`No records found for run ${runId}`);
+          process.exit(1);
+        }
+        const records = filterRunRecords(all, {
+          status: cmdOpts.status,
+          brand: cmdOpts.brand,
+          purchaser: cmdOpts.purchaser,
+          statusCode,
+        });
+        if (cmdOpts.json) printJson({ runId, total: all.length, records });
+        else {
+          console.log(
+            `Run ${runId}: ${records.length} of ${all.length} file(s)`,
+          );
+          console.log(formatRunRecords(records));
+        }
+      } catch (e) {
+        console.error(
+          "Runs show failed:",
+          e instanceof Error ? e.message : String(e),
+        );
+        process.exit(1);
+      }
+    },
+  );
+
+runsCommand
+  .command("delete <runId>")
+  .description(
+    "Delete every checkpoint row and stored extraction result of a run",
+  )
+  .option("--json", "Print JSON instead of text")
+  .action((runId: string, cmdOpts: { json?: boolean }) => {
+    try {
+      const config = loadCliConfig();
+      const db = openCheckpointDb(config.run.checkpointPath);
+      const deletedRows = deleteRun(db, runId);
+      closeCheckpointDb(db);
+      const deletedResults =
+        deletedRows > 0 ? removeRunResults(config, runId) : false;
+      if (cmdOpts.json) printJson({ runId, deletedRows, deletedResults });
+      else if (deletedRows === 0)
+        console.error(`No records found for run ${runId}`);
+      else
+        console.log(
+          `Deleted run ${runId} (${deletedRows} row(s)${deletedResults ? ", extraction results" : ""})`,
+        );
+      if (deletedRows === 0) process.exit(1);
+    } catch (e) {
+      console.error(
+        "Runs delete failed:",
+        e instanceof Error ? e.message : String(e),
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("checkpoint")
+  .description("Checkpoint store maintenance")
+  .command("compact")
+  .description(
+    "Compact the checkpoint journal and drop superseded skipped rows and empty SKIP- runs",
+  )
+  .option("--json", "Print JSON instead of text")
+  .action((cmdOpts: { json?: boolean }) => {
+    try {
+      const db = openCheckpointDb(loadCliConfig().run.checkpointPath);
+      const result = compactCheckpointDb(db, { pruneSkipped: true });
+      if (cmdOpts.json) printJson(result);
+      else {
+        console.log(
+          `Compacted checkpoint journal: ${result.entriesBefore} → ${result.entriesAfter} entries`,
+        );
+        console.log(
+          `Superseded skipped/filtered rows dropped: ${result.skippedRowsDropped}`,
+        );
+        console.log(
+          `SKIP- runs dropped: ${result.skipRunsDropped.length}` +
+            (result.skipRunsDropped.length > 0
+              ? ` (${result.skipRunsDropped.join(", ")})`
+              : ""),
+        );
+      }
+    } catch (e) {
+      console.error(
+        "Checkpoint compact failed:",
+        e instanceof Error ? e.message : String(e),
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("discover")
+  .description(
+    "List tenant and purchaser folders of S3_BUCKET and refresh the discovery cache (s3.discovery)",
+  )
+  .option("--json", "Print JSON instead of text")
+  .action(async (cmdOpts: { json?: boolean }) => {
+    try {
+      const config = loadCliConfig();
+      if (!config.s3.discovery?.enabled) {
+        console.error(
+          "Tenant discovery is off: set s3.discovery.enabled: true in the config.",
+        );
+        process.exit(1);
+      }
+      const discovered = await refreshDiscoveredTenants(config, {
+        force: true,
+      });
+      if (!discovered) {
+        console.error("S3_BUCKET is not set.");
+        process.exit(1);
+      }
+      const selected = applyDiscoveryRules(
+        discovered.tenantPurchasers,
+        config.s3.discovery,
+      );
+      if (cmdOpts.json) {
+        printJson({ ...discovered, selected });
+        return;
+      }
+      console.log(
+        `Discovered ${discovered.bucket} at ${discovered.discoveredAt}`,
+      );
+      for (const [tenant, purchasers] of Object.entries(
+        discovered.tenantPurchasers,
+      )) {
+        const kept = new Set(selected[tenant] ?? []);
+        const list = purchasers
+          .map((p) => (kept.has(p) ? p : `${p} (excluded)`))
+          .join(", ");
+        console.log(`  ${tenant}: ${list || "(no purchaser folders)"}`);
+      }
+      const pairs = Object.values(selected).reduce((n, p) => n + p.length, 0);
+      console.log(
+        `${pairs} tenant/purchaser pair(s) selected by allow/deny rules.`,
+      );
+    } catch (e) {
+      console.error(
+        "Discover failed:",
+        e instanceof Error ? e.message : String(e),
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("push-results")
+  .description(
+    "Upload extraction results of a run that are not in the results sink yet (resultsSink)",
+  )
+  .option("-r, --run-id <id>", "Run ID to push (default: last run)")
+  .option("--json", "Print JSON instead of text")
+  .action(async (cmdOpts: { runId?: string; json?: boolean }) => {
+    try {
+      const config = loadCliConfig();
+      if (!config.resultsSink) {
+        console.error("No results sink: set resultsSink.bucket in the config.");
+        process.exit(1);
+      }
+      let runId = cmdOpts.runId;
+      if (!runId) {
+        const lastPath = getLastRunIdPath(config);
+        if (!existsSync(lastPath)) {
+          console.error('No last run found. Run "run" first or pass --run-id.');
+          process.exit(1);
+        }
+        runId = readFileSync(lastPath, "utf-8").trim();
+      }
+      const db = openCheckpointDb(config.run.checkpointPath);
+      try {
+        const records = getRecordsForRun(db, runId);
+        if (records.length === 0) {
+          console.error(`No records found for run ${runId}`);
+          process.exit(1);
+        }
+        const stats = await pushResults(config, db, records, (r) =>
+          findExtractionResult(config, r, r.runId),
+        );
+        if (cmdOpts.json) {
+          printJson({ runId, ...stats });
+          return;
+        }
+        console.log(
+          `Results sink (run ${runId}): ${stats ? formatSinkStats(stats) : "nothing to push"}`,
+        );
+        if (stats && stats.failed > 0) process.exitCode = 1;
+      } finally {
+        closeCheckpointDb(db);
+      }
+    } catch (e) {
+      console.error(
+        "Push results failed:",
+        e instanceof Error ? e.message : String(e),
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("diff")
+  .description(
+    "Compare the extraction outputs of two runs: unchanged, changed, newly failing or newly passing files",
+  )
+  .requiredOption(
+    "--base <runId>",
+    "Run to compare against (e.g. before a model deploy)",
+  )
+  .requiredOption("--target <runId>", "Run to compare")
+  .option(
+    "--ignore <paths...>",
+    "JSON paths to leave out (globs, e.g. meta.requestId **.timestamp); replaces diff.ignorePaths",
+  )
+  .option(
+    "--max-regressions <n>",
+    "Regressions allowed before the command fails (default: diff.maxRegressions or 0)",
+  )
+  .option(
+    "--max-regression-rate <ratio>",
+    "Share of paired files allowed to regress, 0..1 (default: diff.maxRegressionRate)",
+  )
+  .option("--no-report", "Do not write diff report files")
+  .option("--json", "Print JSON instead of text")
+  .action(
+    async (cmdOpts: {
+      base: string;
+      target: string;
+      ignore?: string[];
+      maxRegressions?: string;
+      maxRegressionRate?: string;
+      report: boolean;
+      json?: boolean;
+    }) => {
+      try {
+        const maxRegressions =
+          cmdOpts.maxRegressions !== undefined
+            ? Number(cmdOpts.maxRegressions)
+            : undefined;
+        if (
+          maxRegressions !== undefined &&
+          !(Number.isInteger(maxRegressions) && maxRegressions >= 0)
+        ) {
+          console.error("--max-regressions must be an integer >= 0");
+          process.exit(1);
+        }
+        const maxRegressionRate =
+          cmdOpts.maxRegressionRate !== undefined
+            ? Number(cmdOpts.maxRegressionRate)
+            : undefined;
+        if (
+          maxRegressionRate !== undefined &&
+          !(maxRegressionRate >= 0 && maxRegressionRate <= 1)
+        ) {
+          console.error("--max-regression-rate must be between 0 and 1");
+          process.exit(1);
+        }
+        const config = loadCliConfig();
+        const db = openCheckpointDb(config.run.checkpointPath);
+        const baseRecords = getRecordsForRun(db, cmdOpts.base);
+        const targetRecords = getRecordsForRun(db, cmdOpts.target);
+        closeCheckpointDb(db);
+        for (const [runId, records] of [
+          [cmdOpts.base, baseRecords],
+          [cmdOpts.target, targetRecords],
+        ] as const) {
+          if (records.length === 0) {
+            console.error(`No records found for run ${runId}`);
+            process.exit(1);
+          }
+        }
+        const diff = diffRuns(
+          config,
+          cmdOpts.base,
+          baseRecords,
+          cmdOpts.target,
+          targetRecords,
+          { ignorePaths: cmdOpts.ignore, maxRegressions, maxRegressionRate },
+        );
+        const written = cmdOpts.report ? writeDiffReports(config, diff) : [];
+        if (cmdOpts.json) {
+          const sink = await uploadReportFiles(config, written);
+          printJson({ ...diff, reports: written, resultsSink: sink });
+        } else {
+          console.log(formatRunDiff(diff));
+          if (written.length > 0)
+            console.log(`Diff reports: ${written.join(", ")}`);
+          await uploadReports(config, written);
+        }
+        if (diff.thresholdExceeded)
+          process.exitCode = DIFF_REGRESSION_EXIT_CODE;
+      } catch (e) {
+        console.error(
+          "Diff failed:",
+          e instanceof Error ? e.message : String(e),
+        );
+        process.exit(1);
+      }
+    },
+  );
+
 program.parse();
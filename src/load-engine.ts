@@ -1,34 +1,57 @@
 /**
  * Load engine: run extraction with configurable concurrency and optional rate limiting.
- * Uses p-queue for concurrency and requests-per-second cap.
+ * Uses p-queue for concurrency and requests-per-second cap, or a load profile gate when run.loadProfile is set.
  */
 
 import PQueue from "p-queue";
-import {
-  readFileSync,
-  existsSync,
-  readdirSync,
-  mkdirSync,
-  writeFileSync,
-} from "node:fs";
-import { join, relative, dirname } from "node:path";
-import type { Config, CheckpointRecord, S3BucketConfig } from "./types.js";
+import { statSync, existsSync, readdirSync } from "node:fs";
+import { join, relative } from "node:path";
+import type {
+  Config,
+  CheckpointRecord,
+  RequestResponseLogEntry,
+  S3BucketConfig,
+  FileFilterConfig,
+  FileAccuracy,
+  BaselineComparison,
+} from "./types.js";
 import {
   extract,
   getExtractUploadUrl,
+  initExtractDispatcher,
+  closeExtractDispatcher,
   type ExtractResult,
 } from "./api-client.js";
 import type { CheckpointDb } from "./checkpoint.js";
+import { compileFileFilter } from "./file-filter.js";
+import { scoreExtraction } from "./accuracy.js";
+import {
+  closeResultsSink,
+  formatSinkStats,
+  initResultsSink,
+  queueResultUpload,
+} from "./results-sink.js";
+import {
+  migrateFlatResults,
+  pruneRunResults,
+  saveExtractionResult,
+} from "./result-store.js";
 import {
   openCheckpointDb,
   getOrCreateRunId,
   getCompletedPaths,
+  getErrorPaths,
+  getCheckpoint,
   createRunIdOnly,
   upsertCheckpoint,
   upsertCheckpoints,
   getRecordsForRun,
   closeCheckpointDb,
   getCumulativeStats,
+  getCircuitBreakerState,
+  saveCircuitBreakerState,
+  recoverInterruptedRows,
+  startCheckpointHeartbeat,
 } from "./checkpoint.js";
 import {
   initRequestResponseLogger,
@@ -36,8 +59,43 @@ import {
   closeRequestResponseLogger,
 } from "./logger.js";
 import { getStagingSubdir } from "./s3-sync.js";
+import { PART_SUFFIX } from "./sync-source.js";
+import {
+  initExtractOptions,
+  resolveExtractOptions,
+  type ResolvedExtractOptions,
+} from "./extract-options.js";
 import { sendConsolidatedFailureEmail } from "./mailer.js";
+import {
+  createCircuitBreaker,
+  initCircuitBreaker,
+  getCircuitBreaker,
+  closeCircuitBreaker,
+} from "./circuit-breaker.js";
+import {
+  resolveRetryPolicy,
+  computeBackoffMs,
+  parseRetryAfterMs,
+  tryConsumeRetryBudget,
+  initRetryBudget,
+} from "./retry-policy.js";
 import { computeMetrics } from "./metrics.js";
+import { evaluateRunBaseline } from "./baseline.js";
+import {
+  createConcurrencyController,
+  type ConcurrencySample,
+} from "./adaptive-concurrency.js";
+import {
+  createLoadProfileGate,
+  maxLoadProfileConcurrency,
+  type ActiveLoadStage,
+  type LoadProfileGate,
+} from "./load-profile.js";
+import {
+  isShutdownRequested,
+  onShutdownRequested,
+  sleepUnlessShutdown,
+} from "./shutdown.js";
 
 export interface ExtractionFailure {
   filePath: string;
@@ -60,11 +118,23 @@ export interface LoadEngineResult {
   records: CheckpointRecord[];
   startedAt: Date;
   finishedAt: Date;
+  /** Comparison with the baseline runs (baseline in config). */
+  baseline?: BaselineComparison;
 }
 
 interface ExtractWithRetryResult {
   result: ExtractResult;
   attempts: number;
+  /** Attempts answered with 429 or 5xx (adaptive concurrency signal). */
+  throttledAttempts: number;
+}
+
+/** How a file was dispatched; recorded on its checkpoint for per-stage and concurrency reporting. */
+export interface DispatchInfo {
+  /** Load profile stage the file was dispatched in. */
+  loadStage?: ActiveLoadStage;
+  /** Adaptive queue concurrency limit at dispatch. */
+  concurrencyLimit?: number;
 }
 
 export class NetworkAbortError extends Error {
@@ -74,88 +144,189 @@ export class NetworkAbortError extends Error {
   }
 }
 
+/** A file's retries were cut short by SIGTERM/SIGINT; its checkpoint is marked "interrupted". */
+class RunInterruptedError extends Error {
+  constructor() {
+    super("Interrupted by shutdown before the request finished");
+    this.name = "RunInterruptedError";
+  }
+}
+
 /**
- * Call the extract API with retries.
- * Special handling for network errors (statusCode === 0):
- * - Retry 5 times with 12s delay (total ~60s).
- * - If still failing, throw NetworkAbortError to stop the entire run.
+ * Call the extract API with retries (see retry-policy.ts for the run.retryPolicy settings).
+ * Network errors (statusCode === 0) use their own retry budget (default: 5 retries 12s apart);
+ * when it is exhausted, NetworkAbortError is thrown to stop the entire run.
+ * Retriable HTTP errors (429, 5xx) use maxHttpRetries and the backoff strategy, waiting at least the
+ * Retry-After header when present (even past maxDelayMs). Every retry also takes one unit of the per-run
+ * retry budget; once that is spent the file's last result is recorded without further retries.
+ *
+ * With run.circuitBreaker set, every attempt first waits for the breaker; a network/5xx failure while the
+ * breaker is open (or that opened it) is held and re-sent once the breaker closes, without using a retry.
+ * NetworkAbortError is then only thrown when the breaker stays open longer than maxOpenDurationMs.
  *
- * Other transient errors (5xx, 429):
- * - Retry based on config.run.maxRetries.
+ * After SIGTERM/SIGINT no further attempt is sent: a pending retry throws RunInterruptedError.
+ *
+ * Every attempt is written to the request/response log. The file is streamed from job.filePath on
+ * every attempt (never buffered in memory).
  */
 async function extractWithRetries(
   config: Config,
+  runId: string,
   job: FileJob,
-  bodyBase64: string,
+  requestOptions: ResolvedExtractOptions = {},
 ): Promise<ExtractWithRetryResult> {
-  const maxRetries = Number.isInteger(config.run.maxRetries ?? 0)
-    ? Math.max(0, config.run.maxRetries ?? 0)
-    : 0;
-  const backoffBaseMs = Number.isFinite(config.run.retryBackoffMs ?? 0)
-    ? Math.max(0, config.run.retryBackoffMs ?? 0)
-    : 500;
+  const policy = resolveRetryPolicy(config);
+  const breaker = getCircuitBreaker();
 
   let attempt = 0;
+  let networkRetries = 0;
+  let httpRetries = 0;
+  // Per path, so decorrelated jitter on one grows only from its own delays.
+  let previousNetworkDelayMs = 0;
+  let previousHttpDelayMs = 0;
+  let throttledAttempts = 0;
   let last: ExtractResult;
 
-  // Network retry settings
-  const NETWORK_MAX_RETRIES = 5;
-  const NETWORK_RETRY_DELAY_MS = 12000;
-
   // eslint-disable-next-line no-constant-condition
   while (true) {
     attempt += 1;
+    const permit = breaker ? await breaker.beforeRequest() : null;
+    if (breaker && !permit) {
+      if (isShutdownRequested()) throw new RunInterruptedError();
+      throw new NetworkAbortError(
+        "API unavailable (circuit breaker open too long). Aborting run.",
+      );
+    }
     last = await extract(config, {
       filePath: job.filePath,
-      fileContentBase64: bodyBase64,
       brand: job.brand,
+      patternKey: requestOptions.patternKey,
+      requestMetadata: requestOptions.requestMetadata,
     });
 
-    // Check for Network Error (statusCode === 0)
-    if (last.statusCode === 0) {
-      if (attempt <= NETWORK_MAX_RETRIES) {
-        // Log to stdout so user sees it
-        if (typeof process !== "undefined" && !process.stdout.isTTY) {
-          process.stdout.write(
-            `LOG\tNetwork interruption detected. Retry ${attempt}/${NETWORK_MAX_RETRIES} in ${NETWORK_RETRY_DELAY_MS / 1000}s...\n`,
-          );
-        }
-        await new Promise((resolve) =>
-          setTimeout(resolve, NETWORK_RETRY_DELAY_MS),
-        );
-        continue;
-      } else {
-        // Failed after all retries
+    const code = last.statusCode;
+    const isNetworkError = code === 0 && !last.fileReadError; // unreadable file: not a network problem
+    const isRetriable = code === 429 || (code >= 500 && code < 600);
+    if (isRetriable) throttledAttempts++;
+    const isBreakerFailure = isNetworkError || (code >= 500 && code < 600);
+    if (breaker && permit) breaker.record(permit, isBreakerFailure);
+
+    let retry: RequestResponseLogEntry["retry"];
+    if (isBreakerFailure && breaker && breaker.state !== "closed") {
+      // Held by the open breaker: resend after it closes without using a retry.
+      retry = { reason: "circuit_open", delayMs: 0 };
+    } else if (isNetworkError) {
+      if (networkRetries >= policy.maxNetworkRetries) {
+        logAttempt(config, runId, job, requestOptions, last, attempt);
         throw new NetworkAbortError(
           "Network interruption detected (max retries exceeded). Aborting run.",
         );
       }
+      // An empty run budget ends this file's retries; it does not abort the run.
+      if (!tryConsumeRetryBudget()) {
+        logAttempt(config, runId, job, requestOptions, last, attempt);
+        break;
+      }
+      networkRetries++;
+      const delayMs = computeBackoffMs(
+        policy.networkStrategy,
+        policy.networkBaseDelayMs,
+        policy.maxDelayMs,
+        networkRetries,
+        previousNetworkDelayMs,
+      );
+      previousNetworkDelayMs = delayMs;
+      retry = { reason: "network", delayMs };
+      // Log to stdout so user sees it
+      if (typeof process !== "undefined" && !process.stdout.isTTY) {
+        process.stdout.write(
+          `LOG\tNetwork interruption detected. Retry ${networkRetries}/${policy.maxNetworkRetries} in ${Math.round(delayMs / 1000)}s...\n`,
+        );
+      }
+    } else if (
+      isRetriable &&
+      httpRetries < policy.maxHttpRetries &&
+      tryConsumeRetryBudget()
+    ) {
+      httpRetries++;
+      const backoffMs = computeBackoffMs(
+        policy.strategy,
+        policy.baseDelayMs,
+        policy.maxDelayMs,
+        httpRetries,
+        previousHttpDelayMs,
+      );
+      previousHttpDelayMs = backoffMs;
+      const retryAfterMs = policy.respectRetryAfter
+        ? parseRetryAfterMs(last.headers["retry-after"])
+        : undefined;
+      // Never resend before the server asked to, even when that is beyond maxDelayMs.
+      const delayMs =
+        retryAfterMs !== undefined
+          ? Math.max(backoffMs, retryAfterMs)
+          : backoffMs;
+      retry = { reason: `http_${code}`, delayMs, retryAfterMs };
     }
 
-    if (last.success) break;
-
-    // Handle other retriable errors (5xx, 429)
-    const code = last.statusCode;
-    const isRetriable = code === 429 || (code >= 500 && code < 600);
-
-    if (!isRetriable) break;
-    if (attempt > maxRetries) break;
-
-    if (backoffBaseMs > 0) {
-      const delay = backoffBaseMs * attempt; // simple linear backoff
-      await new Promise((resolve) => setTimeout(resolve, delay));
-    }
+    logAttempt(config, runId, job, requestOptions, last, attempt, retry);
+    if (!retry) break;
+    if (retry.delayMs > 0) await sleepUnlessShutdown(retry.delayMs);
+    if (isShutdownRequested()) throw new RunInterruptedError();
   }
 
-  return { result: last!, attempts: attempt };
+  return { result: last!, attempts: attempt, throttledAttempts };
 }
 
+/** Write one extract attempt to the request/response log (`retry` is set when another attempt follows). */
+function logAttempt(
+  config: Config,
+  runId: string,
+  job: FileJob,
+  requestOptions: ResolvedExtractOptions,
+  result: ExtractResult,
+  attempt: number,
+  retry?: RequestResponseLogEntry["retry"],
+): void {
+  logRequestResponse({
+    runId,
+    filePath: job.filePath,
+    brand: job.brand,
+    attempt,
+    request: {
+      method: "POST",
+      url: getExtractUploadUrl(config),
+      bodyPreview: undefined,
+      bodyLength: result.fileBytes,
+      multipartLength: result.uploadBytes,
+      patternKey: requestOptions.patternKey,
+      requestMetadata: requestOptions.requestMetadata,
+    },
+    response: {
+      statusCode: result.statusCode,
+      latencyMs: result.latencyMs,
+      bodyPreview: result.body.slice(0, 500),
+      bodyLength: result.body.length,
+      headers: result.headers,
+      timing: result.timing,
+    },
+    success: result.success,
+    retry,
+  });
+}
+
+/**
+ * Staged files of the given bucket entries. Files left out by the entry's filter or `runFilter` are
+ * returned separately with the reason, so the run can record them as filtered.
+ */
 function discoverStagingFiles(
   stagingDir: string,
   buckets: S3BucketConfig[],
-): FileJob[] {
+  runFilter?: FileFilterConfig,
+): { jobs: FileJob[]; filtered: (FileJob & { reason: string })[] } {
   const jobs: FileJob[] = [];
+  const filtered: (FileJob & { reason: string })[] = [];
   for (const bucket of buckets) {
+    const fileFilter = compileFileFilter([bucket.filter, runFilter]);
     const subdir = getStagingSubdir(bucket);
     const brandDir = join(stagingDir, subdir);
     if (!existsSync(brandDir)) continue;
@@ -203,7 +374,7 @@ function discoverStagingFiles(
           const full = join(dir, e.name);
           if (e.isDirectory()) {
             walk(full);
-          } else {
+          } else if (!e.name.endsWith(PART_SUFFIX)) {
             // Infer purchaser if not forced and we are deeper than brandDir
             let purchaser = forcedPurchaser;
             if (!purchaser) {
@@ -219,31 +390,47 @@ function discoverStagingFiles(
             // Original code: relative(brandDir, full). This includes purchaser folder in path.
             // That is correct for syncing back?
             const rel = relative(brandDir, full);
-            jobs.push({
+            const job: FileJob = {
               filePath: full,
               relativePath: rel,
               brand: bucket.name,
               purchaser,
-            });
+            };
+            if (fileFilter) {
+              // Staged files carry the object's LastModified as mtime (set by sync).
+              const st = statSync(full);
+              const reason = fileFilter({
+                path: relative(startDir, full).replace(/\\/g, "/"),
+                size: st.size,
+                lastModified: st.mtime.toISOString(),
+              });
+              if (reason) {
+                filtered.push({ ...job, reason });
+                continue;
+              }
+            }
+            jobs.push(job);
           }
         }
       };
       walk(startDir);
     }
   }
-  return jobs;
+  return { jobs, filtered };
 }
 
-/** Safe filename for extraction result JSON (one per file per run). */
-function extractionResultFilename(job: FileJob): string {
-  const safe = job.relativePath
-    .replaceAll("/", "_")
-    .replaceAll(/[^a-zA-Z0-9._-]/g, "_");
-  const base = job.brand + "_" + (safe || "file");
-  return base.endsWith(".json") ? base : base + ".json";
+/** Score a 2xx response against the file's ground truth (accuracy in config); undefined when not scored. */
+function scoreResponse(
+  config: Config,
+  job: FileJob,
+  result: ExtractResult,
+): FileAccuracy | undefined {
+  if (!result.body || result.statusCode < 200 || result.statusCode >= 300)
+    return undefined;
+  return scoreExtraction(config, job, result.body);
 }
 
-/** Write full API response JSON to succeeded/ or failed/ based on response.success in the body. */
+/** Write full API response JSON to the run's succeeded/ or failed/ (see result-store.ts) based on response.success in the body. */
 function writeExtractionResult(
   config: Config,
   runId: string,
@@ -252,7 +439,6 @@ function writeExtractionResult(
   latencyMs?: number,
 ): string | null {
   try {
-    const baseDir = join(dirname(config.report.outputDir), "extractions");
     let data: unknown;
     try {
       data = JSON.parse(responseBody) as unknown;
@@ -275,20 +461,23 @@ function writeExtractionResult(
       }
     }
 
-    const subdir = success ? "succeeded" : "failed";
-    const extractionsDir = join(baseDir, subdir);
-    mkdirSync(extractionsDir, { recursive: true });
-    const filename = extractionResultFilename(job);
-    const path = join(extractionsDir, filename);
-    writeFileSync(path, JSON.stringify(data, null, 2), "utf-8");
-    return path;
+    return saveExtractionResult(
+      config,
+      runId,
+      job,
+      JSON.stringify(data, null, 2),
+      success ? "succeeded" : "failed",
+    );
   } catch {
     return null;
   }
 }
 
 /**
- * Extract a single file (for pipeline: called as each file is synced). Caller must have opened the checkpoint db and initialized the request/response logger.
+ * Extract a single file (for pipeline: called as each file is synced). Caller must have opened the checkpoint db and initialized the request/response logger
+ * (and should call initExtractDispatcher so connections are pooled across files).
+ * @param dispatch - Load profile stage / concurrency limit the file was dispatched with (recorded on the checkpoint).
+ * @returns Latency and retry counts for adaptive concurrency, or undefined when no request was made.
  */
 export async function extractOneFile(
   config: Config,
@@ -296,12 +485,12 @@ export async function extractOneFile(
   db: CheckpointDb,
   job: FileJob,
   onFailure?: (failure: ExtractionFailure) => void,
-): Promise<void> {
+  dispatch: DispatchInfo = {},
+): Promise<ConcurrencySample | undefined> {
+  const { loadStage, concurrencyLimit } = dispatch;
   // Already handled in this run (done or error). Do not re-process or overwrite so the report
   // counts success/failed correctly.
-  const existingRow = db._data.checkpoints.find(
-    (c) => c.file_path === job.filePath && c.run_id === runId,
-  );
+  const existingRow = getCheckpoint(db, runId, job.filePath);
   if (
     existingRow &&
     (existingRow.status === "done" || existingRow.status === "error")
@@ -310,6 +499,7 @@ export async function extractOneFile(
   }
 
   const started = new Date().toISOString();
+  const requestOptions = resolveExtractOptions(config, runId, job);
   upsertCheckpoint(db, {
     filePath: job.filePath,
     relativePath: job.relativePath,
@@ -318,11 +508,17 @@ export async function extractOneFile(
     status: "running",
     startedAt: started,
     runId,
+    pid: process.pid,
+    requestedPatternKey: requestOptions.patternKey,
+    requestMetadata: requestOptions.requestMetadata,
+    loadStageIndex: loadStage?.index,
+    loadStage: loadStage?.name,
+    concurrencyLimit,
   });
 
-  let bodyBase64: string | undefined;
+  // Fail fast with a "Read file" error (instead of a network error mid-upload) when the file is missing.
   try {
-    bodyBase64 = readFileSync(job.filePath, { encoding: "base64" });
+    statSync(job.filePath);
   } catch (e) {
     const errMsg = e instanceof Error ? e.message : String(e);
     upsertCheckpoint(db, {
@@ -335,6 +531,11 @@ export async function extractOneFile(
       finishedAt: new Date().toISOString(),
       errorMessage: `Read file: ${errMsg}`,
       runId,
+      requestedPatternKey: requestOptions.patternKey,
+      requestMetadata: requestOptions.requestMetadata,
+      loadStageIndex: loadStage?.index,
+      loadStage: loadStage?.name,
+      concurrencyLimit,
     });
     // Record failure for consolidation
     onFailure?.({
@@ -346,31 +547,30 @@ export async function extractOneFile(
     return;
   }
 
-  const { result, attempts } = await extractWithRetries(
-    config,
-    job,
-    bodyBase64,
-  );
-
-  logRequestResponse({
-    runId,
-    filePath: job.filePath,
-    brand: job.brand,
-    request: {
-      method: "POST",
-      url: getExtractUploadUrl(config),
-      bodyPreview: undefined,
-      bodyLength: bodyBase64?.length,
-    },
-    response: {
-      statusCode: result.statusCode,
-      latencyMs: result.latencyMs,
-      bodyPreview: result.body.slice(0, 500),
-      bodyLength: result.body.length,
-      headers: result.headers,
-    },
-    success: result.success,
-  });
+  let extracted: ExtractWithRetryResult;
+  try {
+    extracted = await extractWithRetries(config, runId, job, requestOptions);
+  } catch (err) {
+    if (!(err instanceof RunInterruptedError)) throw err;
+    upsertCheckpoint(db, {
+      filePath: job.filePath,
+      relativePath: job.relativePath,
+      brand: job.brand,
+      purchaser: job.purchaser,
+      status: "interrupted",
+      startedAt: started,
+      finishedAt: new Date().toISOString(),
+      errorMessage: err.message,
+      runId,
+      requestedPatternKey: requestOptions.patternKey,
+      requestMetadata: requestOptions.requestMetadata,
+      loadStageIndex: loadStage?.index,
+      loadStage: loadStage?.name,
+      concurrencyLimit,
+    });
+    return;
+  }
+  const { result, attempts, throttledAttempts } = extracted;
 
   const isHttpSuccess = result.success;
   let isAppSuccess = isHttpSuccess;
@@ -396,9 +596,10 @@ export async function extractOneFile(
   const finalSuccess = isAppSuccess;
   const status = finalSuccess ? "done" : "error";
 
-  if (result.body) {
-    writeExtractionResult(config, runId, job, result.body, result.latencyMs);
-  }
+  const resultPath = result.body
+    ? writeExtractionResult(config, runId, job, result.body, result.latencyMs)
+    : null;
+  const accuracy = scoreResponse(config, job, result);
 
   const baseErrorSnippet = finalSuccess ? undefined : result.body.slice(0, 500);
   const errorMessage =
@@ -418,11 +619,19 @@ export async function extractOneFile(
     startedAt: started,
     finishedAt: new Date().toISOString(),
     latencyMs: result.latencyMs,
+    timing: result.timing,
     statusCode: result.statusCode,
     errorMessage,
     patternKey,
     runId,
+    requestedPatternKey: requestOptions.patternKey,
+    requestMetadata: requestOptions.requestMetadata,
+    loadStageIndex: loadStage?.index,
+    loadStage: loadStage?.name,
+    concurrencyLimit,
+    accuracy,
   });
+  if (resultPath) queueResultUpload(runId, job, resultPath);
 
   // Record failure for consolidation
   if (!finalSuccess) {
@@ -435,6 +644,207 @@ export async function extractOneFile(
       statusCode: result.statusCode,
     });
   }
+  return {
+    latencyMs: result.latencyMs,
+    attempts,
+    throttledAttempts,
+    concurrencyLimit,
+  };
+}
+
+/**
+ * Mark "running" rows orphaned by a crashed or killed run as "interrupted" (they are not completed, so they
+ * are queued again) and start this process's checkpoint heartbeat. Returns the function that stops it.
+ */
+export function initRunRecovery(db: CheckpointDb): () => void {
+  const recovered = recoverInterruptedRows(db);
+  if (recovered.length > 0) {
+    const runs = [...new Set(recovered.map((r) => r.runId))].join(", ");
+    const msg = `Recovered ${recovered.length} file(s) left running by a stopped process (${runs}); marked interrupted and queued again.`;
+    if (process.stdout?.isTTY === true) {
+      process.stdout.write("\r" + " ".repeat(60) + "\r" + msg + "\n");
+    } else {
+      process.stdout.write(`LOG\t${msg}\n`);
+    }
+  }
+  return startCheckpointHeartbeat(db);
+}
+
+function logRunLine(msg: string): void {
+  if (process.stdout?.isTTY === true) {
+    process.stdout.write(msg + "\n");
+  } else {
+    process.stdout.write(`LOG\t${msg}\n`);
+  }
+}
+
+/**
+ * End of a run's result handling: wait for results sink uploads (no-op without resultsSink) and prune old
+ * per-run result folders (report.extractionRetainRuns / extractionRetainDays), logging both.
+ */
+export async function finishRunResults(
+  config: Config,
+  db: CheckpointDb,
+  runId: string,
+): Promise<void> {
+  const stats = await closeResultsSink();
+  if (stats) logRunLine(`Results sink: ${formatSinkStats(stats)}`);
+  const pruned = pruneRunResults(config, db, runId);
+  if (pruned.length > 0)
+    logRunLine(
+      `Removed extraction results of ${pruned.length} old run(s): ${pruned.join(", ")}`,
+    );
+}
+
+/** Migrate a flat extractions/ layout to per-run folders once (see result-store.ts), logging what moved. */
+export function initResultStore(config: Config): void {
+  const migration = migrateFlatResults(config);
+  if (migration && migration.migrated + migration.withoutRunId > 0)
+    logRunLine(
+      `Extraction results migrated to per-run folders: ${migration.migrated} linked, ${migration.withoutRunId} without run ID (kept in the latest view), ${migration.staleRemoved} stale removed`,
+    );
+}
+
+/**
+ * On SIGTERM/SIGINT, call `stop` (the run stops dequeuing and clears its queue), release requests held by
+ * the circuit breaker and let in-flight requests finish; the run then closes normally, flushing the
+ * checkpoint and logs. Returns the function that unregisters the handler.
+ */
+export function drainOnShutdown(queue: PQueue, stop: () => void): () => void {
+  return onShutdownRequested((signal) => {
+    stop();
+    getCircuitBreaker()?.close();
+    const msg = `${signal} received: waiting for ${queue.pending} in-flight request(s), then stopping. Send again to exit immediately.`;
+    if (process.stdout?.isTTY === true) {
+      process.stdout.write("\r" + " ".repeat(60) + "\r" + msg + "\n");
+    } else {
+      process.stdout.write(`LOG\t${msg}\n`);
+    }
+  });
+}
+
+/**
+ * Create the load profile gate for a run when run.loadProfile is set (null otherwise).
+ * Stage changes are reported as LOG lines when stdout is piped, or on their own line in a TTY.
+ */
+export function createRunLoadProfileGate(
+  config: Config,
+): LoadProfileGate | null {
+  const profile = config.run.loadProfile;
+  if (!profile || profile.stages.length === 0) return null;
+  const isTTY =
+    typeof process !== "undefined" && process.stdout?.isTTY === true;
+  return createLoadProfileGate(
+    profile,
+    config.run.concurrency,
+    (stage, total) => {
+      const msg = stage
+        ? `Load profile stage ${stage.index + 1}/${total}: ${stage.name} (max ${stage.concurrency} in flight)`
+        : "Load profile finished; files not yet started are left for the next run.";
+      if (isTTY) {
+        process.stdout.write("\r" + " ".repeat(60) + "\r" + msg + "\n");
+      } else {
+        process.stdout.write(`LOG\t${msg}\n`);
+      }
+    },
+  );
+}
+
+/**
+ * Start the run's circuit breaker when run.circuitBreaker is set. State changes are saved in the checkpoint
+ * (so a resumed run starts half-open with a probe) and reported as LOG lines when stdout is piped.
+ */
+export function initRunCircuitBreaker(
+  config: Config,
+  db: CheckpointDb,
+  runId: string,
+): void {
+  const settings = config.run.circuitBreaker;
+  if (!settings) {
+    initCircuitBreaker(null);
+    return;
+  }
+  const saved = getCircuitBreakerState(db);
+  const initial = saved?.runId === runId ? saved.state : "closed";
+  const isTTY =
+    typeof process !== "undefined" && process.stdout?.isTTY === true;
+  initCircuitBreaker(
+    createCircuitBreaker(settings, initial, (change) => {
+      saveCircuitBreakerState(db, {
+        runId,
+        state: change.state,
+        changedAt: new Date().toISOString(),
+        reason: change.reason,
+      });
+      const msg =
+        change.state === "open"
+          ? `Circuit breaker open (${change.reason}). Holding extraction for ${Math.round((settings.openDurationMs ?? 30000) / 1000)}s.`
+          : change.state === "half_open"
+            ? "Circuit breaker half-open. Sending a probe request."
+            : `Circuit breaker closed (${change.reason}). Resuming extraction.`;
+      if (isTTY) {
+        process.stdout.write("\r" + " ".repeat(60) + "\r" + msg + "\n");
+      } else {
+        process.stdout.write(`LOG\t${msg}\n`);
+      }
+    }),
+  );
+}
+
+/** Adaptive concurrency for a run (see createRunConcurrencyController). */
+export interface RunConcurrencyController {
+  readonly concurrency: number;
+  record(sample: ConcurrencySample): void;
+}
+
+/**
+ * Create the adaptive concurrency controller for a run when run.adaptiveConcurrency is set (null otherwise).
+ * Resizes `queue` on every change and reports it as a CONCURRENCY line (limit, min, max, reason) when stdout
+ * is piped, or on its own line in a TTY.
+ */
+export function createRunConcurrencyController(
+  config: Config,
+  queue: PQueue,
+): RunConcurrencyController | null {
+  const settings = config.run.adaptiveConcurrency;
+  if (!settings) return null;
+  const controller = createConcurrencyController(
+    settings,
+    config.run.concurrency,
+  );
+  const isTTY =
+    typeof process !== "undefined" && process.stdout?.isTTY === true;
+  const report = (limit: number, reason: string, detail = ""): void => {
+    if (isTTY) {
+      process.stdout.write(
+        "\r" +
+          " ".repeat(60) +
+          "\r" +
+          `Concurrency: ${limit} (${reason}${detail})\n`,
+      );
+    } else {
+      process.stdout.write(
+        `CONCURRENCY\t${limit}\t${settings.min}\t${settings.max}\t${reason}\n`,
+      );
+    }
+  };
+  queue.concurrency = controller.concurrency;
+  report(controller.concurrency, "initial");
+  return {
+    get concurrency() {
+      return controller.concurrency;
+    },
+    record(sample) {
+      const change = controller.record(sample);
+      if (!change) return;
+      queue.concurrency = change.concurrency;
+      report(
+        change.concurrency,
+        change.reason,
+        `, p95 ${change.p95LatencyMs.toFixed(0)}ms, 429/5xx ${(change.throttleRate * 100).toFixed(1)}%`,
+      );
+    },
+  };
 }
 
 /**
@@ -460,21 +870,21 @@ export async function runExtraction(
   },
 ): Promise<LoadEngineResult> {
   const db = openCheckpointDb(config.run.checkpointPath);
+  const stopHeartbeat = initRunRecovery(db);
   const runId = options?.runId ?? getOrCreateRunId(db);
   const completed = config.run.skipCompleted
     ? getCompletedPaths(db)
     : new Set<string>();
 
   // If retryFailed is on, we ALSO want to know which files have "error" status
-  const errorPaths = options?.retryFailed
-    ? new Set(
-        db._data.checkpoints
-          .filter((c) => c.status === "error")
-          .map((c) => c.file_path),
-      )
-    : null;
+  const errorPaths = options?.retryFailed ? getErrorPaths(db) : null;
 
   initRequestResponseLogger(config, runId);
+  initExtractDispatcher(config);
+  initRetryBudget(config);
+  initExtractOptions(config);
+  initResultStore(config);
+  initResultsSink(config, db);
 
   let buckets = config.s3.buckets;
   if (options?.pairs && options.pairs.length > 0) {
@@ -492,7 +902,11 @@ export async function runExtraction(
       (b) => b.tenant === options.tenant && b.purchaser === options.purchaser,
     );
   }
-  const jobs = discoverStagingFiles(config.s3.stagingDir, buckets);
+  const { jobs, filtered } = discoverStagingFiles(
+    config.s3.stagingDir,
+    buckets,
+    config.run.filter,
+  );
 
   // Get records already associated with this run so we don't overwrite "done" with "skipped"
   const existingRecordsParams = getRecordsForRun(db, runId);
@@ -539,12 +953,38 @@ export async function runExtraction(
     upsertCheckpoints(db, skippedRecords);
   }
 
+  // Files left out by include/exclude rules are recorded as 'filtered' (reason in errorMessage) so
+  // reports can count and list them.
+  const filteredRecords = filtered
+    .filter((f) => !alreadyInRun.has(f.filePath))
+    .map((f) => ({
+      filePath: f.filePath,
+      relativePath: f.relativePath,
+      brand: f.brand,
+      purchaser: f.purchaser,
+      status: "filtered" as const,
+      errorMessage: f.reason,
+      runId: runIdToUse,
+      startedAt: new Date().toISOString(),
+      finishedAt: new Date().toISOString(),
+    }));
+  if (filteredRecords.length > 0) {
+    upsertCheckpoints(db, filteredRecords);
+  }
+
   if (toProcess.length === 0) {
     initRequestResponseLogger(config, runIdToUse);
   }
-  const concurrency = config.run.concurrency;
+  // With a load profile the gate paces requests; the queue only needs enough workers for the busiest stage.
+  const loadProfileGate =
+    toProcess.length > 0 ? createRunLoadProfileGate(config) : null;
+  const concurrency = loadProfileGate
+    ? maxLoadProfileConcurrency(config.run.loadProfile!, config.run.concurrency)
+    : config.run.concurrency;
   const intervalCap =
-    config.run.requestsPerSecond > 0 ? config.run.requestsPerSecond : undefined;
+    !loadProfileGate && config.run.requestsPerSecond > 0
+      ? config.run.requestsPerSecond
+      : undefined;
   const queueOptions: {
     concurrency: number;
     interval?: number;
@@ -555,10 +995,15 @@ export async function runExtraction(
     queueOptions.intervalCap = intervalCap;
   }
   const queue = new PQueue(queueOptions);
+  const concurrencyController =
+    toProcess.length > 0 ? createRunConcurrencyController(config, queue) : null;
+  initRunCircuitBreaker(config, db, runIdToUse);
   const startedAt = new Date();
   const failures: ExtractionFailure[] = [];
   const total = toProcess.length;
   let done = 0;
+  // Files left for a later run because the load profile finished (or the run stopped) before they started.
+  let notStarted = 0;
   const isTTY =
     typeof process !== "undefined" && process.stdout?.isTTY === true;
   const barWidth = 24;
@@ -576,28 +1021,50 @@ export async function runExtraction(
   }
 
   function updateProgress(): void {
+    const expected = total - notStarted;
     if (isTTY && total > 0) {
       const pct =
-        total === 0 ? 100 : Math.min(100, Math.round((100 * done) / total));
-      const filled = Math.round((barWidth * done) / total);
+        expected === 0
+          ? 100
+          : Math.min(100, Math.round((100 * done) / expected));
+      const filled =
+        expected === 0 ? barWidth : Math.round((barWidth * done) / expected);
       const bar = "=".repeat(filled) + " ".repeat(barWidth - filled);
-      process.stdout.write(`\rExtraction: [${bar}] ${pct}% (${done}/${total})`);
+      const skippedNote = notStarted > 0 ? `, ${notStarted} not started` : "";
+      process.stdout.write(
+        `\rExtraction: [${bar}] ${pct}% (${done}/${expected}${skippedNote})`,
+      );
     } else if (stdoutPiped && total > 0) {
-      process.stdout.write(`EXTRACTION_PROGRESS\t${done}\t${total}\n`);
+      process.stdout.write(`EXTRACTION_PROGRESS\t${done}\t${expected}\n`);
     }
   }
 
   let aborted = false;
+  const stopDraining = drainOnShutdown(queue, () => {
+    aborted = true;
+    queue.clear();
+    loadProfileGate?.close();
+  });
 
   for (const job of toProcess) {
     // If already aborted, don't add more jobs
     if (aborted) break;
 
+    let loadStage: ActiveLoadStage | undefined;
+    let dispatched = false;
     queue
       .add(async () => {
         if (aborted) return;
+        if (loadProfileGate) {
+          const stage = await loadProfileGate.acquire();
+          if (!stage) return; // profile finished: leave the file for the next run
+          loadStage = stage;
+        }
+        dispatched = true;
+        const concurrencyLimit = concurrencyController?.concurrency;
 
         const started = new Date().toISOString();
+        const requestOptions = resolveExtractOptions(config, runIdToUse, job);
         upsertCheckpoint(db, {
           filePath: job.filePath,
           relativePath: job.relativePath,
@@ -606,11 +1073,16 @@ export async function runExtraction(
           status: "running",
           startedAt: started,
           runId: runIdToUse,
+          pid: process.pid,
+          requestedPatternKey: requestOptions.patternKey,
+          requestMetadata: requestOptions.requestMetadata,
+          loadStageIndex: loadStage?.index,
+          loadStage: loadStage?.name,
+          concurrencyLimit,
         });
 
-        let bodyBase64: string | undefined;
         try {
-          bodyBase64 = readFileSync(job.filePath, { encoding: "base64" });
+          statSync(job.filePath);
         } catch (e) {
           const errMsg = e instanceof Error ? e.message : String(e);
           const failure = {
@@ -630,35 +1102,23 @@ export async function runExtraction(
             finishedAt: new Date().toISOString(),
             errorMessage: `Read file: ${errMsg}`,
             runId: runIdToUse,
+            requestedPatternKey: requestOptions.patternKey,
+            requestMetadata: requestOptions.requestMetadata,
+            loadStageIndex: loadStage?.index,
+            loadStage: loadStage?.name,
+            concurrencyLimit,
           });
           return;
         }
 
         try {
-          const { result, attempts } = await extractWithRetries(
-            config,
-            job,
-            bodyBase64,
-          );
-
-          logRequestResponse({
-            runId: runIdToUse,
-            filePath: job.filePath,
-            brand: job.brand,
-            request: {
-              method: "POST",
-              url: getExtractUploadUrl(config),
-              bodyPreview: undefined,
-              bodyLength: bodyBase64?.length,
-            },
-            response: {
-              statusCode: result.statusCode,
-              latencyMs: result.latencyMs,
-              bodyPreview: result.body.slice(0, 500),
-              bodyLength: result.body.length,
-              headers: result.headers,
-            },
-            success: result.success,
+          const { result, attempts, throttledAttempts } =
+            await extractWithRetries(config, runIdToUse, job, requestOptions);
+          concurrencyController?.record({
+            latencyMs: result.latencyMs,
+            attempts,
+            throttledAttempts,
+            concurrencyLimit,
           });
 
           const isHttpSuccess = result.success;
@@ -681,15 +1141,16 @@ export async function runExtraction(
 
           const finalSuccess = isAppSuccess;
           const status = finalSuccess ? "done" : "error";
-          if (result.body) {
-            writeExtractionResult(
-              config,
-              runIdToUse,
-              job,
-              result.body,
-              result.latencyMs,
-            );
-          }
+          const resultPath = result.body
+            ? writeExtractionResult(
+                config,
+                runIdToUse,
+                job,
+                result.body,
+                result.latencyMs,
+              )
+            : null;
+          const accuracy = scoreResponse(config, job, result);
           const baseErrorSnippet = finalSuccess
             ? undefined
             : result.body.slice(0, 500);
@@ -710,11 +1171,19 @@ export async function runExtraction(
             startedAt: started,
             finishedAt: new Date().toISOString(),
             latencyMs: result.latencyMs,
+            timing: result.timing,
             statusCode: result.statusCode,
             errorMessage,
             patternKey,
             runId: runIdToUse,
+            requestedPatternKey: requestOptions.patternKey,
+            requestMetadata: requestOptions.requestMetadata,
+            loadStageIndex: loadStage?.index,
+            loadStage: loadStage?.name,
+            concurrencyLimit,
+            accuracy,
           });
+          if (resultPath) queueResultUpload(runIdToUse, job, resultPath);
 
           if (status === "error") {
             failures.push({
@@ -727,6 +1196,25 @@ export async function runExtraction(
             });
           }
         } catch (err) {
+          if (err instanceof RunInterruptedError) {
+            upsertCheckpoint(db, {
+              filePath: job.filePath,
+              relativePath: job.relativePath,
+              brand: job.brand,
+              purchaser: job.purchaser,
+              status: "interrupted",
+              startedAt: started,
+              finishedAt: new Date().toISOString(),
+              errorMessage: err.message,
+              runId: runIdToUse,
+              requestedPatternKey: requestOptions.patternKey,
+              requestMetadata: requestOptions.requestMetadata,
+              loadStageIndex: loadStage?.index,
+              loadStage: loadStage?.name,
+              concurrencyLimit,
+            });
+            return;
+          }
           if (err instanceof NetworkAbortError) {
             aborted = true;
             queue.clear(); // remove pending jobs
@@ -750,6 +1238,11 @@ export async function runExtraction(
               errorMessage:
                 typeof err.message === "string" ? err.message : "Network Abort",
               runId: runIdToUse,
+              requestedPatternKey: requestOptions.patternKey,
+              requestMetadata: requestOptions.requestMetadata,
+              loadStageIndex: loadStage?.index,
+              loadStage: loadStage?.name,
+              concurrencyLimit,
             });
             return;
           }
@@ -757,6 +1250,12 @@ export async function runExtraction(
         }
       })
       .finally(() => {
+        if (loadStage) loadProfileGate?.release();
+        if (!dispatched) {
+          notStarted++;
+          updateProgress();
+          return;
+        }
         done++;
         updateProgress();
         try {
@@ -767,16 +1266,26 @@ export async function runExtraction(
 
   if (isTTY && total > 0) updateProgress();
   await queue.onIdle();
+  loadProfileGate?.close();
+  stopDraining();
 
   if (isTTY && total > 0) {
     process.stdout.write("\r" + " ".repeat(60) + "\r");
   }
   const finishedAt = new Date();
+  await finishRunResults(config, db, runIdToUse);
   const records = getRecordsForRun(db, runIdToUse);
   const metrics = computeMetrics(runIdToUse, records, startedAt, finishedAt);
+  const baseline = evaluateRunBaseline(
+    config,
+    db,
+    runIdToUse,
+    records,
+    metrics,
+  );
 
-  // Send consolidated failure email if any failures occurred
-  if (failures.length > 0) {
+  // Send consolidated email if any failures or baseline regressions occurred
+  if (failures.length > 0 || (baseline?.regressions ?? 0) > 0) {
     void sendConsolidatedFailureEmail(runIdToUse, failures, metrics);
   }
 
@@ -792,7 +1301,10 @@ export async function runExtraction(
     );
   }
 
+  closeCircuitBreaker();
+  await closeExtractDispatcher();
   closeRequestResponseLogger();
+  stopHeartbeat();
   closeCheckpointDb(db);
-  return { runId: runIdToUse, records, startedAt, finishedAt };
+  return { runId: runIdToUse, records, startedAt, finishedAt, baseline };
 }
@@ -0,0 +1,235 @@
+/**
+ * Load profiles: drive the extract request rate through declarative stages (ramp, step, hold, spike, soak)
+ * while a run executes. Each request is tagged with the stage it was dispatched in so reports can show
+ * throughput and latency per stage.
+ */
+
+import type { LoadProfileConfig, LoadProfileStage } from "./types.js";
+
+const DEFAULT_STEPS = 5;
+/** Upper bound between scheduler wake-ups so stage boundaries are noticed promptly. */
+const MAX_TICK_MS = 100;
+
+/** Stage a request was dispatched in. */
+export interface ActiveLoadStage {
+  /** 0-based index into loadProfile.stages. */
+  index: number;
+  name: string;
+  /** Target requests per second at dispatch time. */
+  rps: number;
+  /** Max in-flight requests for this stage. */
+  concurrency: number;
+}
+
+export interface LoadProfileGate {
+  /**
+   * Wait for a dispatch slot under the current stage's rate and concurrency.
+   * Resolves to null once the profile has finished (the file should not be started).
+   */
+  acquire(): Promise<ActiveLoadStage | null>;
+  /** Free the in-flight slot taken by acquire(). */
+  release(): void;
+  /** Stop timers and resolve pending acquire() calls with null. */
+  close(): void;
+}
+
+/** Default stage label, e.g. "ramp 1→20 rps". */
+function stageLabel(stage: LoadProfileStage, startRps: number): string {
+  if (stage.name) return stage.name;
+  if (stage.type === "ramp" || stage.type === "step") {
+    return `${stage.type} ${startRps}→${stage.targetRps} rps`;
+  }
+  return `${stage.type} ${stage.targetRps} rps`;
+}
+
+/** Validate run.loadProfile; returns human-readable problems (empty when valid). */
+export function validateLoadProfile(profile: unknown): string[] {
+  const problems: string[] = [];
+  const p = profile as LoadProfileConfig | null;
+  if (typeof p !== "object" || p === null || !Array.isArray(p.stages)) {
+    return ["run.loadProfile.stages (array)"];
+  }
+  if (p.stages.length === 0)
+    problems.push("run.loadProfile.stages (at least one stage)");
+  p.stages.forEach((s, i) => {
+    const at = `run.loadProfile.stages[${i}]`;
+    if (!["ramp", "step", "hold", "spike", "soak"].includes(s?.type)) {
+      problems.push(`${at}.type (ramp | step | hold | spike | soak)`);
+    }
+    if (typeof s?.durationSeconds !== "number" || !(s.durationSeconds > 0)) {
+      problems.push(`${at}.durationSeconds (> 0)`);
+    }
+    if (typeof s?.targetRps !== "number" || !(s.targetRps >= 0)) {
+      problems.push(`${at}.targetRps (>= 0)`);
+    }
+    if (
+      s?.startRps !== undefined &&
+      !(typeof s.startRps === "number" && s.startRps >= 0)
+    ) {
+      problems.push(`${at}.startRps (>= 0 when set)`);
+    }
+    if (
+      s?.steps !== undefined &&
+      !(Number.isInteger(s.steps) && s.steps >= 1)
+    ) {
+      problems.push(`${at}.steps (integer >= 1 when set)`);
+    }
+    if (
+      s?.concurrency !== undefined &&
+      !(Number.isInteger(s.concurrency) && s.concurrency >= 1)
+    ) {
+      problems.push(`${at}.concurrency (integer >= 1 when set)`);
+    }
+  });
+  return problems;
+}
+
+/** Highest in-flight limit any stage can ask for (queues must allow at least this many workers). */
+export function maxLoadProfileConcurrency(
+  profile: LoadProfileConfig,
+  defaultConcurrency: number,
+): number {
+  return Math.max(
+    defaultConcurrency,
+    ...profile.stages.map((s) => s.concurrency ?? defaultConcurrency),
+  );
+}
+
+interface ResolvedStage {
+  stage: LoadProfileStage;
+  name: string;
+  startRps: number;
+  startMs: number;
+  endMs: number;
+}
+
+function resolveStages(profile: LoadProfileConfig): ResolvedStage[] {
+  const out: ResolvedStage[] = [];
+  let offsetMs = 0;
+  let prevRps = 0;
+  for (const stage of profile.stages) {
+    // ramp/step continue from where the previous stage ended unless startRps is set.
+    const startRps =
+      stage.type === "ramp" || stage.type === "step"
+        ? (stage.startRps ?? prevRps)
+        : stage.targetRps;
+    const durationMs = stage.durationSeconds * 1000;
+    out.push({
+      stage,
+      name: stageLabel(stage, startRps),
+      startRps,
+      startMs: offsetMs,
+      endMs: offsetMs + durationMs,
+    });
+    offsetMs += durationMs;
+    prevRps = stage.targetRps;
+  }
+  return out;
+}
+
+/** Target rate within a stage at `elapsedMs` since the stage started. */
+function rateAt(s: ResolvedStage, elapsedMs: number): number {
+  const { stage, startRps } = s;
+  const fraction = Math.min(1, Math.max(0, elapsedMs / (s.endMs - s.startMs)));
+  if (stage.type === "ramp") {
+    return startRps + (stage.targetRps - startRps) * fraction;
+  }
+  if (stage.type === "step") {
+    const steps = stage.steps ?? DEFAULT_STEPS;
+    const step = Math.min(steps, Math.floor(fraction * steps) + 1);
+    return startRps + ((stage.targetRps - startRps) * step) / steps;
+  }
+  return stage.targetRps;
+}
+
+/**
+ * Create a gate that paces requests through the profile's stages. The clock starts at creation.
+ * Rate is enforced with a token bucket. While requests wait on the rate, every token due since the last
+ * wake-up is released, so a late timer does not cost capacity; idle time only builds a burst of one
+ * tick's worth of tokens (at least 1). A stage with targetRps 0 pauses dispatch. onStageChange is called
+ * when the first request of a stage is dispatched and with null when the profile finishes.
+ */
+export function createLoadProfileGate(
+  profile: LoadProfileConfig,
+  defaultConcurrency: number,
+  onStageChange?: (stage: ActiveLoadStage | null, total: number) => void,
+): LoadProfileGate {
+  const stages = resolveStages(profile);
+  const startedAt = Date.now();
+  const waiters: ((stage: ActiveLoadStage | null) => void)[] = [];
+  let inFlight = 0;
+  let tokens = 0;
+  let lastRefill = startedAt;
+  /** Requests were left waiting for a token (not for a concurrency slot) at the last wake-up. */
+  let rateBound = false;
+  let currentIndex = -1;
+  let finished = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  function finish(notify = true): void {
+    if (!finished) {
+      finished = true;
+      if (notify) onStageChange?.(null, stages.length);
+    }
+    if (timer) clearTimeout(timer);
+    timer = null;
+    while (waiters.length > 0) waiters.shift()!(null);
+  }
+
+  function pump(): void {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (finished) return finish();
+
+    const now = Date.now();
+    const elapsed = now - startedAt;
+    const index = stages.findIndex((s) => elapsed < s.endMs);
+    if (index === -1) return finish();
+
+    const s = stages[index];
+    const rps = rateAt(s, elapsed - s.startMs);
+    const concurrency = s.stage.concurrency ?? defaultConcurrency;
+    const due = (rps * (now - lastRefill)) / 1000;
+    const burst = Math.max(1, Math.ceil((rps * MAX_TICK_MS) / 1000));
+    tokens = rateBound ? tokens + due : Math.min(burst, tokens + due);
+    lastRefill = now;
+
+    while (waiters.length > 0 && tokens >= 1 && inFlight < concurrency) {
+      tokens -= 1;
+      inFlight++;
+      if (index !== currentIndex) {
+        currentIndex = index;
+        onStageChange?.(
+          { index, name: s.name, rps, concurrency },
+          stages.length,
+        );
+      }
+      waiters.shift()!({ index, name: s.name, rps, concurrency });
+    }
+
+    rateBound = waiters.length > 0 && inFlight < concurrency;
+    if (waiters.length === 0) return;
+    // Sleep until the next token (or the stage boundary), capped so ramps are re-evaluated often.
+    const untilToken = rps > 0 ? ((1 - tokens) * 1000) / rps : MAX_TICK_MS;
+    const untilStageEnd = s.endMs - elapsed;
+    const wait = Math.max(1, Math.min(MAX_TICK_MS, untilToken, untilStageEnd));
+    timer = setTimeout(pump, wait);
+  }
+
+  return {
+    acquire() {
+      if (finished) return Promise.resolve(null);
+      return new Promise((resolve) => {
+        waiters.push(resolve);
+        pump();
+      });
+    },
+    release() {
+      inFlight = Math.max(0, inFlight - 1);
+      if (waiters.length > 0) pump();
+    },
+    close() {
+      finish(false);
+    },
+  };
+}
@@ -3,6 +3,7 @@ import { readFileSync, existsSync, writeFileSync, mkdirSync } from "node:fs";
 import { join, dirname } from "node:path";
 import dotenv from "dotenv";
 import type { Config, RunMetrics } from "./types.js";
+import { formatBaselineMetric } from "./baseline.js";
 
 dotenv.config();
 
@@ -46,6 +47,7 @@ export function saveEmailConfig(config: EmailConfig) {
 
 /**
  * Send a consolidated failure notification email for a batch.
+ * Also sent without failures when the run regressed against its baseline (metrics.baseline).
  */
 export async function sendConsolidatedFailureEmail(
   runId: string,
@@ -59,7 +61,10 @@ export async function sendConsolidatedFailureEmail(
   }>,
   metrics?: RunMetrics,
 ) {
-  if (failures.length === 0) return;
+  const baselineRegressions = (metrics?.baseline?.metrics ?? []).filter(
+    (m) => m.regressed,
+  );
+  if (failures.length === 0 && baselineRegressions.length === 0) return;
 
   const config = getEmailConfig();
   const senderEmail = process.env.MAILER_EMAIL || config.senderEmail;
@@ -78,7 +83,10 @@ export async function sendConsolidatedFailureEmail(
 
   const displayRunId =
     runId.startsWith("RUN") || runId.startsWith("SKIP") ? `#${runId}` : runId;
-  const subject = `[intelliExtract] Extraction Failed-${displayRunId}`;
+  const subject =
+    failures.length > 0
+      ? `[intelliExtract] Extraction Failed-${displayRunId}`
+      : `[intelliExtract] Performance Regression-${displayRunId}`;
 
   // Map failures to the template format
   const report = {
@@ -113,8 +121,38 @@ export async function sendConsolidatedFailureEmail(
     }
   };
 
-  const overallStatus = "Failed";
-  const overallStatusColor = "#d93025";
+  const overallStatus = failures.length > 0 ? "Failed" : "Regressed";
+  const overallStatusColor = failures.length > 0 ? "#d93025" : "#e37400";
+
+  const baselineRows = baselineRegressions
+    .map(
+      (m) => `
+              <tr style="border-bottom:#e4e4e7 1px solid;">
+                <td style="padding:12px 8px; font-size: 13px; color: #334155;">${formatBaselineMetric(m)}</td>
+              </tr>`,
+    )
+    .join("");
+  const baselineSection =
+    baselineRegressions.length > 0 && metrics?.baseline
+      ? `
+                <!-- Baseline Regressions -->
+                <tr>
+                  <td style="padding:0 30px 20px 30px;">
+                    <h3 style="margin:0 0 15px 0;color:#333;font-size:18px;">
+                      Baseline Regressions
+                    </h3>
+                    <p style="margin:0 0 10px 0;font-size:13px;color:#64748b;">
+                      Compared with ${metrics.baseline.mode === "pinned" ? "pinned run" : "runs"} ${metrics.baseline.runIds.join(", ")}
+                    </p>
+                    <table width="100%" cellpadding="0" cellspacing="0"
+                      style="width:100%;border-collapse:collapse;font-size:13px;
+                             border-radius:5px;overflow:hidden;border:1px solid #e4e4e7;">
+                      <tbody>${baselineRows}</tbody>
+                    </table>
+                  </td>
+                </tr>
+`
+      : "";
 
   const playwrightRows = report.tests
     .map(
@@ -176,8 +214,12 @@ export async function sendConsolidatedFailureEmail(
                   </td>
                 </tr>
 
+${baselineSection}
                 <!-- Failure Details -->
-                <tr>
+                ${
+                  failures.length === 0
+                    ? ""
+                    : `<tr>
                   <td style="padding:0 30px 20px 30px;">
                     <h3 style="margin:0 0 15px 0;color:#333;font-size:18px;">
                       Failed Extractions
@@ -195,7 +237,8 @@ export async function sendConsolidatedFailureEmail(
                       <tbody>${playwrightRows}</tbody>
                     </table>
                   </td>
-                </tr>
+                </tr>`
+                }
 
                 <!-- Footer -->
                 <tr>
@@ -1,17 +1,25 @@
 /**
  * Compute run metrics: throughput, latency percentiles, error rate, anomalies,
- * failure breakdown by error type, top 5 slowest files, failures by brand.
+ * failure breakdown by error type, top 5 slowest files, failures by brand, per load profile stage,
+ * adaptive concurrency timeline, golden-dataset accuracy, and the per-interval time series of the reports.
  */
 
 import { quantile } from "simple-statistics";
 import type {
+  AccuracyGroup,
   CheckpointRecord,
   RunMetrics,
+  RunTimeSeries,
+  TimeSeriesBucket,
   Anomaly,
   FailureBreakdown,
 } from "./types.js";
 
 const TOP_SLOWEST_N = 5;
+const LOWEST_SCORING_N = 10;
+const DEFAULT_TIME_SERIES_INTERVAL_SECONDS = 10;
+/** Longer runs get a wider interval (doubled until the run fits) to keep reports and charts small. */
+const MAX_TIME_SERIES_BUCKETS = 720;
 
 function inferErrorType(record: CheckpointRecord): keyof FailureBreakdown {
   const code = record.statusCode ?? 0;
@@ -73,6 +81,313 @@ function computeFailureCountByBrand(
     .sort((a, b) => b.count - a.count);
 }
 
+/** Count (requested, detected) pattern key pairs for files sent with a pattern_key. */
+function computePatternKeyComparison(
+  processed: CheckpointRecord[],
+): RunMetrics["patternKeyComparison"] {
+  const byPair = new Map<
+    string,
+    { requested: string; detected: string; count: number }
+  >();
+  for (const r of processed) {
+    if (!r.requestedPatternKey) continue;
+    const detected = r.patternKey ?? "";
+    const key = `${r.requestedPatternKey}\0${detected}`;
+    const cur = byPair.get(key);
+    if (cur) cur.count++;
+    else
+      byPair.set(key, {
+        requested: r.requestedPatternKey,
+        detected,
+        count: 1,
+      });
+  }
+  if (byPair.size === 0) return undefined;
+  return Array.from(byPair.values())
+    .map((p) => ({
+      requestedPatternKey: p.requested,
+      detectedPatternKey: p.detected,
+      count: p.count,
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/** Throughput, error rate and latency per load profile stage (requests tagged via run.loadProfile). */
+function computeLoadStages(
+  processed: CheckpointRecord[],
+): RunMetrics["loadStages"] {
+  const byStage = new Map<number, CheckpointRecord[]>();
+  for (const r of processed) {
+    if (r.loadStageIndex == null) continue;
+    const list = byStage.get(r.loadStageIndex) ?? [];
+    list.push(r);
+    byStage.set(r.loadStageIndex, list);
+  }
+  if (byStage.size === 0) return undefined;
+  return Array.from(byStage.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([index, list]) => {
+      const latencies = list
+        .map((r) => r.latencyMs)
+        .filter((n): n is number => typeof n === "number" && n >= 0);
+      const starts = list
+        .map((r) => (r.startedAt ? Date.parse(r.startedAt) : NaN))
+        .filter((t) => !Number.isNaN(t));
+      const ends = list
+        .map((r) => (r.finishedAt ? Date.parse(r.finishedAt) : NaN))
+        .filter((t) => !Number.isNaN(t));
+      const spanSeconds =
+        starts.length > 0 && ends.length > 0
+          ? (Math.max(...ends) - Math.min(...starts)) / 1000
+          : 0;
+      const failed = list.filter((r) => r.status === "error").length;
+      return {
+        index,
+        name: list[0].loadStage ?? `stage ${index + 1}`,
+        requests: list.length,
+        success: list.length - failed,
+        failed,
+        errorRate: list.length > 0 ? failed / list.length : 0,
+        throughputPerSecond: spanSeconds > 0 ? list.length / spanSeconds : 0,
+        p50LatencyMs: latencies.length ? quantile(latencies, 0.5) : 0,
+        p95LatencyMs: latencies.length ? quantile(latencies, 0.95) : 0,
+      };
+    });
+}
+
+/** Start/finish (epoch ms) of processed requests with both timestamps. */
+function requestSpans(
+  records: CheckpointRecord[],
+): { start: number; end: number; record: CheckpointRecord }[] {
+  const spans: { start: number; end: number; record: CheckpointRecord }[] = [];
+  for (const r of records) {
+    if (r.status !== "done" && r.status !== "error") continue;
+    const start = Date.parse(r.startedAt ?? "");
+    const end = Date.parse(r.finishedAt ?? "");
+    if (Number.isNaN(start) || Number.isNaN(end)) continue;
+    spans.push({ start, end: Math.max(start, end), record: r });
+  }
+  return spans;
+}
+
+/**
+ * Processed files per second of wall-clock time. Each run counts from its first request start to its last
+ * finish, so the gap between a stopped run and its resume is not counted.
+ */
+function computeWallClockThroughput(records: CheckpointRecord[]): number {
+  const byRun = new Map<string, { start: number; end: number }>();
+  const spans = requestSpans(records);
+  for (const s of spans) {
+    const run = byRun.get(s.record.runId);
+    if (!run) byRun.set(s.record.runId, { start: s.start, end: s.end });
+    else {
+      run.start = Math.min(run.start, s.start);
+      run.end = Math.max(run.end, s.end);
+    }
+  }
+  let seconds = 0;
+  for (const run of byRun.values()) seconds += (run.end - run.start) / 1000;
+  return seconds > 0 ? spans.length / seconds : 0;
+}
+
+/** Indexes of the intervals (from `origin`) that at least one request overlaps, ascending. */
+function activeIntervals(
+  spans: { start: number; end: number }[],
+  origin: number,
+  intervalMs: number,
+): number[] {
+  const ranges = spans
+    .map((s) => [
+      Math.floor((s.start - origin) / intervalMs),
+      Math.floor((s.end - origin) / intervalMs),
+    ])
+    .sort((a, b) => a[0] - b[0]);
+  const active: number[] = [];
+  let next = -Infinity;
+  for (const [from, to] of ranges) {
+    for (
+      let i = Math.max(from, next);
+      i <= to && active.length <= MAX_TIME_SERIES_BUCKETS;
+      i++
+    )
+      active.push(i);
+    next = Math.max(next, to + 1);
+  }
+  return active;
+}
+
+/**
+ * Per-interval time series of a run (or a report's cluster of runs) from the startedAt/finishedAt of its
+ * processed requests: requests completed and failed, throughput, peak in-flight requests and p50/p95
+ * latency of the requests finishing in each interval. Intervals are aligned to multiples of the interval
+ * length; idle ones are left out. Returns undefined when no request has both timestamps.
+ */
+export function computeTimeSeries(
+  records: CheckpointRecord[],
+  intervalSeconds = DEFAULT_TIME_SERIES_INTERVAL_SECONDS,
+): RunTimeSeries | undefined {
+  const spans = requestSpans(records);
+  if (spans.length === 0) return undefined;
+  let firstStart = Infinity;
+  for (const s of spans) firstStart = Math.min(firstStart, s.start);
+
+  let intervalMs = Math.max(1, Math.round(intervalSeconds * 1000));
+  let origin = Math.floor(firstStart / intervalMs) * intervalMs;
+  let active = activeIntervals(spans, origin, intervalMs);
+  while (active.length > MAX_TIME_SERIES_BUCKETS) {
+    intervalMs *= 2;
+    origin = Math.floor(firstStart / intervalMs) * intervalMs;
+    active = activeIntervals(spans, origin, intervalMs);
+  }
+
+  const finished = new Map<number, CheckpointRecord[]>();
+  for (const s of spans) {
+    const index = Math.floor((s.end - origin) / intervalMs);
+    const list = finished.get(index) ?? [];
+    list.push(s.record);
+    finished.set(index, list);
+  }
+  // Finishes sort before starts at the same instant, so back-to-back requests do not overlap.
+  const events = spans
+    .flatMap((s) => [
+      { at: s.start, delta: 1 },
+      { at: s.end, delta: -1 },
+    ])
+    .sort((a, b) => a.at - b.at || a.delta - b.delta);
+
+  const buckets: TimeSeriesBucket[] = [];
+  let e = 0;
+  let inFlight = 0;
+  for (const index of active) {
+    const from = origin + index * intervalMs;
+    const to = from + intervalMs;
+    while (e < events.length && events[e].at < from)
+      inFlight += events[e++].delta;
+    let peak = inFlight;
+    while (e < events.length && events[e].at < to) {
+      inFlight += events[e++].delta;
+      peak = Math.max(peak, inFlight);
+    }
+    const done = finished.get(index) ?? [];
+    const latencies = done
+      .map((r) => r.latencyMs)
+      .filter((n): n is number => typeof n === "number" && n >= 0);
+    buckets.push({
+      start: new Date(from).toISOString(),
+      completed: done.length,
+      errors: done.filter((r) => r.status === "error").length,
+      throughputPerSecond: done.length / (intervalMs / 1000),
+      inFlight: peak,
+      p50LatencyMs: latencies.length ? quantile(latencies, 0.5) : 0,
+      p95LatencyMs: latencies.length ? quantile(latencies, 0.95) : 0,
+    });
+  }
+  return { intervalSeconds: intervalMs / 1000, buckets };
+}
+
+/** Concurrency limit timeline from the limit recorded on each request (adaptive concurrency). */
+function computeAdaptiveConcurrency(
+  processed: CheckpointRecord[],
+): RunMetrics["adaptiveConcurrency"] {
+  const tagged = processed
+    .filter((r) => r.concurrencyLimit != null && r.startedAt)
+    .sort((a, b) => a.startedAt!.localeCompare(b.startedAt!));
+  if (tagged.length === 0) return undefined;
+  const timeline: { at: string; concurrency: number }[] = [];
+  for (const r of tagged) {
+    if (timeline[timeline.length - 1]?.concurrency !== r.concurrencyLimit) {
+      timeline.push({ at: r.startedAt!, concurrency: r.concurrencyLimit! });
+    }
+  }
+  const limits = timeline.map((t) => t.concurrency);
+  return {
+    minConcurrency: Math.min(...limits),
+    maxConcurrency: Math.max(...limits),
+    finalConcurrency: limits[limits.length - 1],
+    timeline,
+  };
+}
+
+/** Micro-averaged accuracy of scored records: field counts are summed, then divided. */
+function accuracyGroup(key: string, scored: CheckpointRecord[]): AccuracyGroup {
+  let expectedFields = 0;
+  let predictedFields = 0;
+  let matchedFields = 0;
+  let exactFields = 0;
+  for (const r of scored) {
+    expectedFields += r.accuracy!.expectedFields;
+    predictedFields += r.accuracy!.predictedFields;
+    matchedFields += r.accuracy!.matchedFields;
+    exactFields += r.accuracy!.exactFields;
+  }
+  const precision =
+    predictedFields > 0
+      ? matchedFields / predictedFields
+      : expectedFields > 0
+        ? 0
+        : 1;
+  const recall = expectedFields > 0 ? matchedFields / expectedFields : 1;
+  return {
+    key,
+    files: scored.length,
+    expectedFields,
+    predictedFields,
+    matchedFields,
+    exactFields,
+    precision,
+    recall,
+    f1:
+      precision + recall > 0
+        ? (2 * precision * recall) / (precision + recall)
+        : 0,
+    exactMatchRate: expectedFields > 0 ? exactFields / expectedFields : 1,
+  };
+}
+
+function accuracyGroupsBy(
+  scored: CheckpointRecord[],
+  keyOf: (r: CheckpointRecord) => string,
+): AccuracyGroup[] {
+  const byKey = new Map<string, CheckpointRecord[]>();
+  for (const r of scored) {
+    const key = keyOf(r);
+    const list = byKey.get(key) ?? [];
+    list.push(r);
+    byKey.set(key, list);
+  }
+  return Array.from(byKey.entries())
+    .map(([key, list]) => accuracyGroup(key, list))
+    .sort((a, b) => a.f1 - b.f1 || a.key.localeCompare(b.key));
+}
+
+/** Golden-dataset accuracy overall and per pattern key, brand and purchaser (files scored by accuracy.ts). */
+function computeAccuracy(
+  processed: CheckpointRecord[],
+): RunMetrics["accuracy"] {
+  const scored = processed.filter((r) => r.accuracy);
+  if (scored.length === 0) return undefined;
+  return {
+    overall: accuracyGroup("all", scored),
+    byPatternKey: accuracyGroupsBy(
+      scored,
+      (r) => r.patternKey || r.requestedPatternKey || "(none)",
+    ),
+    byBrand: accuracyGroupsBy(scored, (r) => r.brand),
+    byPurchaser: accuracyGroupsBy(scored, (r) => r.purchaser || "(none)"),
+    lowestScoring: [...scored]
+      .sort((a, b) => a.accuracy!.f1 - b.accuracy!.f1)
+      .slice(0, LOWEST_SCORING_N)
+      .map((r) => ({
+        filePath: r.filePath,
+        relativePath: r.relativePath,
+        brand: r.brand,
+        purchaser: r.purchaser,
+        patternKey: r.patternKey,
+        accuracy: r.accuracy!,
+      })),
+  };
+}
+
 export function computeMetrics(
   runId: string,
   records: CheckpointRecord[],
@@ -82,6 +397,8 @@ export function computeMetrics(
   const allDone = records.filter((r) => r.status === "done");
   const failed = records.filter((r) => r.status === "error");
   const skippedRecords = records.filter((r) => r.status === "skipped");
+  const interrupted = records.filter((r) => r.status === "interrupted").length;
+  const filteredRecords = records.filter((r) => r.status === "filtered");
 
   const success = allDone.length;
   const skipped = skippedRecords.length;
@@ -136,20 +453,43 @@ export function computeMetrics(
           };
         })
       : undefined;
+  const patternKeyComparison = computePatternKeyComparison([
+    ...allDone,
+    ...failed,
+  ]);
+
+  const loadStages = computeLoadStages([...allDone, ...failed]);
+  const adaptiveConcurrency = computeAdaptiveConcurrency([
+    ...allDone,
+    ...failed,
+  ]);
+  const accuracy = computeAccuracy([...allDone, ...failed]);
 
   return {
     runId,
     startedAt: startedAt.toISOString(),
     finishedAt: finishedAt.toISOString(),
-    totalFiles: records.length,
+    totalFiles: records.length - filteredRecords.length,
     success,
     failed: failed.length,
     skipped,
+    interrupted,
+    filtered: filteredRecords.length,
+    filteredFiles:
+      filteredRecords.length > 0
+        ? filteredRecords.map((r) => ({
+            relativePath: r.relativePath,
+            brand: r.brand,
+            purchaser: r.purchaser,
+            reason: r.errorMessage ?? "",
+          }))
+        : undefined,
     totalLatencyMs,
     totalProcessingTimeMs,
     latenciesMs: latencies,
     throughputPerSecond,
     throughputPerMinute,
+    wallClockThroughputPerSecond: computeWallClockThroughput(records),
     avgLatencyMs,
     p50LatencyMs,
     p95LatencyMs,
@@ -160,6 +500,10 @@ export function computeMetrics(
     topSlowestFiles,
     failureCountByBrand,
     failureDetails,
+    patternKeyComparison,
+    loadStages,
+    adaptiveConcurrency,
+    accuracy,
   };
 }
 
@@ -1,5 +1,5 @@
 /**
- * Executive summary report: HTML and JSON.
+ * Executive summary report: Markdown, HTML and JSON.
  * Includes full API extraction response(s) per file when available.
  */
 
@@ -12,12 +12,15 @@ import {
   unlinkSync,
   statSync,
 } from "node:fs";
-import { join, dirname, basename, extname } from "node:path";
+import { join, dirname, basename, extname, relative } from "node:path";
 import type {
   Config,
   RunMetrics,
   ExecutiveSummary,
   CheckpointRecord,
+  AccuracyGroup,
+  RunDiff,
+  RunDiffEntry,
 } from "./types.js";
 import {
   openCheckpointDb,
@@ -25,13 +28,28 @@ import {
   getAllRunIdsOrdered,
   closeCheckpointDb,
 } from "./checkpoint.js";
-import { computeMetrics } from "./metrics.js";
+import { computeMetrics, computeTimeSeries } from "./metrics.js";
+import {
+  getExtractionsDir,
+  hasRunResults,
+  runResultsDir,
+  runResultsSubdir,
+} from "./result-store.js";
+import { formatDiffClass } from "./run-diff.js";
+import {
+  applyBaseline,
+  compareWithBaseline,
+  formatBaselineMetric,
+} from "./baseline.js";
+import { applySlo, formatSloCheck } from "./slo.js";
 
 export interface ExtractionResultEntry {
   filename: string;
   response: unknown;
   /** Derived from API response.success when available */
   extractionSuccess: boolean;
+  /** Path of the JSON relative to the extractions dir, e.g. runs/RUN3/succeeded/<filename>. */
+  path?: string;
 }
 
 export interface HistoricalRunSummary {
@@ -74,6 +92,7 @@ function extractionResultFilenameFromRecord(record: {
 function loadJsonEntries(
   dir: string,
   defaultExtractionSuccess: boolean,
+  relDir = "",
 ): ExtractionResultEntry[] {
   const entries: ExtractionResultEntry[] = [];
 
@@ -106,6 +125,7 @@ function loadJsonEntries(
         filename: e.name,
         response,
         extractionSuccess,
+        path: relDir ? `${relDir}/${e.name}` : e.name,
       });
     } catch {
       // skip unreadable
@@ -115,22 +135,37 @@ function loadJsonEntries(
   return entries;
 }
 
+/**
+ * Extraction results of a run: its own folder in the versioned store (see result-store.ts) when present,
+ * otherwise the latest view (runs from before the store, or whose folder was pruned).
+ */
 function loadExtractionResults(
   config: Config,
   runId: string,
 ): ExtractionResultEntry[] {
-  const baseDir = join(dirname(config.report.outputDir), "extractions");
+  const baseDir = getExtractionsDir(config);
   if (!existsSync(baseDir)) return [];
 
+  if (hasRunResults(config, runId)) {
+    const runDir = runResultsDir(config, runId);
+    const relDir = runResultsSubdir(runId);
+    return (["succeeded", "failed"] as const).flatMap((outcome) => {
+      const dir = join(runDir, outcome);
+      return existsSync(dir)
+        ? loadJsonEntries(dir, outcome === "succeeded", `${relDir}/${outcome}`)
+        : [];
+    });
+  }
+
   const succeededDir = join(baseDir, "succeeded");
   const failedDir = join(baseDir, "failed");
 
   const fromSucceeded = existsSync(succeededDir)
-    ? loadJsonEntries(succeededDir, true)
+    ? loadJsonEntries(succeededDir, true, "succeeded")
     : [];
 
   const fromFailed = existsSync(failedDir)
-    ? loadJsonEntries(failedDir, false)
+    ? loadJsonEntries(failedDir, false, "failed")
     : [];
 
   if (fromSucceeded.length > 0 || fromFailed.length > 0) {
@@ -141,6 +176,17 @@ function loadExtractionResults(
   return loadJsonEntries(baseDir, false);
 }
 
+/** Extraction JSON paths (relative to the extractions dir) loaded for a report section, by filename. */
+function resultPathsByFilename(
+  entry: HistoricalRunSummary,
+): Map<string, string> {
+  const paths = new Map<string, string>();
+  for (const e of entry.extractionResults) {
+    if (e.path) paths.set(e.filename, e.path);
+  }
+  return paths;
+}
+
 function filterExtractionResultsForRecords(
   records: CheckpointRecord[],
   allResults: ExtractionResultEntry[],
@@ -264,8 +310,12 @@ export function loadHistoricalRunSummaries(
     results: ExtractionResultEntry[];
   }> = [];
 
+  // Every run's rows, newest first, for baseline comparisons
+  const history: { runId: string; records: CheckpointRecord[] }[] = [];
+
   for (const runId of runIds) {
     const records = getRecordsForRun(db, runId);
+    history.push({ runId, records });
     if (records.length === 0) continue;
 
     const allResultsForRun = loadExtractionResults(config, runId);
@@ -367,8 +417,10 @@ export function loadHistoricalRunSummaries(
         done: 3,
         error: 2,
         skipped: 1,
+        filtered: 1,
         pending: 0,
         running: 0,
+        interrupted: 0,
       };
       const recordMap = new Map<string, any>();
       for (const r of allRecordsPooled) {
@@ -427,6 +479,23 @@ export function loadHistoricalRunSummaries(
         latestRun.start.getTime(),
       );
       metrics.startedAt = new Date(clusterLatestActivity).toISOString();
+      if (config.baseline) {
+        applyBaseline(
+          metrics,
+          compareWithBaseline(
+            config.baseline,
+            cluster.map((c) => c.runId),
+            dedupedRecords,
+            metrics,
+            history,
+          ),
+        );
+      }
+      applySlo(config, metrics, dedupedRecords);
+      metrics.timeSeries = computeTimeSeries(
+        dedupedRecords,
+        config.report.timeSeriesIntervalSeconds,
+      );
 
       const runDurationSeconds = cluster.reduce(
         (sum, c) => sum + (c.end.getTime() - c.start.getTime()) / 1000,
@@ -478,7 +547,7 @@ export function loadHistoricalRunSummaries(
   });
 }
 
-function formatDuration(ms: number): string {
+export function formatDuration(ms: number): string {
   const sec = Math.floor(ms / 1000);
   const min = Math.floor(sec / 60);
   const h = Math.floor(min / 60);
@@ -487,6 +556,9 @@ function formatDuration(ms: number): string {
   return `${sec}s`;
 }
 
+/** Filtered files listed per run in reports (the overview shows the full count). */
+const FILTERED_FILES_LIMIT = 50;
+
 const MONTH_NAMES = [
   "Jan",
   "Feb",
@@ -593,6 +665,7 @@ export function buildSummary(metrics: RunMetrics): ExecutiveSummary {
 
 function sectionForRun(entry: HistoricalRunSummary): string {
   const m = entry.metrics;
+  const resultPaths = resultPathsByFilename(entry);
   const wallClockMs =
     entry.runDurationSeconds !== undefined
       ? entry.runDurationSeconds * 1000
@@ -685,7 +758,12 @@ function sectionForRun(entry: HistoricalRunSummary): string {
                 ? escapeHtml(msg)
                 : '<span class="muted">(no response body)</span>';
             const sourcePath = `output/staging/${f.brand}/${f.relativePath}`;
-            const jsonPath = `output/extractions/failed/${extractionResultFilenameFromRecord({ relativePath: f.relativePath, brand: f.brand, purchaser: f.purchaser })}`;
+            const jsonName = extractionResultFilenameFromRecord({
+              relativePath: f.relativePath,
+              brand: f.brand,
+              purchaser: f.purchaser,
+            });
+            const jsonPath = `output/extractions/${resultPaths.get(jsonName) ?? `failed/${jsonName}`}`;
             return `<tr><td>${f.statusCode ?? "—"}</td><td class="file-path">${escapeHtml(f.filePath)}</td><td>${snippet}</td><td class="action-cell">
         <a href="javascript:void(0)" onclick="downloadFile('${sourcePath}', this)" class="action-btn" title="Download Source File">
           <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="16" y1="13" x2="8" y2="13"></line><line x1="16" y1="17" x2="8" y2="17"></line><polyline points="10 9 9 9 8 9"></polyline></svg>
@@ -717,7 +795,7 @@ function sectionForRun(entry: HistoricalRunSummary): string {
         brand: e.brand,
         purchaser: e.purchaser,
       });
-      const jsonPath = `output/extractions/succeeded/${jsonName}`;
+      const jsonPath = `output/extractions/${resultPaths.get(jsonName) ?? `succeeded/${jsonName}`}`;
       const sourcePath = `output/staging/${e.brand}/${e.relativePath}`;
 
       return `<tr><td class="file-path">${escapeHtml(e.filePath)}</td><td>${e.latencyMs.toFixed(0)}</td><td>${escapeHtml(e.patternKey ?? "—")}</td><td class="action-cell">
@@ -742,6 +820,20 @@ function sectionForRun(entry: HistoricalRunSummary): string {
 </div>`
       : "";
 
+  const filteredShown = (m.filteredFiles ?? []).slice(0, FILTERED_FILES_LIMIT);
+  const filteredSection =
+    filteredShown.length > 0
+      ? `
+<h3>Filtered files (include/exclude rules)</h3>
+<p>${m.filtered > filteredShown.length ? `First ${filteredShown.length} of ${m.filtered} files` : `${m.filtered} file(s)`} left out by s3.buckets[].filter or run.filter; they were not extracted.</p>
+ <div class="table-responsive">
+  <table>
+    <tr><th>File</th><th>Reason</th></tr>
+    ${filteredShown.map((f) => `<tr><td class="file-path">${escapeHtml(`${f.brand}/${f.relativePath}`)}</td><td>${escapeHtml(f.reason)}</td></tr>`).join("")}
+  </table>
+</div>`
+      : "";
+
   const failuresByBrandRows = m.failureCountByBrand
     .map(
       (e) =>
@@ -760,13 +852,175 @@ function sectionForRun(entry: HistoricalRunSummary): string {
   </div>`
       : "";
 
+  const patternComparison = m.patternKeyComparison ?? [];
+  const patternComparisonRows = patternComparison
+    .map((p) => {
+      const matched = p.requestedPatternKey === p.detectedPatternKey;
+      return `<tr><td>${escapeHtml(p.requestedPatternKey)}</td><td>${escapeHtml(p.detectedPatternKey || "—")}</td><td><span class="chip ${matched ? "success" : "fail"}">${matched ? "MATCH" : "MISMATCH"}</span></td><td>${p.count}</td></tr>`;
+    })
+    .join("");
+  const patternComparisonSection =
+    patternComparison.length > 0
+      ? `
+  <h3>Requested vs detected pattern</h3>
+  <div class="table-responsive">
+    <table>
+      <tr><th>Requested pattern key</th><th>Detected pattern key</th><th>Result</th><th>Files</th></tr>
+      ${patternComparisonRows}
+    </table>
+  </div>`
+      : "";
+
+  const accuracy = m.accuracy;
+  const accuracyGroupRows = (label: string, groups: AccuracyGroup[]) =>
+    groups
+      .map(
+        (g) =>
+          `<tr><td>${label}</td><td>${escapeHtml(g.key)}</td><td>${g.files}</td><td>${formatRate(g.precision)}</td><td>${formatRate(g.recall)}</td><td><span class="chip ${g.f1 >= 0.9 ? "success" : "fail"}">${formatRate(g.f1)}</span></td><td>${formatRate(g.exactMatchRate)}</td></tr>`,
+      )
+      .join("");
+  const lowestScoringRows = (accuracy?.lowestScoring ?? [])
+    .map((f) => {
+      const a = f.accuracy;
+      const rows = a.lineItems
+        ? `${a.lineItems.alignedRows}/${a.lineItems.expectedRows} (${a.lineItems.predictedRows} extracted)`
+        : "—";
+      const mismatches = (a.mismatches ?? [])
+        .slice(0, 3)
+        .map(
+          (x) =>
+            `<code>${escapeHtml(x.path)}</code>: ${escapeHtml(x.expected)} → ${escapeHtml(x.actual)}`,
+        )
+        .join("<br>");
+      return `<tr><td class="file-path">${escapeHtml(f.filePath)}</td><td>${escapeHtml(f.patternKey ?? "—")}</td><td>${formatRate(a.f1)}</td><td>${a.matchedFields}/${a.expectedFields}</td><td>${rows}</td><td>${mismatches || '<span class="muted">—</span>'}</td></tr>`;
+    })
+    .join("");
+  const accuracySection = accuracy
+    ? `
+  <h3>Extraction accuracy (golden dataset)</h3>
+  <p>${accuracy.overall.files} file(s) scored against ground truth: precision ${formatRate(accuracy.overall.precision)}, recall ${formatRate(accuracy.overall.recall)}, F1 ${formatRate(accuracy.overall.f1)}, exact match ${formatRate(accuracy.overall.exactMatchRate)} (${accuracy.overall.matchedFields}/${accuracy.overall.expectedFields} expected fields matched).</p>
+  <div class="table-responsive">
+    <table>
+      <tr><th>Group</th><th>Key</th><th>Files</th><th>Precision</th><th>Recall</th><th>F1</th><th>Exact match</th></tr>
+      ${accuracyGroupRows("Pattern key", accuracy.byPatternKey)}
+      ${accuracyGroupRows("Brand", accuracy.byBrand)}
+      ${accuracyGroupRows("Purchaser", accuracy.byPurchaser)}
+    </table>
+  </div>
+  <h3>Lowest-scoring files</h3>
+  <div class="table-responsive">
+    <table>
+      <tr><th>File</th><th>Pattern key</th><th>F1</th><th>Fields matched</th><th>Line item rows aligned</th><th>Mismatches</th></tr>
+      ${lowestScoringRows}
+    </table>
+  </div>`
+    : "";
+
+  const baseline = m.baseline;
+  const baselineRows = (baseline?.metrics ?? [])
+    .map(
+      (b) =>
+        `<tr><td>${escapeHtml(formatBaselineMetric(b))}</td><td><span class="chip ${b.regressed ? "fail" : "success"}">${b.regressed ? "REGRESSED" : "OK"}</span></td></tr>`,
+    )
+    .join("");
+  const baselineSection = baseline
+    ? `
+  <h3>Baseline comparison</h3>
+  <p>Against ${baseline.mode === "pinned" ? "pinned run" : `the last ${baseline.runIds.length} run(s) of this tenant/purchaser:`} ${escapeHtml(baseline.runIds.join(", "))} (${baseline.currentSamples} vs ${baseline.baselineSamples} latency samples, Mann-Whitney U ${baseline.mannWhitneyU.toFixed(0)}, significance level ${baseline.alpha}, flagged from ${formatRate(baseline.minRelativeChange)} worse).</p>
+  <div class="table-responsive">
+    <table>
+      <tr><th>Metric</th><th>Result</th></tr>
+      ${baselineRows}
+    </table>
+  </div>`
+    : "";
+
+  const timeSeries = m.timeSeries;
+  const timeSeriesSection = timeSeries
+    ? `
+  <h3>Throughput and latency over time</h3>
+  <p class="muted small">${timeSeries.intervalSeconds}s intervals (${timeSeries.buckets.length} with activity): requests completed and failed, peak requests in flight, and P50/P95 latency of the requests finishing in each interval.</p>
+  <div class="chart-scroll-wrapper">
+    <div class="chart-container" style="width: ${Math.max(100, timeSeries.buckets.length * 14)}px;">
+      <canvas class="timeseries-chart" data-series="${escapeHtml(JSON.stringify(timeSeries))}"></canvas>
+    </div>
+  </div>`
+    : "";
+
+  const slo = m.slo;
+  const sloRows = (slo?.checks ?? [])
+    .map(
+      (c) =>
+        `<tr><td>${escapeHtml(formatSloCheck(c))}</td><td><span class="chip ${c.passed ? "success" : "fail"}">${c.passed ? "PASS" : "FAIL"}</span></td></tr>`,
+    )
+    .join("");
+  const sloSection = slo
+    ? `
+  <h3>SLO verdict: <span class="chip ${slo.passed ? "success" : "fail"}">${slo.passed ? "PASS" : "FAIL"}</span></h3>
+  ${
+    slo.checks.length > 0
+      ? `<div class="table-responsive">
+    <table>
+      <tr><th>Objective</th><th>Result</th></tr>
+      ${sloRows}
+    </table>
+  </div>`
+      : "<p>No files were processed, so no objective was checked.</p>"
+  }`
+    : "";
+
+  const loadStages = m.loadStages ?? [];
+  const loadStageRows = loadStages
+    .map(
+      (st) =>
+        `<tr><td>${st.index + 1}</td><td>${escapeHtml(st.name)}</td><td>${st.requests}</td><td>${st.success}</td><td>${st.failed}</td><td><span class="chip ${st.errorRate > 0 ? "fail" : "success"}">${(st.errorRate * 100).toFixed(2)}%</span></td><td>${st.throughputPerSecond.toFixed(2)}</td><td>${st.p50LatencyMs.toFixed(0)}</td><td>${st.p95LatencyMs.toFixed(0)}</td></tr>`,
+    )
+    .join("");
+  const loadStagesSection =
+    loadStages.length > 0
+      ? `
+  <h3>Load profile stages</h3>
+  <div class="table-responsive">
+    <table>
+      <tr><th>#</th><th>Stage</th><th>Requests</th><th>Success</th><th>Failed</th><th>Error rate</th><th>Throughput (req/s)</th><th>P50 (ms)</th><th>P95 (ms)</th></tr>
+      ${loadStageRows}
+    </table>
+  </div>`
+      : "";
+
   // Lightweight "agent-style" summary: highlight top anomalies and hotspots.
   const agentSummaryPoints: string[] = [];
+  if (slo && !slo.passed) {
+    agentSummaryPoints.push(
+      `SLO failed (${slo.violations} of ${slo.checks.length} objective${slo.checks.length === 1 ? "" : "s"}): ${slo.checks
+        .filter((c) => !c.passed)
+        .map(formatSloCheck)
+        .join("; ")}.`,
+    );
+  }
   if (displayInfraFailed + displayApiFailed > 0) {
     agentSummaryPoints.push(
       `Error rate is ${(displayErrorRate * 100).toFixed(2)}% with ${displayInfraFailed + displayApiFailed} total failures (${displayApiFailed} from API).`,
     );
   }
+  if (accuracy) {
+    const worst = accuracy.byPatternKey[0];
+    agentSummaryPoints.push(
+      `Extraction accuracy is ${formatRate(accuracy.overall.f1)} F1 over ${accuracy.overall.files} scored file${accuracy.overall.files === 1 ? "" : "s"}${
+        accuracy.byPatternKey.length > 1
+          ? `; lowest pattern key is "${worst.key}" (${formatRate(worst.f1)})`
+          : ""
+      }.`,
+    );
+  }
+  if (baseline && baseline.regressions > 0) {
+    agentSummaryPoints.push(
+      `${baseline.regressions} metric${baseline.regressions === 1 ? "" : "s"} regressed against the baseline: ${baseline.metrics
+        .filter((b) => b.regressed)
+        .map(formatBaselineMetric)
+        .join("; ")}.`,
+    );
+  }
   if (m.failureCountByBrand.length > 0) {
     const topBrand = m.failureCountByBrand[0];
     agentSummaryPoints.push(
@@ -910,12 +1164,19 @@ function sectionForRun(entry: HistoricalRunSummary): string {
         statusDisplay = '<span class="status-icon error">❌</span> FAILED';
         jsonDir = "output/extractions/failed";
         showJson = jsonExists;
+      } else if (rec.status === "filtered") {
+        statusDisplay =
+          '<span class="status-icon secondary">⏭️</span> FILTERED';
+        showJson = false;
       } else {
         statusDisplay = `<span class="status-icon secondary">⏳</span> ${rec.status.toUpperCase()}`;
         showJson = false;
       }
 
-      const jsonPath = `${jsonDir}/${jsonName}`;
+      const storedPath = resultPaths.get(jsonName);
+      const jsonPath = storedPath
+        ? `output/extractions/${storedPath}`
+        : `${jsonDir}/${jsonName}`;
       const sourcePath = `output/staging/${rec.brand}/${rec.relativePath}`;
       showSource = existsSync(sourcePath);
 
@@ -1058,6 +1319,8 @@ function sectionForRun(entry: HistoricalRunSummary): string {
       <tr><td>Total extraction results available</td><td><span class="chip secondary">${displaySuccess + displayApiFailed}</span></td></tr>
       <tr><td>Files processed in this operation</td><td><span class="chip secondary">${processed}</span></td></tr>
       <tr><td>Files skipped (already handled)</td><td><span class="chip secondary">${m.skipped}</span></td></tr>
+      ${m.interrupted > 0 ? `<tr><td>Files interrupted (queued again on resume)</td><td><span class="chip secondary">${m.interrupted}</span></td></tr>` : ""}
+      ${m.filtered > 0 ? `<tr><td>Files filtered (include/exclude rules)</td><td><span class="chip secondary">${m.filtered}</span></td></tr>` : ""}
       <tr><td>Successful Response (Success: true)</td><td><span class="chip success">${displaySuccess}</span></td></tr>
       <tr><td>Successful Response (Success: false)</td><td><span class="chip secondary">${displayApiFailed}</span></td></tr>
       <tr><td>Failure (Infrastructure)</td><td><span class="chip fail">${displayInfraFailed}</span></td></tr>
@@ -1074,6 +1337,8 @@ function sectionForRun(entry: HistoricalRunSummary): string {
     <table>
       <tr><th>Attribute</th><th>Value</th></tr>
       <tr><td>Observed throughput</td><td>${throughputPerMinute.toFixed(1)} files/min, ${throughputPerSecond.toFixed(2)} files/sec</td></tr>
+      <tr><td>Request throughput (wall clock)</td><td>${(m.wallClockThroughputPerSecond * 60).toFixed(1)} files/min, ${m.wallClockThroughputPerSecond.toFixed(2)} files/sec <span class="muted small">(first request start to last finish)</span></td></tr>
+      <tr><td>Request throughput (summed latency)</td><td>${(m.throughputPerSecond * 60).toFixed(1)} files/min, ${m.throughputPerSecond.toFixed(2)} files/sec <span class="muted small">(one request at a time)</span></td></tr>
       <tr><td>API response time (P50 / P95 / P99)</td><td>${m.p50LatencyMs.toFixed(0)} ms / ${m.p95LatencyMs.toFixed(0)} ms / ${m.p99LatencyMs.toFixed(0)} ms</td></tr>
       <tr><td>Error rate at this load (Infra failures)</td><td>${(displayErrorRate * 100).toFixed(2)}%</td></tr>
       <tr><td>False Response Rate at this load</td><td>${(falseResponseRate * 100).toFixed(2)}%</td></tr>
@@ -1093,13 +1358,20 @@ function sectionForRun(entry: HistoricalRunSummary): string {
       <tr><td>P99</td><td><span class="chip">${m.p99LatencyMs.toFixed(2)}</span></td></tr>
     </table>
   </div>
+  ${timeSeriesSection}
+  ${sloSection}
   <h3>Automated summary</h3>
   <div class="agent-style-summary">
     ${agentSummaryHtml}
   </div>
+  ${loadStagesSection}
   ${failureBreakdownSection}
   ${failureDetailsSection}
   ${topSlowestSection}
+  ${filteredSection}
+  ${patternComparisonSection}
+  ${accuracySection}
+  ${baselineSection}
   ${failuresByBrandSection}
   <h3>Anomalies</h3>
   <div class="anomalies-container">
@@ -2719,6 +2991,7 @@ export function htmlReportFromHistory(
         Chart.defaults.color = "#5a5a5a";
       }
       initCharts(runData);
+      initTimeSeriesCharts();
       updateDashboardStats(runData);
       renderHistory();
       setupSmoothAccordion();
@@ -2945,6 +3218,40 @@ export function htmlReportFromHistory(
       });
     }
 
+    // Per-operation time series (canvas.timeseries-chart carries RunMetrics.timeSeries as data-series).
+    function initTimeSeriesCharts() {
+      if (typeof Chart === 'undefined') return;
+      document.querySelectorAll('canvas.timeseries-chart').forEach(canvas => {
+        let series;
+        try { series = JSON.parse(canvas.getAttribute('data-series') || ''); } catch (_) { return; }
+        const buckets = series.buckets || [];
+        const labels = buckets.map(b => new Date(b.start).toLocaleTimeString('en-US', {hour:'2-digit', minute:'2-digit', second:'2-digit'}));
+        new Chart(canvas, {
+          data: {
+            labels: labels,
+            datasets: [
+              { type: 'bar', label: 'Completed', data: buckets.map(b => b.completed - b.errors), backgroundColor: '#2d9d5f', stack: 'requests', yAxisID: 'y' },
+              { type: 'bar', label: 'Errors', data: buckets.map(b => b.errors), backgroundColor: '#ef4444', stack: 'requests', yAxisID: 'y' },
+              { type: 'line', label: 'In flight (peak)', data: buckets.map(b => b.inFlight), borderColor: '#8b5cf6', borderWidth: 2, pointRadius: 0, stepped: true, stack: 'inFlight', yAxisID: 'y' },
+              { type: 'line', label: 'P50 Latency (ms)', data: buckets.map(b => b.p50LatencyMs || null), borderColor: '#216c6d', borderWidth: 2, pointRadius: 2, spanGaps: true, yAxisID: 'latency' },
+              { type: 'line', label: 'P95 Latency (ms)', data: buckets.map(b => b.p95LatencyMs || null), borderColor: '#f59e0b', borderWidth: 2, pointRadius: 2, spanGaps: true, yAxisID: 'latency' }
+            ]
+          },
+          options: {
+            responsive: true,
+            maintainAspectRatio: false,
+            interaction: { mode: 'index', intersect: false },
+            scales: {
+              x: { stacked: true },
+              y: { stacked: true, beginAtZero: true, title: { display: true, text: 'Requests per ' + series.intervalSeconds + 's' } },
+              latency: { position: 'right', beginAtZero: true, grid: { drawOnChartArea: false }, title: { display: true, text: 'ms' } }
+            },
+            plugins: { legend: { position: 'bottom', labels: { usePointStyle: true, padding: 15, font: { weight: '600' } } } }
+          }
+        });
+      });
+    }
+
     function filterSectionLog(input) {
       const filter = input.value.toLowerCase();
       const container = input.closest('.run-section-body');
@@ -3011,6 +3318,11 @@ function htmlReport(
   return htmlReportFromHistory([single], summary.generatedAt);
 }
 
+/** 0..1 ratio as a percentage with one decimal. */
+function formatRate(ratio: number): string {
+  return `${(ratio * 100).toFixed(1)}%`;
+}
+
 function escapeHtml(s: string): string {
   return s
     .replaceAll("&", "&amp;")
@@ -3019,14 +3331,721 @@ function escapeHtml(s: string): string {
     .replaceAll('"', "&quot;");
 }
 
+/** Make a value safe for a single Markdown table cell (no pipes or line breaks). */
+function escapeMarkdownCell(s: string): string {
+  return s
+    .replaceAll("\\", "\\\\")
+    .replaceAll("|", "\\|")
+    .replace(/\r?\n/g, " ")
+    .trim();
+}
+
+/** Markdown link to a file path; spaces and parentheses are percent-encoded so the link target stays intact. */
+function markdownFileLink(label: string, path: string): string {
+  const target = path
+    .replaceAll("\\", "/")
+    .replaceAll(" ", "%20")
+    .replaceAll("(", "%28")
+    .replaceAll(")", "%29");
+  return `[${escapeMarkdownCell(label).replaceAll("[", "\\[").replaceAll("]", "\\]")}](${target})`;
+}
+
+function markdownTable(headers: string[], rows: string[][]): string {
+  const lines = [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((r) => `| ${r.join(" | ")} |`),
+  ];
+  return lines.join("\n");
+}
+
+/**
+ * One operation as Markdown: headline metrics, latency, failures, slowest files and per-file links.
+ * extractionsBase is the path (relative to the report file) of the extractions directory.
+ */
+function markdownSectionForRun(
+  entry: HistoricalRunSummary,
+  extractionsBase: string,
+): string {
+  const m = entry.metrics;
+  const resultPaths = resultPathsByFilename(entry);
+  const wallClockMs =
+    entry.runDurationSeconds !== undefined
+      ? entry.runDurationSeconds * 1000
+      : entry.end.getTime() - entry.start.getTime();
+  const runDuration = formatDuration(wallClockMs);
+  // Same partitioning as the HTML section: Success:false responses are API failures, status=error is infra.
+  const displaySuccess = entry.extractionResults.filter(
+    (e) => e.extractionSuccess,
+  ).length;
+  const displayInfraFailed = m.failed;
+  const displayApiFailed = Math.max(0, m.success - displaySuccess);
+  const processed = m.success + m.failed + m.skipped;
+  const throughputPerSecond =
+    entry.runDurationSeconds > 0 ? processed / entry.runDurationSeconds : 0;
+  const throughputPerMinute = throughputPerSecond * 60;
+  const displayErrorRate = processed > 0 ? displayInfraFailed / processed : 0;
+  const falseResponseRate = processed > 0 ? displayApiFailed / processed : 0;
+
+  const runBatchId =
+    entry.runId.startsWith("RUN") || entry.runId.startsWith("SKIP")
+      ? `#${entry.runId}`
+      : entry.runId;
+  const scope = [
+    entry.brand ? formatBrandDisplayName(entry.brand) : "",
+    entry.purchaser
+      ? formatPurchaserDisplayName(entry.purchaser).replace(/_/g, "-")
+      : "",
+  ]
+    .filter(Boolean)
+    .join(" / ");
+  const heading = `## ${runBatchId}${scope ? ` – ${scope}` : ""} (${formatRunDateTime(m.startedAt)})`;
+
+  const parts: string[] = [heading, ""];
+
+  parts.push(
+    "### Overview",
+    "",
+    markdownTable(
+      ["Metric", "Value"],
+      [
+        ["Total synced files", String(m.totalFiles)],
+        ["Files processed in this operation", String(processed)],
+        ["Files skipped (already handled)", String(m.skipped)],
+        ...(m.interrupted > 0
+          ? [
+              [
+                "Files interrupted (queued again on resume)",
+                String(m.interrupted),
+              ],
+            ]
+          : []),
+        ...(m.filtered > 0
+          ? [["Files filtered (include/exclude rules)", String(m.filtered)]]
+          : []),
+        ["Successful Response (Success: true)", String(displaySuccess)],
+        ["Successful Response (Success: false)", String(displayApiFailed)],
+        ["Failure (Infrastructure)", String(displayInfraFailed)],
+        ["Operation duration (wall clock)", runDuration],
+        ["Total API processing time", formatDuration(m.totalProcessingTimeMs)],
+        [
+          "Throughput (observed)",
+          `${throughputPerMinute.toFixed(2)} files/min (${throughputPerSecond.toFixed(2)} files/sec)`,
+        ],
+        [
+          "Request throughput (wall clock)",
+          `${(m.wallClockThroughputPerSecond * 60).toFixed(2)} files/min (${m.wallClockThroughputPerSecond.toFixed(2)} files/sec)`,
+        ],
+        [
+          "Request throughput (summed latency)",
+          `${(m.throughputPerSecond * 60).toFixed(2)} files/min (${m.throughputPerSecond.toFixed(2)} files/sec)`,
+        ],
+        [
+          "Error rate (Infrastructure failures)",
+          `${(displayErrorRate * 100).toFixed(2)}%`,
+        ],
+        ["False Response Rate", `${(falseResponseRate * 100).toFixed(2)}%`],
+      ],
+    ),
+    "",
+  );
+
+  parts.push(
+    "### Latency (ms)",
+    "",
+    markdownTable(
+      ["Percentile", "Value"],
+      [
+        ["Average", m.avgLatencyMs.toFixed(2)],
+        ["P50", m.p50LatencyMs.toFixed(2)],
+        ["P95", m.p95LatencyMs.toFixed(2)],
+        ["P99", m.p99LatencyMs.toFixed(2)],
+      ],
+    ),
+    "",
+  );
+
+  if (m.slo) {
+    parts.push(
+      `### SLO verdict: ${m.slo.passed ? "PASS" : "**FAIL**"}`,
+      "",
+      m.slo.checks.length > 0
+        ? markdownTable(
+            ["Objective", "Result"],
+            m.slo.checks.map((c) => [
+              escapeMarkdownCell(formatSloCheck(c)),
+              c.passed ? "PASS" : "**FAIL**",
+            ]),
+          )
+        : "No files were processed, so no objective was checked.",
+      "",
+    );
+  }
+
+  if ((m.loadStages?.length ?? 0) > 0) {
+    parts.push(
+      "### Load profile stages",
+      "",
+      markdownTable(
+        [
+          "#",
+          "Stage",
+          "Requests",
+          "Success",
+          "Failed",
+          "Error rate",
+          "Throughput (req/s)",
+          "P50 (ms)",
+          "P95 (ms)",
+        ],
+        m.loadStages!.map((st) => [
+          String(st.index + 1),
+          escapeMarkdownCell(st.name),
+          String(st.requests),
+          String(st.success),
+          String(st.failed),
+          `${(st.errorRate * 100).toFixed(2)}%`,
+          st.throughputPerSecond.toFixed(2),
+          st.p50LatencyMs.toFixed(0),
+          st.p95LatencyMs.toFixed(0),
+        ]),
+      ),
+      "",
+    );
+  }
+
+  if (m.failed > 0) {
+    const b = m.failureBreakdown;
+    const counts: [string, number][] = [
+      ["Timeout", b.timeout],
+      ["Client error (4xx)", b.clientError],
+      ["Service error (5xx)", b.serverError],
+      ["Failed file uploads", b.readError],
+      ["Other", b.other],
+    ];
+    const rows = counts
+      .filter(([, count]) => count > 0)
+      .map(([label, count]) => [label, String(count)]);
+    parts.push(
+      "### Failure breakdown by error type",
+      "",
+      markdownTable(["Error type", "Count"], rows),
+      "",
+    );
+  }
+
+  if ((m.failureDetails?.length ?? 0) > 0) {
+    const rows = m.failureDetails!.map((f) => {
+      const jsonName = extractionResultFilenameFromRecord({
+        relativePath: f.relativePath,
+        brand: f.brand,
+        purchaser: f.purchaser,
+      });
+      const msg = (f.errorMessage ?? "").trim();
+      return [
+        String(f.statusCode ?? "—"),
+        `\`${escapeMarkdownCell(f.filePath)}\``,
+        msg ? escapeMarkdownCell(msg) : "_(no response body)_",
+        markdownFileLink(
+          "response",
+          `${extractionsBase}/${resultPaths.get(jsonName) ?? `failed/${jsonName}`}`,
+        ),
+      ];
+    });
+    parts.push(
+      "### Failure details (API response)",
+      "",
+      markdownTable(["Status", "File", "Message snippet", "JSON"], rows),
+      "",
+    );
+  }
+
+  if (m.topSlowestFiles.length > 0) {
+    const rows = m.topSlowestFiles.map((e) => {
+      const jsonName = extractionResultFilenameFromRecord({
+        relativePath: e.relativePath,
+        brand: e.brand,
+        purchaser: e.purchaser,
+      });
+      return [
+        `\`${escapeMarkdownCell(e.filePath)}\``,
+        e.latencyMs.toFixed(0),
+        escapeMarkdownCell(e.patternKey ?? "—"),
+        markdownFileLink(
+          "extraction",
+          `${extractionsBase}/${resultPaths.get(jsonName) ?? `succeeded/${jsonName}`}`,
+        ),
+      ];
+    });
+    parts.push(
+      `### Top ${m.topSlowestFiles.length} slowest files (by processing time)`,
+      "",
+      markdownTable(["File", "Latency (ms)", "Pattern Key", "JSON"], rows),
+      "",
+    );
+  }
+
+  if ((m.filteredFiles?.length ?? 0) > 0) {
+    const shown = m.filteredFiles!.slice(0, FILTERED_FILES_LIMIT);
+    parts.push(
+      "### Filtered files (include/exclude rules)",
+      "",
+      ...(m.filtered > shown.length
+        ? [`First ${shown.length} of ${m.filtered} files.`, ""]
+        : []),
+      markdownTable(
+        ["File", "Reason"],
+        shown.map((f) => [
+          `\`${escapeMarkdownCell(`${f.brand}/${f.relativePath}`)}\``,
+          escapeMarkdownCell(f.reason),
+        ]),
+      ),
+      "",
+    );
+  }
+
+  if ((m.patternKeyComparison?.length ?? 0) > 0) {
+    parts.push(
+      "### Requested vs detected pattern",
+      "",
+      markdownTable(
+        ["Requested pattern key", "Detected pattern key", "Result", "Files"],
+        m.patternKeyComparison!.map((p) => [
+          escapeMarkdownCell(p.requestedPatternKey),
+          escapeMarkdownCell(p.detectedPatternKey || "—"),
+          p.requestedPatternKey === p.detectedPatternKey ? "MATCH" : "MISMATCH",
+          String(p.count),
+        ]),
+      ),
+      "",
+    );
+  }
+
+  if (m.accuracy) {
+    const a = m.accuracy;
+    const groupRows = (label: string, groups: AccuracyGroup[]) =>
+      groups.map((g) => [
+        label,
+        escapeMarkdownCell(g.key),
+        String(g.files),
+        formatRate(g.precision),
+        formatRate(g.recall),
+        formatRate(g.f1),
+        formatRate(g.exactMatchRate),
+      ]);
+    parts.push(
+      "### Extraction accuracy (golden dataset)",
+      "",
+      `${a.overall.files} file(s) scored against ground truth: precision ${formatRate(a.overall.precision)}, recall ${formatRate(a.overall.recall)}, F1 ${formatRate(a.overall.f1)}, exact match ${formatRate(a.overall.exactMatchRate)} (${a.overall.matchedFields}/${a.overall.expectedFields} expected fields matched).`,
+      "",
+      markdownTable(
+        ["Group", "Key", "Files", "Precision", "Recall", "F1", "Exact match"],
+        [
+          ...groupRows("Pattern key", a.byPatternKey),
+          ...groupRows("Brand", a.byBrand),
+          ...groupRows("Purchaser", a.byPurchaser),
+        ],
+      ),
+      "",
+      "#### Lowest-scoring files",
+      "",
+      markdownTable(
+        ["File", "Pattern key", "F1", "Fields matched", "First mismatch"],
+        a.lowestScoring.map((f) => {
+          const first = f.accuracy.mismatches?.[0];
+          return [
+            `\`${escapeMarkdownCell(f.filePath)}\``,
+            escapeMarkdownCell(f.patternKey ?? "—"),
+            formatRate(f.accuracy.f1),
+            `${f.accuracy.matchedFields}/${f.accuracy.expectedFields}`,
+            first
+              ? escapeMarkdownCell(
+                  `${first.path}: ${first.expected} → ${first.actual}`,
+                )
+              : "—",
+          ];
+        }),
+      ),
+      "",
+    );
+  }
+
+  if (m.baseline) {
+    const b = m.baseline;
+    parts.push(
+      "### Baseline comparison",
+      "",
+      `Against ${b.mode === "pinned" ? "pinned run" : `the last ${b.runIds.length} run(s) of this tenant/purchaser:`} ${b.runIds.map((id) => `\`${id}\``).join(", ")} (${b.currentSamples} vs ${b.baselineSamples} latency samples, significance level ${b.alpha}).`,
+      "",
+      markdownTable(
+        ["Metric", "Result"],
+        b.metrics.map((x) => [
+          escapeMarkdownCell(formatBaselineMetric(x)),
+          x.regressed ? "**REGRESSED**" : "OK",
+        ]),
+      ),
+      "",
+    );
+  }
+
+  if (m.failureCountByBrand.length > 0) {
+    parts.push(
+      "### Failures by brand",
+      "",
+      markdownTable(
+        ["Brand", "Failure count"],
+        m.failureCountByBrand.map((e) => [
+          escapeMarkdownCell(formatBrandDisplayName(e.brand)),
+          String(e.count),
+        ]),
+      ),
+      "",
+    );
+  }
+
+  parts.push("### Anomalies", "");
+  if (m.anomalies.length > 0) {
+    for (const a of m.anomalies) {
+      const pathSuffix = a.filePath ? ` (\`${a.filePath}\`)` : "";
+      parts.push(
+        `- **${a.type}**: ${a.message.replace(/\r?\n/g, " ")}${pathSuffix}`,
+      );
+    }
+  } else {
+    parts.push("None detected.");
+  }
+  parts.push("");
+
+  if (entry.records.length > 0) {
+    const successByFilename = new Map(
+      entry.extractionResults.map((e) => [e.filename, e.extractionSuccess]),
+    );
+    const rows = entry.records.map((rec) => {
+      const jsonName = extractionResultFilenameFromRecord({
+        relativePath: rec.relativePath,
+        brand: rec.brand,
+        purchaser: rec.purchaser,
+      });
+      const resultSuccess = successByFilename.get(jsonName);
+      const link =
+        resultSuccess === undefined
+          ? "—"
+          : markdownFileLink(
+              "json",
+              `${extractionsBase}/${resultPaths.get(jsonName) ?? `${resultSuccess ? "succeeded" : "failed"}/${jsonName}`}`,
+            );
+      return [
+        rec.status.toUpperCase(),
+        `\`${escapeMarkdownCell(rec.filePath)}\``,
+        escapeMarkdownCell(rec.patternKey ?? "—"),
+        rec.latencyMs ? rec.latencyMs.toFixed(0) : "—",
+        link,
+      ];
+    });
+    parts.push(
+      `### Extraction log (${entry.records.length} files)`,
+      "",
+      markdownTable(
+        ["Status", "File", "Pattern Key", "Latency (ms)", "JSON"],
+        rows,
+      ),
+      "",
+    );
+  }
+
+  return parts.join("\n");
+}
+
+/**
+ * Markdown executive summary for all historical operations (for pasting into PRs and wiki pages).
+ * @param extractionsBase - Link prefix for extraction JSON files, relative to where the report is written.
+ */
+export function markdownReportFromHistory(
+  historicalSummaries: HistoricalRunSummary[],
+  generatedAt: string,
+  extractionsBase = "../extractions",
+): string {
+  const header = [
+    `# ${REPORT_TITLE}`,
+    "",
+    `Generated: ${formatRunDateTime(generatedAt)} (${formatDateHuman(new Date(generatedAt))})`,
+    "",
+    `Operations: ${historicalSummaries.length}`,
+    "",
+  ];
+  const sections = historicalSummaries.map((entry) =>
+    markdownSectionForRun(entry, extractionsBase),
+  );
+  return [...header, ...sections].join("\n").trimEnd() + "\n";
+}
+
+const DIFF_REPORT_TITLE = "Run Diff Report";
+/** Files listed per class in the diff reports (regressions are always listed). */
+const DIFF_MAX_LISTED_FILES = 200;
+
+/** Entries of a diff worth listing: regressions first, then other non-unchanged pairs and unpaired files. */
+function listedDiffEntries(diff: RunDiff): RunDiffEntry[] {
+  const regressions = diff.entries.filter((e) => e.regression);
+  const others = diff.entries.filter(
+    (e) => !e.regression && e.classification !== "unchanged",
+  );
+  return [
+    ...regressions,
+    ...others.slice(0, Math.max(0, DIFF_MAX_LISTED_FILES - regressions.length)),
+  ];
+}
+
+function diffStatusLabel(e: RunDiffEntry, side: "base" | "target"): string {
+  const status = side === "base" ? e.baseStatus : e.targetStatus;
+  const code = side === "base" ? e.baseStatusCode : e.targetStatusCode;
+  if (!status) return "—";
+  return code !== undefined ? `${status} (${code})` : status;
+}
+
+function diffPatternKeyLabel(e: RunDiffEntry): string {
+  if (!e.baseStatus) return e.targetPatternKey || "—";
+  if (!e.targetStatus) return e.basePatternKey || "—";
+  const base = e.basePatternKey ?? "";
+  const target = e.targetPatternKey ?? "";
+  if (base === target) return base || "—";
+  return `${base || "(none)"} → ${target || "(none)"}`;
+}
+
+function diffThresholdLabel(diff: RunDiff): string {
+  const rate =
+    diff.maxRegressionRate !== undefined
+      ? ` or ${formatRate(diff.maxRegressionRate)} of paired files`
+      : "";
+  return `${diff.thresholdExceeded ? "FAILED" : "PASSED"}: ${diff.regressions} regression(s), ${formatRate(diff.regressionRate)} of ${diff.paired} paired file(s) (allowed ${diff.maxRegressions}${rate})`;
+}
+
+/** Run-to-run diff as Markdown: verdict, class counts, pattern key changes, changed paths and files. */
+export function markdownDiffReport(diff: RunDiff): string {
+  const lines: string[] = [
+    `# ${DIFF_REPORT_TITLE}`,
+    "",
+    `Base run \`${diff.baseRunId}\` → target run \`${diff.targetRunId}\`. Generated ${diff.generatedAt}.`,
+    "",
+    `**${diffThresholdLabel(diff)}**`,
+    "",
+  ];
+  if (diff.ignorePaths.length > 0)
+    lines.push(
+      `Ignored paths: ${diff.ignorePaths.map((p) => `\`${p}\``).join(", ")}`,
+      "",
+    );
+  lines.push(
+    "## Files by class",
+    "",
+    markdownTable(
+      ["Class", "Files"],
+      (Object.keys(diff.counts) as (keyof RunDiff["counts"])[]).map((c) => [
+        formatDiffClass(c),
+        String(diff.counts[c]),
+      ]),
+    ),
+    "",
+  );
+  if (diff.patternKeyChanges.length > 0)
+    lines.push(
+      "## Pattern key changes",
+      "",
+      markdownTable(
+        ["Base pattern key", "Target pattern key", "Files"],
+        diff.patternKeyChanges.map((p) => [
+          escapeMarkdownCell(p.basePatternKey || "(none)"),
+          escapeMarkdownCell(p.targetPatternKey || "(none)"),
+          String(p.count),
+        ]),
+      ),
+      "",
+    );
+  if (diff.changedPaths.length > 0)
+    lines.push(
+      "## Most changed JSON paths",
+      "",
+      markdownTable(
+        ["Path", "Files"],
+        diff.changedPaths.map((p) => [
+          `\`${escapeMarkdownCell(p.path)}\``,
+          String(p.files),
+        ]),
+      ),
+      "",
+    );
+  const listed = listedDiffEntries(diff);
+  if (listed.length > 0) {
+    lines.push(
+      "## Files",
+      "",
+      markdownTable(
+        [
+          "File",
+          "Class",
+          "Base",
+          "Target",
+          "Pattern key",
+          "Differences",
+          "Regression",
+        ],
+        listed.map((e) => {
+          const first = e.differences?.[0];
+          const differences = !e.contentCompared
+            ? "not compared"
+            : e.differenceCount === 0
+              ? "—"
+              : `${e.differenceCount}${first ? `: \`${escapeMarkdownCell(first.path)}\` ${escapeMarkdownCell(first.base ?? "(missing)")} → ${escapeMarkdownCell(first.target ?? "(missing)")}` : ""}`;
+          return [
+            escapeMarkdownCell(e.filePath),
+            formatDiffClass(e.classification),
+            escapeMarkdownCell(diffStatusLabel(e, "base")),
+            escapeMarkdownCell(diffStatusLabel(e, "target")),
+            escapeMarkdownCell(diffPatternKeyLabel(e)),
+            differences,
+            escapeMarkdownCell(e.regression ?? "—"),
+          ];
+        }),
+      ),
+      "",
+    );
+  }
+  return lines.join("\n");
+}
+
+/** Run-to-run diff as a standalone HTML page (same palette as the run report). */
+export function htmlDiffReport(diff: RunDiff): string {
+  const classRows = (Object.keys(diff.counts) as (keyof RunDiff["counts"])[])
+    .map(
+      (c) =>
+        `<tr><td>${formatDiffClass(c)}</td><td>${diff.counts[c]}</td></tr>`,
+    )
+    .join("");
+  const patternRows = diff.patternKeyChanges
+    .map(
+      (p) =>
+        `<tr><td>${escapeHtml(p.basePatternKey || "(none)")}</td><td>${escapeHtml(p.targetPatternKey || "(none)")}</td><td>${p.count}</td></tr>`,
+    )
+    .join("");
+  const pathRows = diff.changedPaths
+    .map(
+      (p) =>
+        `<tr><td><code>${escapeHtml(p.path)}</code></td><td>${p.files}</td></tr>`,
+    )
+    .join("");
+  const fileRows = listedDiffEntries(diff)
+    .map((e) => {
+      const shown = (e.differences ?? [])
+        .slice(0, 5)
+        .map(
+          (d) =>
+            `<code>${escapeHtml(d.path)}</code>: ${escapeHtml(d.base ?? "(missing)")} → ${escapeHtml(d.target ?? "(missing)")}`,
+        );
+      if (e.differenceCount > shown.length)
+        shown.push(
+          `<span class="muted">… ${e.differenceCount - shown.length} more</span>`,
+        );
+      const differences = !e.contentCompared
+        ? '<span class="muted">not compared</span>'
+        : shown.join("<br>") || '<span class="muted">—</span>';
+      const chip = e.regression
+        ? "fail"
+        : e.classification === "newly_passing"
+          ? "success"
+          : "secondary";
+      return `<tr><td class="file-path">${escapeHtml(e.filePath)}</td><td><span class="chip ${chip}">${formatDiffClass(e.classification)}</span></td><td>${escapeHtml(diffStatusLabel(e, "base"))}</td><td>${escapeHtml(diffStatusLabel(e, "target"))}</td><td>${escapeHtml(diffPatternKeyLabel(e))}</td><td>${differences}</td><td>${escapeHtml(e.regression ?? "—")}</td></tr>`;
+    })
+    .join("");
+  const section = (title: string, headers: string[], rows: string) =>
+    rows
+      ? `
+  <h2>${title}</h2>
+  <table>
+    <tr>${headers.map((h) => `<th>${h}</th>`).join("")}</tr>
+    ${rows}
+  </table>`
+      : "";
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(`${DIFF_REPORT_TITLE}: ${diff.baseRunId} → ${diff.targetRunId}`)}</title>
+  <style>
+    :root { --bg: #f5f7f9; --surface: #ffffff; --text: #2c2c2c; --text-secondary: #5a5a5a; --border-light: #cbd5e1; --header-bg: #216c6d; --primary: #2d9d5f; --accent-light: #e8f5ee; }
+    body { font-family: 'JetBrains Mono', 'Consolas', monospace; background: var(--bg); color: var(--text); margin: 0; padding: 2rem; font-size: 0.85rem; }
+    h1 { color: var(--header-bg); margin-top: 0; }
+    h2 { color: var(--header-bg); font-size: 1rem; margin-top: 2rem; }
+    table { border-collapse: collapse; width: 100%; background: var(--surface); }
+    th, td { padding: 0.5rem 0.75rem; text-align: left; border: 1px solid var(--border-light); vertical-align: top; overflow-wrap: anywhere; }
+    th { background: var(--header-bg); color: #ffffff; }
+    td.file-path { font-size: 0.72rem; color: var(--text-secondary); }
+    .muted { color: var(--text-secondary); }
+    .verdict { padding: 0.75rem 1rem; border-radius: 8px; font-weight: 600; }
+    .verdict.success, .chip.success { background: var(--accent-light); color: var(--primary); }
+    .verdict.fail, .chip.fail { background: #fee2e2; color: #b91c1c; }
+    .chip { display: inline-block; padding: 0.1rem 0.5rem; border-radius: 100px; font-size: 0.75rem; font-weight: 600; background: #f1f5f9; white-space: nowrap; }
+  </style>
+</head>
+<body>
+  <h1>${DIFF_REPORT_TITLE}</h1>
+  <p>Base run <code>${escapeHtml(diff.baseRunId)}</code> → target run <code>${escapeHtml(diff.targetRunId)}</code>. Generated ${escapeHtml(diff.generatedAt)}.</p>
+  <p class="verdict ${diff.thresholdExceeded ? "fail" : "success"}">${escapeHtml(diffThresholdLabel(diff))}</p>
+  ${diff.ignorePaths.length > 0 ? `<p class="muted">Ignored paths: ${diff.ignorePaths.map((p) => `<code>${escapeHtml(p)}</code>`).join(", ")}</p>` : ""}
+  ${section("Files by class", ["Class", "Files"], classRows)}
+  ${section("Pattern key changes", ["Base pattern key", "Target pattern key", "Files"], patternRows)}
+  ${section("Most changed JSON paths", ["Path", "Files"], pathRows)}
+  ${section("Files", ["File", "Class", "Base", "Target", "Pattern key", "Differences", "Regression"], fileRows)}
+</body>
+</html>`;
+}
+
+/**
+ * Write a run diff in each of report.formats (diff_<base>_<target>_<timestamp>.md/.html/.json) to the
+ * report output dir. Returns the paths written.
+ */
+export function writeDiffReports(config: Config, diff: RunDiff): string[] {
+  const outDir = config.report.outputDir;
+  if (!existsSync(outDir)) mkdirSync(outDir, { recursive: true });
+  const base = `diff_${diff.baseRunId}_${diff.targetRunId}_${Date.now()}`;
+  const written: string[] = [];
+  if (config.report.formats.includes("markdown")) {
+    const path = join(outDir, `${base}.md`);
+    writeFileSync(path, markdownDiffReport(diff), "utf-8");
+    written.push(path);
+  }
+  if (config.report.formats.includes("html")) {
+    const path = join(outDir, `${base}.html`);
+    writeFileSync(path, htmlDiffReport(diff), "utf-8");
+    written.push(path);
+  }
+  if (config.report.formats.includes("json")) {
+    const path = join(outDir, `${base}.json`);
+    writeFileSync(
+      path,
+      JSON.stringify({ title: DIFF_REPORT_TITLE, ...diff }, null, 2),
+      "utf-8",
+    );
+    written.push(path);
+  }
+  const retain = config.report.retainCount;
+  if (typeof retain === "number" && retain > 0) {
+    pruneOldReports(outDir, retain);
+  }
+  return written;
+}
+
 /**
  * Delete oldest report sets so only the most recent retainCount remain.
- * A "report set" is a base name with .html and/or .json in the output dir.
+ * A "report set" is a base name with .md, .html and/or .json in the output dir.
  */
 function pruneOldReports(outDir: string, retainCount: number): void {
   if (retainCount <= 0) return;
   const files = readdirSync(outDir, { withFileTypes: true }).filter(
-    (e) => e.isFile() && (e.name.endsWith(".html") || e.name.endsWith(".json")),
+    (e) =>
+      e.isFile() &&
+      (e.name.endsWith(".md") ||
+        e.name.endsWith(".html") ||
+        e.name.endsWith(".json")),
   );
   const baseToMtime = new Map<string, number>();
   for (const e of files) {
@@ -3075,9 +4094,14 @@ export function writeReportsForRunId(config: Config, runId: string): void {
  * Write reports to config.report.outputDir in requested formats.
  * Includes all historical sync & extract runs (from checkpoint) so downloaded reports have full history.
  * If report.retainCount is set, older report sets are deleted after writing so only the last N are kept.
+ * Returns the paths written.
  */
-export function writeReports(config: Config, summary: ExecutiveSummary): void {
+export function writeReports(
+  config: Config,
+  summary: ExecutiveSummary,
+): string[] {
   const outDir = config.report.outputDir;
+  const written: string[] = [];
   if (!existsSync(outDir)) mkdirSync(outDir, { recursive: true });
 
   const runId = summary.metrics.runId;
@@ -3086,6 +4110,22 @@ export function writeReports(config: Config, summary: ExecutiveSummary): void {
 
   if (runId) {
     const base = `report_${runId}_${Date.now()}`;
+    if (config.report.formats.includes("markdown")) {
+      const path = join(outDir, `${base}.md`);
+      const extractionsDir = join(dirname(outDir), "extractions");
+      const extractionsBase =
+        relative(outDir, extractionsDir).replaceAll("\\", "/") || "extractions";
+      writeFileSync(
+        path,
+        markdownReportFromHistory(
+          historicalSummaries,
+          generatedAt,
+          extractionsBase,
+        ),
+        "utf-8",
+      );
+      written.push(path);
+    }
     if (config.report.formats.includes("html")) {
       const path = join(outDir, `${base}.html`);
       writeFileSync(
@@ -3093,6 +4133,7 @@ export function writeReports(config: Config, summary: ExecutiveSummary): void {
         htmlReportFromHistory(historicalSummaries, generatedAt),
         "utf-8",
       );
+      written.push(path);
     }
     if (config.report.formats.includes("json")) {
       const path = join(outDir, `${base}.json`);
@@ -3110,6 +4151,8 @@ export function writeReports(config: Config, summary: ExecutiveSummary): void {
           loadTesting: {
             throughputPerMinute: Math.round(throughputPerMinute * 10) / 10,
             throughputPerSecond: Math.round(throughputPerSecond * 100) / 100,
+            wallClockThroughputPerSecond:
+              Math.round(r.metrics.wallClockThroughputPerSecond * 100) / 100,
             errorRatePercent: Math.round(r.metrics.errorRate * 10000) / 100,
             idealExtractCount5Min: Math.round(throughputPerMinute * 5),
             idealExtractCount10Min: Math.round(throughputPerMinute * 10),
@@ -3132,6 +4175,7 @@ export function writeReports(config: Config, summary: ExecutiveSummary): void {
         operations: operationsPayload,
       };
       writeFileSync(path, JSON.stringify(jsonPayload, null, 2), "utf-8");
+      written.push(path);
     }
   }
 
@@ -3139,4 +4183,5 @@ export function writeReports(config: Config, summary: ExecutiveSummary): void {
   if (typeof retain === "number" && retain > 0) {
     pruneOldReports(outDir, retain);
   }
+  return written;
 }
@@ -0,0 +1,294 @@
+/**
+ * Versioned extraction result store. Every run keeps the responses it received:
+ *   extractions/runs/<runId>/{succeeded,failed}/<brand>_<relativePath>.json
+ * extractions/{succeeded,failed}/ stays as the "latest" view used by the app's downloads and zip export: one
+ * hard link per file to the newest run's copy, removed from the other folder when the file changes status.
+ * An existing flat layout is migrated on the first run after upgrading (migrateFlatResults).
+ * report.extractionRetainRuns / extractionRetainDays prune old run folders; the latest view is never pruned.
+ */
+
+import {
+  copyFileSync,
+  existsSync,
+  linkSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import type { Config } from "./types.js";
+import { type CheckpointDb, getAllRunIdsOrdered } from "./checkpoint.js";
+
+export const RUNS_DIR = "runs";
+const STORE_MARKER_FILE = "store.json";
+const STORE_VERSION = 2;
+const OUTCOME_DIRS = ["succeeded", "failed"] as const;
+
+export type ResultOutcome = (typeof OUTCOME_DIRS)[number];
+
+export interface ResultStoreMigration {
+  /** Flat files linked into their run's folder (run ID taken from the JSON's _runId). */
+  migrated: number;
+  /** Flat files without a run ID; they stay in the latest view only. */
+  withoutRunId: number;
+  /** Stale copies removed because the same file has a newer result in the other folder. */
+  staleRemoved: number;
+}
+
+export function getExtractionsDir(config: Config): string {
+  return join(dirname(config.report.outputDir), "extractions");
+}
+
+/** Safe filename for extraction result JSON (one per file per run). */
+export function extractionResultFilename(job: {
+  brand: string;
+  relativePath: string;
+}): string {
+  const safe = job.relativePath
+    .replaceAll("/", "_")
+    .replaceAll(/[^a-zA-Z0-9._-]/g, "_");
+  const base = job.brand + "_" + (safe || "file");
+  return base.endsWith(".json") ? base : base + ".json";
+}
+
+/** Folder name of a run (run IDs passed with --run-id may contain any character). */
+function runFolderName(runId: string): string {
+  return runId.replaceAll(/[^a-zA-Z0-9._-]/g, "_") || "run";
+}
+
+/** Folder of a run's results, relative to the extractions dir (forward slashes). */
+export function runResultsSubdir(runId: string): string {
+  return `${RUNS_DIR}/${runFolderName(runId)}`;
+}
+
+export function runResultsDir(config: Config, runId: string): string {
+  return join(getExtractionsDir(config), RUNS_DIR, runFolderName(runId));
+}
+
+export function hasRunResults(config: Config, runId: string): boolean {
+  return existsSync(runResultsDir(config, runId));
+}
+
+/** Hard-link `src` to `dest` (replacing dest); copies when links are not supported. */
+function linkOrCopy(src: string, dest: string): void {
+  mkdirSync(dirname(dest), { recursive: true });
+  if (existsSync(dest)) unlinkSync(dest);
+  try {
+    linkSync(src, dest);
+  } catch {
+    copyFileSync(src, dest);
+  }
+}
+
+/**
+ * Write a run's extraction JSON to its run folder and point the latest view at it.
+ * Returns the run copy's path.
+ */
+export function saveExtractionResult(
+  config: Config,
+  runId: string,
+  job: { brand: string; relativePath: string },
+  json: string,
+  outcome: ResultOutcome,
+): string {
+  const filename = extractionResultFilename(job);
+  const runDir = runResultsDir(config, runId);
+  const path = join(runDir, outcome, filename);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, json, "utf-8");
+  const latestDir = getExtractionsDir(config);
+  linkOrCopy(path, join(latestDir, outcome, filename));
+  // A file retried within the run, or re-extracted, may have changed status: drop its other copy.
+  for (const dir of [runDir, latestDir]) {
+    for (const other of OUTCOME_DIRS) {
+      if (other === outcome) continue;
+      const stale = join(dir, other, filename);
+      if (existsSync(stale)) unlinkSync(stale);
+    }
+  }
+  return path;
+}
+
+/** A run's own copy of a file's extraction JSON (never the latest view). Null when the run kept none. */
+export function findRunExtractionResult(
+  config: Config,
+  job: { brand: string; relativePath: string },
+  runId: string,
+): string | null {
+  const filename = extractionResultFilename(job);
+  for (const outcome of OUTCOME_DIRS) {
+    const path = join(runResultsDir(config, runId), outcome, filename);
+    if (existsSync(path)) return path;
+  }
+  return null;
+}
+
+/**
+ * Local extraction JSON of a file: the run's copy when `runId` is given and it exists, otherwise the
+ * latest view. Null when none was written.
+ */
+export function findExtractionResult(
+  config: Config,
+  job: { brand: string; relativePath: string },
+  runId?: string,
+): string | null {
+  if (runId !== undefined) {
+    const own = findRunExtractionResult(config, job, runId);
+    if (own) return own;
+  }
+  const filename = extractionResultFilename(job);
+  for (const outcome of OUTCOME_DIRS) {
+    const path = join(getExtractionsDir(config), outcome, filename);
+    if (existsSync(path)) return path;
+  }
+  return null;
+}
+
+function readRunId(path: string): string | null {
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8")) as {
+      _runId?: unknown;
+    };
+    return typeof data?._runId === "string" && data._runId !== ""
+      ? data._runId
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Migrate the flat layout (extractions/{succeeded,failed}/ only) once: each file is linked into the folder
+ * of the run recorded in its _runId, and a file present in both folders keeps only its newer copy in the
+ * latest view. Recorded in extractions/store.json; returns null when the store is already versioned.
+ */
+export function migrateFlatResults(
+  config: Config,
+): ResultStoreMigration | null {
+  const baseDir = getExtractionsDir(config);
+  const markerPath = join(baseDir, STORE_MARKER_FILE);
+  if (existsSync(markerPath)) return null;
+  const result: ResultStoreMigration = {
+    migrated: 0,
+    withoutRunId: 0,
+    staleRemoved: 0,
+  };
+  const mtimes = new Map<string, { outcome: ResultOutcome; mtime: number }>();
+  for (const outcome of OUTCOME_DIRS) {
+    const dir = join(baseDir, outcome);
+    if (!existsSync(dir)) continue;
+    for (const e of readdirSync(dir, { withFileTypes: true })) {
+      if (!e.isFile() || !e.name.toLowerCase().endsWith(".json")) continue;
+      const path = join(dir, e.name);
+      const runId = readRunId(path);
+      if (runId === null) {
+        result.withoutRunId++;
+      } else {
+        const dest = join(runResultsDir(config, runId), outcome, e.name);
+        if (!existsSync(dest)) linkOrCopy(path, dest);
+        result.migrated++;
+      }
+      const mtime = statSync(path).mtimeMs;
+      const seen = mtimes.get(e.name);
+      if (!seen) {
+        mtimes.set(e.name, { outcome, mtime });
+        continue;
+      }
+      // Same file in succeeded/ and failed/: the older copy is stale. Only drop it when its run keeps it.
+      const staleOutcome = mtime > seen.mtime ? seen.outcome : outcome;
+      const stalePath = join(baseDir, staleOutcome, e.name);
+      const staleRunId = readRunId(stalePath);
+      if (
+        staleRunId !== null &&
+        existsSync(
+          join(runResultsDir(config, staleRunId), staleOutcome, e.name),
+        )
+      ) {
+        unlinkSync(stalePath);
+        result.staleRemoved++;
+      }
+      if (staleOutcome === seen.outcome) mtimes.set(e.name, { outcome, mtime });
+    }
+  }
+  mkdirSync(baseDir, { recursive: true });
+  writeFileSync(
+    markerPath,
+    JSON.stringify(
+      {
+        version: STORE_VERSION,
+        migratedAt: new Date().toISOString(),
+        ...result,
+      },
+      null,
+      2,
+    ),
+    "utf-8",
+  );
+  return result;
+}
+
+/** Last write into a run folder (its succeeded/ and failed/ change when results are written). */
+function lastWrittenMs(dir: string): number {
+  let latest = statSync(dir).mtimeMs;
+  for (const outcome of OUTCOME_DIRS) {
+    const sub = join(dir, outcome);
+    if (existsSync(sub)) latest = Math.max(latest, statSync(sub).mtimeMs);
+  }
+  return latest;
+}
+
+/** Delete a run's result folder (e.g. when the run is deleted). Returns whether it existed. */
+export function removeRunResults(config: Config, runId: string): boolean {
+  const dir = runResultsDir(config, runId);
+  if (!existsSync(dir)) return false;
+  rmSync(dir, { recursive: true, force: true });
+  return true;
+}
+
+/**
+ * Apply report.extractionRetainRuns (keep the newest N run folders, by checkpoint run order) and
+ * report.extractionRetainDays (drop folders last written longer ago). Folders of runs no longer in the
+ * checkpoint count as oldest. The current run's folder is always kept. Returns the removed run folders.
+ */
+export function pruneRunResults(
+  config: Config,
+  db: CheckpointDb,
+  currentRunId: string,
+): string[] {
+  const retainRuns = config.report.extractionRetainRuns;
+  const retainDays = config.report.extractionRetainDays;
+  const hasRunLimit = typeof retainRuns === "number" && retainRuns > 0;
+  const hasAgeLimit = typeof retainDays === "number" && retainDays > 0;
+  if (!hasRunLimit && !hasAgeLimit) return [];
+  const runsDir = join(getExtractionsDir(config), RUNS_DIR);
+  if (!existsSync(runsDir)) return [];
+  const folders = new Set(
+    readdirSync(runsDir, { withFileTypes: true })
+      .filter((e) => e.isDirectory())
+      .map((e) => e.name),
+  );
+  const current = runFolderName(currentRunId);
+  // Newest first: runs known to the checkpoint, then orphaned folders.
+  const ordered: string[] = [];
+  for (const runId of getAllRunIdsOrdered(db)) {
+    const name = runFolderName(runId);
+    if (folders.delete(name)) ordered.push(name);
+  }
+  ordered.push(...folders);
+  const cutoff = hasAgeLimit ? Date.now() - retainDays! * 86_400_000 : 0;
+  const removed: string[] = [];
+  ordered.forEach((name, i) => {
+    if (name === current) return;
+    const dir = join(runsDir, name);
+    const tooMany = hasRunLimit && i >= retainRuns!;
+    const tooOld = hasAgeLimit && lastWrittenMs(dir) < cutoff;
+    if (!tooMany && !tooOld) return;
+    rmSync(dir, { recursive: true, force: true });
+    removed.push(name);
+  });
+  return removed;
+}
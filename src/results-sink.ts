@@ -0,0 +1,359 @@
+/**
+ * Results sink (resultsSink in config): upload each extraction JSON and the final report files to an output
+ * bucket so downstream teams do not need access to the runner host. Keys mirror the source layout:
+ *   <prefix>extractions/<tenant>/<purchaser>/<key after prefix>.json
+ *   <prefix>reports/<report file>
+ * Uploads run in the background while extraction continues and are retried with backoff. A manifest of
+ * key -> SHA-256 (results-sink-manifest.json) skips content that was already uploaded, so re-running a push
+ * is idempotent. Each extraction upload is recorded on the file's checkpoint row (uploadStatus).
+ */
+
+import PQueue from "p-queue";
+import { PutObjectCommand, type S3Client } from "@aws-sdk/client-s3";
+import { createHash } from "node:crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "node:fs";
+import { basename, dirname, join } from "node:path";
+import type {
+  CheckpointRecord,
+  Config,
+  ResultsSinkConfig,
+  UploadStatus,
+} from "./types.js";
+import { type CheckpointDb, recordUploadStatus } from "./checkpoint.js";
+import { computeBackoffMs } from "./retry-policy.js";
+import { sleepUnlessShutdown } from "./shutdown.js";
+import {
+  createS3Client,
+  isLocalSource,
+  localSourceDir,
+  validateConnectionSettings,
+} from "./sync-source.js";
+
+const MANIFEST_FILE = "results-sink-manifest.json";
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+/** Save the manifest every this many uploads so a crash loses little. */
+const MANIFEST_SAVE_EVERY = 50;
+
+export interface ResultsSinkStats {
+  uploaded: number;
+  /** Already uploaded with the same content (manifest hit). */
+  unchanged: number;
+  failed: number;
+}
+
+/** Where objects are written: an S3 bucket or a local directory (file://). */
+interface SinkTarget {
+  describe(key: string): string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+}
+
+/** Validate resultsSink; returns human-readable problems (empty when valid). */
+export function validateResultsSink(value: unknown): string[] {
+  const c = value as ResultsSinkConfig | null;
+  if (typeof c !== "object" || c === null) return ["resultsSink (object)"];
+  const problems: string[] = [];
+  if (typeof c.bucket !== "string" || c.bucket === "")
+    problems.push("resultsSink.bucket");
+  if (c.prefix !== undefined && typeof c.prefix !== "string")
+    problems.push("resultsSink.prefix (string when set)");
+  if (c.uploadReports !== undefined && typeof c.uploadReports !== "boolean")
+    problems.push("resultsSink.uploadReports (boolean when set)");
+  if (
+    c.concurrency !== undefined &&
+    !(Number.isInteger(c.concurrency) && c.concurrency >= 1)
+  )
+    problems.push("resultsSink.concurrency (integer >= 1 when set)");
+  if (
+    c.maxRetries !== undefined &&
+    !(Number.isInteger(c.maxRetries) && c.maxRetries >= 0)
+  )
+    problems.push("resultsSink.maxRetries (integer >= 0 when set)");
+  if (
+    c.retryBaseDelayMs !== undefined &&
+    !(typeof c.retryBaseDelayMs === "number" && c.retryBaseDelayMs >= 0)
+  )
+    problems.push("resultsSink.retryBaseDelayMs (>= 0 when set)");
+  if (
+    c.manifestPath !== undefined &&
+    (typeof c.manifestPath !== "string" || c.manifestPath === "")
+  )
+    problems.push("resultsSink.manifestPath (path when set)");
+  problems.push(...validateConnectionSettings(c, "resultsSink"));
+  return problems;
+}
+
+/** Normalized key prefix: no leading "/", trailing "/" when non-empty. */
+function keyPrefix(sink: ResultsSinkConfig): string {
+  const p = (sink.prefix ?? "").replace(/^\/+/, "");
+  return p === "" || p.endsWith("/") ? p : p + "/";
+}
+
+/** Sink key of a staged file's extraction JSON (same tenant/purchaser layout as the source). */
+export function resultKeyFor(
+  sink: ResultsSinkConfig,
+  job: { brand: string; relativePath: string },
+): string {
+  const rel = job.relativePath.replace(/\\/g, "/");
+  return `${keyPrefix(sink)}extractions/${job.brand}/${rel}.json`;
+}
+
+export function reportKeyFor(sink: ResultsSinkConfig, path: string): string {
+  return `${keyPrefix(sink)}reports/${basename(path)}`;
+}
+
+function getManifestPath(config: Config): string {
+  return (
+    config.resultsSink?.manifestPath ??
+    join(dirname(config.run.checkpointPath), MANIFEST_FILE)
+  );
+}
+
+function loadManifest(path: string): Record<string, string> {
+  if (!existsSync(path)) return {};
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8")) as Record<
+      string,
+      string
+    >;
+    return typeof data === "object" && data !== null ? data : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveManifest(path: string, data: Record<string, string>): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  // Write then rename so a crash never leaves a truncated manifest.
+  const tmp = path + ".tmp";
+  writeFileSync(tmp, JSON.stringify(data), "utf-8");
+  renameSync(tmp, path);
+}
+
+function createTarget(config: Config, sink: ResultsSinkConfig): SinkTarget {
+  if (isLocalSource(sink.bucket)) {
+    const root = localSourceDir(sink.bucket);
+    return {
+      describe: (key) => `file://${join(root, key)}`,
+      async put(key, body) {
+        const path = join(root, key);
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, body);
+      },
+    };
+  }
+  const client: S3Client = createS3Client({
+    region: sink.region ?? config.s3.region,
+    endpoint: sink.endpoint ?? config.s3.endpoint,
+    forcePathStyle: sink.forcePathStyle ?? config.s3.forcePathStyle,
+    profile: sink.profile ?? config.s3.profile,
+  });
+  return {
+    describe: (key) => `s3://${sink.bucket}/${key}`,
+    async put(key, body, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: sink.bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+        }),
+      );
+    },
+  };
+}
+
+function contentTypeFor(path: string): string {
+  if (path.endsWith(".json")) return "application/json";
+  if (path.endsWith(".html")) return "text/html; charset=utf-8";
+  if (path.endsWith(".md")) return "text/markdown; charset=utf-8";
+  return "application/octet-stream";
+}
+
+/** One sink session: target, manifest and upload queue. */
+interface SinkSession {
+  sink: ResultsSinkConfig;
+  target: SinkTarget;
+  manifest: Record<string, string>;
+  manifestPath: string;
+  queue: PQueue;
+  stats: ResultsSinkStats;
+  sinceSave: number;
+}
+
+function openSession(config: Config): SinkSession | null {
+  const sink = config.resultsSink;
+  if (!sink) return null;
+  const manifestPath = getManifestPath(config);
+  return {
+    sink,
+    target: createTarget(config, sink),
+    manifest: loadManifest(manifestPath),
+    manifestPath,
+    queue: new PQueue({
+      concurrency: sink.concurrency ?? DEFAULT_CONCURRENCY,
+    }),
+    stats: { uploaded: 0, unchanged: 0, failed: 0 },
+    sinceSave: 0,
+  };
+}
+
+/**
+ * Upload one local file under `key` unless the manifest has the same content for it; retried with
+ * exponential backoff. Never throws: the outcome is returned (with the last error for "failed").
+ */
+async function uploadFile(
+  session: SinkSession,
+  localPath: string,
+  key: string,
+): Promise<{ status: UploadStatus; error?: string }> {
+  let body: Buffer;
+  try {
+    body = readFileSync(localPath);
+  } catch (e) {
+    session.stats.failed++;
+    return {
+      status: "failed",
+      error: e instanceof Error ? e.message : String(e),
+    };
+  }
+  const sha = createHash("sha256").update(body).digest("hex");
+  if (session.manifest[key] === sha) {
+    session.stats.unchanged++;
+    return { status: "unchanged" };
+  }
+  const maxRetries = session.sink.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const baseDelayMs =
+    session.sink.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+  let lastError = "";
+  let delay = 0;
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (attempt > 0) {
+      delay = computeBackoffMs(
+        "exponential",
+        baseDelayMs,
+        MAX_RETRY_DELAY_MS,
+        attempt,
+        delay,
+      );
+      await sleepUnlessShutdown(delay);
+    }
+    try {
+      await session.target.put(key, body, contentTypeFor(localPath));
+      session.manifest[key] = sha;
+      session.stats.uploaded++;
+      if (++session.sinceSave >= MANIFEST_SAVE_EVERY) {
+        session.sinceSave = 0;
+        saveManifest(session.manifestPath, session.manifest);
+      }
+      return { status: "uploaded" };
+    } catch (e) {
+      lastError = e instanceof Error ? e.message : String(e);
+    }
+  }
+  session.stats.failed++;
+  return {
+    status: "failed",
+    error: `${lastError} (after ${maxRetries + 1} attempt${maxRetries === 0 ? "" : "s"})`,
+  };
+}
+
+async function drainSession(session: SinkSession): Promise<ResultsSinkStats> {
+  await session.queue.onIdle();
+  saveManifest(session.manifestPath, session.manifest);
+  return session.stats;
+}
+
+let activeSession: SinkSession | null = null;
+let activeDb: CheckpointDb | null = null;
+
+/** Start uploading extraction results for a run (no-op without resultsSink). Pair with closeResultsSink(). */
+export function initResultsSink(config: Config, db: CheckpointDb): void {
+  if (activeSession) return;
+  activeSession = openSession(config);
+  activeDb = activeSession ? db : null;
+}
+
+/**
+ * Queue the upload of a file's extraction JSON (written to `localPath`). Call after the file's final
+ * checkpoint row is written: the upload status is recorded on that row.
+ */
+export function queueResultUpload(
+  runId: string,
+  job: { filePath: string; brand: string; relativePath: string },
+  localPath: string,
+): void {
+  const session = activeSession;
+  const db = activeDb;
+  if (!session || !db) return;
+  const key = resultKeyFor(session.sink, job);
+  void session.queue.add(async () => {
+    const { status, error } = await uploadFile(session, localPath, key);
+    recordUploadStatus(db, runId, job.filePath, {
+      status,
+      location: session.target.describe(key),
+      error,
+    });
+  });
+}
+
+/** Wait for queued uploads, save the manifest and end the session. Returns null when no sink is configured. */
+export async function closeResultsSink(): Promise<ResultsSinkStats | null> {
+  const session = activeSession;
+  activeSession = null;
+  activeDb = null;
+  if (!session) return null;
+  return drainSession(session);
+}
+
+/** Upload report files (resultsSink.uploadReports, default on). Returns null when there is nothing to do. */
+export async function uploadReportFiles(
+  config: Config,
+  paths: string[],
+): Promise<ResultsSinkStats | null> {
+  if (config.resultsSink?.uploadReports === false || paths.length === 0)
+    return null;
+  const session = openSession(config);
+  if (!session) return null;
+  for (const path of paths) {
+    void session.queue.add(() =>
+      uploadFile(session, path, reportKeyFor(session.sink, path)),
+    );
+  }
+  return drainSession(session);
+}
+
+/**
+ * Upload the extraction JSON of every done/error row in `records` whose upload did not succeed yet
+ * (push-results). Files already uploaded with the same content are skipped through the manifest.
+ */
+export async function pushResults(
+  config: Config,
+  db: CheckpointDb,
+  records: CheckpointRecord[],
+  resultPathFor: (record: CheckpointRecord) => string | null,
+): Promise<ResultsSinkStats | null> {
+  initResultsSink(config, db);
+  if (!activeSession) return null;
+  for (const r of records) {
+    if (r.status !== "done" && r.status !== "error") continue;
+    if (r.uploadStatus === "uploaded" || r.uploadStatus === "unchanged")
+      continue;
+    const path = resultPathFor(r);
+    if (path) queueResultUpload(r.runId, r, path);
+  }
+  return closeResultsSink();
+}
+
+export function formatSinkStats(stats: ResultsSinkStats): string {
+  return `uploaded ${stats.uploaded}, unchanged ${stats.unchanged}, failed ${stats.failed}`;
+}
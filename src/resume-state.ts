@@ -1,13 +1,31 @@
 /**
- * Resume state for sync-extract pipeline: tracks the file currently being
- * downloaded so that on resume we can delete the partial file and re-run from that file.
+ * Resume state for sync-extract pipeline: tracks the files currently being
+ * downloaded so that on resume their .part files continue from the saved byte
+ * offset (or are deleted and downloaded again when that is not possible).
  */
 
-import { readFileSync, writeFileSync, existsSync, unlinkSync, mkdirSync } from 'node:fs';
+import { readFileSync, writeFileSync, existsSync, unlinkSync, mkdirSync, statSync } from 'node:fs';
 import { dirname, join } from 'node:path';
 import type { Config } from './types.js';
+import { partPath, type PartialDownload } from './sync-source.js';
+
+export interface InProgressDownload {
+  path: string;
+  manifestKey: string;
+  /** ETag of the object being downloaded (a .part of another version is not continued). */
+  etag?: string;
+}
+
+export interface ResumablePartial extends PartialDownload {
+  path: string;
+}
 
 export interface ResumeState {
+  /** Downloads in flight (several when s3.downloadConcurrency > 1). */
+  syncInProgress?: InProgressDownload[];
+  /** .part files kept by the last resume, with the byte offset to continue from. */
+  partialDownloads?: ResumablePartial[];
+  /** Single in-progress download written by older versions; still honoured on resume. */
   syncInProgressPath?: string;
   syncInProgressManifestKey?: string;
 }
@@ -47,33 +65,106 @@ export function clearResumeState(config: Config): void {
   saveResumeState(config, {});
 }
 
+function withoutEmpty(state: ResumeState): ResumeState {
+  const out: ResumeState = {};
+  if (state.syncInProgress?.length) out.syncInProgress = state.syncInProgress;
+  if (state.partialDownloads?.length) out.partialDownloads = state.partialDownloads;
+  return out;
+}
+
+/** Record a download that is about to start (called once per file before it is written). */
+export function markDownloadStarted(
+  config: Config,
+  path: string,
+  manifestKey: string,
+  etag?: string,
+): void {
+  const state = loadResumeState(config);
+  const inProgress = (state.syncInProgress ?? []).filter((d) => d.path !== path);
+  inProgress.push({ path, manifestKey, ...(etag && { etag }) });
+  saveResumeState(config, withoutEmpty({ ...state, syncInProgress: inProgress }));
+}
+
+/** Remove a finished (or failed) download from the resume state. */
+export function markDownloadFinished(config: Config, path: string): void {
+  const state = loadResumeState(config);
+  saveResumeState(
+    config,
+    withoutEmpty({
+      syncInProgress: (state.syncInProgress ?? []).filter((d) => d.path !== path),
+      partialDownloads: (state.partialDownloads ?? []).filter((d) => d.path !== path),
+    }),
+  );
+}
+
+/** .part files that the next sync may continue, keyed by destination path. */
+export function loadPartialDownloads(config: Config): Map<string, PartialDownload> {
+  const partials = new Map<string, PartialDownload>();
+  for (const { path, etag, offset } of loadResumeState(config).partialDownloads ?? []) {
+    partials.set(path, { etag, offset });
+  }
+  return partials;
+}
+
 /**
- * Called when starting with --resume: delete the partial file (if any) from disk
- * and remove its entry from the sync manifest, then clear resume state so the
- * pipeline can run and re-download that file.
+ * Called when starting sync-extract: for each download the last run left in
+ * flight, keep its .part file and save the byte offset reached (with the ETag)
+ * so the next sync continues it with a ranged GET. A .part without an ETag and
+ * a partial file written by older versions (straight to the staging path) are
+ * deleted. Their entries are removed from the sync manifest either way.
  */
 export function clearPartialFileAndResumeState(config: Config): void {
   const state = loadResumeState(config);
-  const path = state.syncInProgressPath;
-  const manifestKey = state.syncInProgressManifestKey;
-
-  if (path && existsSync(path)) {
-    try {
-      unlinkSync(path);
-    } catch (_) {
-      // ignore
+  const inProgress = [...(state.syncInProgress ?? [])];
+  if (state.syncInProgressPath && state.syncInProgressManifestKey) {
+    inProgress.push({
+      path: state.syncInProgressPath,
+      manifestKey: state.syncInProgressManifestKey,
+    });
+  }
+
+  const partialDownloads: ResumablePartial[] = (state.partialDownloads ?? []).filter(
+    (p) => !inProgress.some((d) => d.path === p.path),
+  );
+  for (const { path, etag } of inProgress) {
+    if (!path) continue;
+    const part = partPath(path);
+    if (etag && existsSync(part)) {
+      try {
+        const offset = statSync(part).size;
+        if (offset > 0) {
+          partialDownloads.push({ path, etag, offset });
+          continue;
+        }
+      } catch (_) {
+        // fall through and delete
+      }
+    }
+    // Newer versions rename into place only after verification, so the staging path is complete.
+    for (const p of etag === undefined ? [path, part] : [part]) {
+      if (existsSync(p)) {
+        try {
+          unlinkSync(p);
+        } catch (_) {
+          // ignore
+        }
+      }
     }
   }
 
-  if (manifestKey) {
+  const manifestKeys = inProgress.map((d) => d.manifestKey).filter(Boolean);
+  if (manifestKeys.length > 0) {
     const manifestPath = getManifestPath(config);
     if (existsSync(manifestPath)) {
       try {
         const raw = readFileSync(manifestPath, 'utf-8');
         const manifest = JSON.parse(raw) as Record<string, string>;
-        if (typeof manifest === 'object' && manifest !== null && manifestKey in manifest) {
-          delete manifest[manifestKey];
-          writeFileSync(manifestPath, JSON.stringify(manifest, null, 0), 'utf-8');
+        if (typeof manifest === 'object' && manifest !== null) {
+          const present = manifestKeys.filter((k) => k in manifest);
+          for (const k of present) delete manifest[k];
+          if (present.length > 0) {
+            writeFileSync(manifestPath, JSON.stringify(manifest, null, 0), 'utf-8');
+          }
         }
       } catch (_) {
         // ignore
@@ -81,5 +172,5 @@ export function clearPartialFileAndResumeState(config: Config): void {
     }
   }
 
-  clearResumeState(config);
+  saveResumeState(config, withoutEmpty({ partialDownloads }));
 }
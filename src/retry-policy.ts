@@ -0,0 +1,155 @@
+/**
+ * Retry policy for extract calls: backoff strategy, Retry-After support, separate budgets for network
+ * errors (statusCode 0) and retriable HTTP errors (429/5xx), and an optional per-run retry budget.
+ * Without run.retryPolicy the legacy settings apply: run.maxRetries / run.retryBackoffMs (linear) and
+ * 5 network retries 12 s apart.
+ */
+
+import type { Config, RetryPolicyConfig, RetryStrategy } from "./types.js";
+
+const STRATEGIES: RetryStrategy[] = [
+  "fixed",
+  "linear",
+  "exponential",
+  "decorrelated-jitter",
+];
+
+/** Backoff base when a retryPolicy block sets neither baseDelayMs nor run.retryBackoffMs (legacy default: 0). */
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30000;
+const DEFAULT_MAX_NETWORK_RETRIES = 5;
+const DEFAULT_NETWORK_DELAY_MS = 12000;
+
+/** Fully resolved policy (defaults applied). */
+export interface RetryPolicy {
+  strategy: RetryStrategy;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  respectRetryAfter: boolean;
+  maxHttpRetries: number;
+  maxNetworkRetries: number;
+  networkStrategy: RetryStrategy;
+  networkBaseDelayMs: number;
+  /** Total retries allowed across the run (null = unlimited). */
+  runRetryBudget: number | null;
+}
+
+/** Remaining per-run retries (null = unlimited). Set by initRetryBudget at the start of a run. */
+let retryBudgetRemaining: number | null = null;
+
+/** Resolve run.retryPolicy (or the legacy run.maxRetries / run.retryBackoffMs settings) with defaults. */
+export function resolveRetryPolicy(config: Config): RetryPolicy {
+  const legacyRetries = Number.isInteger(config.run.maxRetries ?? 0)
+    ? Math.max(0, config.run.maxRetries ?? 0)
+    : 0;
+  // Without retryPolicy, retryBackoffMs keeps its legacy default of 0 (no wait between retries).
+  const backoffDefault = config.run.retryPolicy ? DEFAULT_BASE_DELAY_MS : 0;
+  const legacyBackoff = Number.isFinite(
+    config.run.retryBackoffMs ?? backoffDefault,
+  )
+    ? Math.max(0, config.run.retryBackoffMs ?? backoffDefault)
+    : backoffDefault;
+  const p: RetryPolicyConfig = config.run.retryPolicy ?? {};
+  return {
+    strategy: p.strategy ?? (config.run.retryPolicy ? "exponential" : "linear"),
+    baseDelayMs: p.baseDelayMs ?? legacyBackoff,
+    maxDelayMs: p.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+    respectRetryAfter: p.respectRetryAfter ?? true,
+    maxHttpRetries: p.maxHttpRetries ?? legacyRetries,
+    maxNetworkRetries: p.maxNetworkRetries ?? DEFAULT_MAX_NETWORK_RETRIES,
+    networkStrategy: p.networkStrategy ?? "fixed",
+    networkBaseDelayMs: p.networkBaseDelayMs ?? DEFAULT_NETWORK_DELAY_MS,
+    runRetryBudget: p.runRetryBudget ?? null,
+  };
+}
+
+/** Validate run.retryPolicy; returns human-readable problems (empty when valid). */
+export function validateRetryPolicy(value: unknown): string[] {
+  const p = value as RetryPolicyConfig | null;
+  if (typeof p !== "object" || p === null) {
+    return ["run.retryPolicy (object)"];
+  }
+  const problems: string[] = [];
+  for (const key of ["strategy", "networkStrategy"] as const) {
+    if (p[key] !== undefined && !STRATEGIES.includes(p[key]!)) {
+      problems.push(`run.retryPolicy.${key} (${STRATEGIES.join(" | ")})`);
+    }
+  }
+  for (const key of [
+    "baseDelayMs",
+    "maxDelayMs",
+    "maxHttpRetries",
+    "maxNetworkRetries",
+    "networkBaseDelayMs",
+    "runRetryBudget",
+  ] as const) {
+    const v = p[key];
+    if (v !== undefined && !(typeof v === "number" && v >= 0)) {
+      problems.push(`run.retryPolicy.${key} (>= 0 when set)`);
+    }
+  }
+  return problems;
+}
+
+/** Start a run's retry budget (call once per run, like initRequestResponseLogger). */
+export function initRetryBudget(config: Config): void {
+  retryBudgetRemaining = resolveRetryPolicy(config).runRetryBudget;
+}
+
+/** Take one retry from the run budget; false when the budget is exhausted. */
+export function tryConsumeRetryBudget(): boolean {
+  if (retryBudgetRemaining === null) return true;
+  if (retryBudgetRemaining <= 0) return false;
+  retryBudgetRemaining--;
+  return true;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds from now.
+ * Returns undefined when absent or unparseable.
+ */
+export function parseRetryAfterMs(
+  value: string | undefined,
+  now = Date.now(),
+): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number(trimmed) * 1000);
+  const at = Date.parse(trimmed);
+  if (Number.isNaN(at)) return undefined;
+  return Math.max(0, at - now);
+}
+
+/**
+ * Delay before retry number `retry` (1-based).
+ * - fixed: base
+ * - linear: base * retry
+ * - exponential: base * 2^(retry-1), with equal jitter (50–100% of that)
+ * - decorrelated-jitter: random between base and 3 * previous delay
+ * Always capped at maxDelayMs.
+ */
+export function computeBackoffMs(
+  strategy: RetryStrategy,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  retry: number,
+  previousDelayMs: number,
+): number {
+  let delay = baseDelayMs; // fixed
+  switch (strategy) {
+    case "linear":
+      delay = baseDelayMs * retry;
+      break;
+    case "exponential": {
+      const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+      delay = ceiling / 2 + Math.random() * (ceiling / 2);
+      break;
+    }
+    case "decorrelated-jitter": {
+      const upper = Math.max(baseDelayMs, previousDelayMs * 3);
+      delay = baseDelayMs + Math.random() * (upper - baseDelayMs);
+      break;
+    }
+  }
+  return Math.round(Math.min(maxDelayMs, delay));
+}
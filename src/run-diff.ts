@@ -0,0 +1,357 @@
+/**
+ * Run-to-run regression diff (`diff --base <runId> --target <runId>`): pair the files two runs processed
+ * (done/error checkpoint rows, by file path) and compare their extraction JSON from each run's own result
+ * folder (see result-store.ts). Each pair is unchanged, changed, newly failing, newly passing or still
+ * failing; files processed by only one run are listed apart. Structural differences skip the runner's
+ * top-level "_" metadata and diff.ignorePaths (timestamps, request IDs). A regression is a newly failing
+ * file, or a file whose accuracy F1 dropped when both runs scored it; diff.maxRegressions /
+ * maxRegressionRate decide whether the command fails.
+ */
+
+import { readFileSync } from "node:fs";
+import type {
+  CheckpointRecord,
+  Config,
+  DiffConfig,
+  JsonDifference,
+  RunDiff,
+  RunDiffClass,
+  RunDiffEntry,
+} from "./types.js";
+import { fieldPathMatcher } from "./accuracy.js";
+import { findRunExtractionResult } from "./result-store.js";
+
+/** Exit code of `diff` when regressions exceed the threshold (1 stays "the command failed"). */
+export const DIFF_REGRESSION_EXIT_CODE = 2;
+
+const MAX_DIFFERENCES_PER_FILE = 20;
+const MAX_VALUE_CHARS = 100;
+const MAX_CHANGED_PATHS = 20;
+/** F1 drops smaller than this are rounding noise, not regressions. */
+const F1_EPSILON = 1e-9;
+
+const DIFF_CLASSES: RunDiffClass[] = [
+  "unchanged",
+  "changed",
+  "newly_failing",
+  "newly_passing",
+  "still_failing",
+  "only_in_base",
+  "only_in_target",
+];
+
+export interface RunDiffOptions {
+  /** Replace diff.ignorePaths. */
+  ignorePaths?: string[];
+  maxRegressions?: number;
+  maxRegressionRate?: number;
+}
+
+/** Validate diff; returns human-readable problems (empty when valid). */
+export function validateDiff(value: unknown): string[] {
+  const c = value as DiffConfig | null;
+  if (typeof c !== "object" || c === null) return ["diff (object)"];
+  const problems: string[] = [];
+  if (
+    c.ignorePaths !== undefined &&
+    !(
+      Array.isArray(c.ignorePaths) &&
+      c.ignorePaths.every((p) => typeof p === "string" && p !== "")
+    )
+  )
+    problems.push("diff.ignorePaths (array of strings when set)");
+  if (
+    c.maxRegressions !== undefined &&
+    !(Number.isInteger(c.maxRegressions) && c.maxRegressions >= 0)
+  )
+    problems.push("diff.maxRegressions (integer >= 0 when set)");
+  if (
+    c.maxRegressionRate !== undefined &&
+    !(
+      typeof c.maxRegressionRate === "number" &&
+      c.maxRegressionRate >= 0 &&
+      c.maxRegressionRate <= 1
+    )
+  )
+    problems.push("diff.maxRegressionRate (0..1 when set)");
+  return problems;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function display(v: unknown): string {
+  const s = JSON.stringify(v);
+  return s.length > MAX_VALUE_CHARS ? s.slice(0, MAX_VALUE_CHARS) + "…" : s;
+}
+
+/** Array indexes folded to "[]" so ignore patterns and path counts treat all elements alike. */
+function foldIndexes(path: string): string {
+  return path.replace(/\[\d+\]/g, "[]");
+}
+
+/** Collects the structural differences of one file pair. */
+class JsonDiffer {
+  readonly differences: JsonDifference[] = [];
+  readonly paths = new Set<string>();
+  count = 0;
+
+  constructor(private readonly ignored: ((path: string) => boolean)[]) {}
+
+  private add(difference: JsonDifference): void {
+    this.count++;
+    this.paths.add(foldIndexes(difference.path));
+    if (this.differences.length < MAX_DIFFERENCES_PER_FILE)
+      this.differences.push(difference);
+  }
+
+  compare(path: string, base: unknown, target: unknown): void {
+    if (path !== "" && this.ignored.some((m) => m(foldIndexes(path)))) return;
+    if (isObject(base) && isObject(target)) {
+      const keys = new Set([...Object.keys(base), ...Object.keys(target)]);
+      for (const key of keys) {
+        if (path === "" && key.startsWith("_")) continue; // runner metadata (_runId, _latencyMs, ...)
+        this.compare(path ? `${path}.${key}` : key, base[key], target[key]);
+      }
+      return;
+    }
+    if (Array.isArray(base) && Array.isArray(target)) {
+      const n = Math.max(base.length, target.length);
+      for (let i = 0; i < n; i++)
+        this.compare(`${path}[${i}]`, base[i], target[i]);
+      return;
+    }
+    if (base === undefined && target === undefined) return;
+    if (base === undefined)
+      this.add({ path, kind: "added", target: display(target) });
+    else if (target === undefined)
+      this.add({ path, kind: "removed", base: display(base) });
+    else if (JSON.stringify(base) !== JSON.stringify(target))
+      this.add({
+        path,
+        kind: "changed",
+        base: display(base),
+        target: display(target),
+      });
+  }
+}
+
+function readResult(
+  config: Config,
+  record: CheckpointRecord,
+  runId: string,
+): unknown {
+  const path = findRunExtractionResult(config, record, runId);
+  if (!path) return undefined;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Latest done/error row per file (a file retried within the run has several rows). */
+function processedByFile(
+  records: CheckpointRecord[],
+): Map<string, CheckpointRecord> {
+  const byFile = new Map<string, CheckpointRecord>();
+  for (const r of records) {
+    if (r.status !== "done" && r.status !== "error") continue;
+    const seen = byFile.get(r.filePath);
+    if (!seen || (r.finishedAt ?? "") >= (seen.finishedAt ?? ""))
+      byFile.set(r.filePath, r);
+  }
+  return byFile;
+}
+
+/** Status-driven class of a pair; null when both runs passed (unchanged vs changed depends on content). */
+function classify(
+  base: CheckpointRecord,
+  target: CheckpointRecord,
+): RunDiffClass | null {
+  const basePassed = base.status === "done";
+  const targetPassed = target.status === "done";
+  if (basePassed && !targetPassed) return "newly_failing";
+  if (!basePassed && targetPassed) return "newly_passing";
+  if (!basePassed) return "still_failing";
+  return null;
+}
+
+/**
+ * Compare the extraction outputs of two runs. `baseRecords` / `targetRecords` are the runs' checkpoint
+ * rows; options override the diff section of the config.
+ */
+export function diffRuns(
+  config: Config,
+  baseRunId: string,
+  baseRecords: CheckpointRecord[],
+  targetRunId: string,
+  targetRecords: CheckpointRecord[],
+  options: RunDiffOptions = {},
+): RunDiff {
+  const ignorePaths = options.ignorePaths ?? config.diff?.ignorePaths ?? [];
+  const ignored = ignorePaths.map(fieldPathMatcher);
+  const maxRegressions =
+    options.maxRegressions ?? config.diff?.maxRegressions ?? 0;
+  const maxRegressionRate =
+    options.maxRegressionRate ?? config.diff?.maxRegressionRate;
+
+  const baseByFile = processedByFile(baseRecords);
+  const targetByFile = processedByFile(targetRecords);
+  const files = [
+    ...new Set([...baseByFile.keys(), ...targetByFile.keys()]),
+  ].sort();
+
+  const entries: RunDiffEntry[] = [];
+  const patternKeyChanges = new Map<
+    string,
+    { basePatternKey: string; targetPatternKey: string; count: number }
+  >();
+  const changedPaths = new Map<string, number>();
+  for (const filePath of files) {
+    const base = baseByFile.get(filePath);
+    const target = targetByFile.get(filePath);
+    const record = (target ?? base)!;
+    const entry: RunDiffEntry = {
+      filePath,
+      relativePath: record.relativePath,
+      brand: record.brand,
+      purchaser: record.purchaser,
+      classification: !base ? "only_in_target" : "only_in_base",
+      baseStatus: base?.status,
+      targetStatus: target?.status,
+      baseStatusCode: base?.statusCode,
+      targetStatusCode: target?.statusCode,
+      basePatternKey: base?.patternKey,
+      targetPatternKey: target?.patternKey,
+      contentCompared: false,
+      differenceCount: 0,
+      baseF1: base?.accuracy?.f1,
+      targetF1: target?.accuracy?.f1,
+    };
+    entries.push(entry);
+    if (!base || !target) continue;
+
+    const baseJson = readResult(config, base, baseRunId);
+    const targetJson = readResult(config, target, targetRunId);
+    if (baseJson !== undefined && targetJson !== undefined) {
+      const differ = new JsonDiffer(ignored);
+      differ.compare("", baseJson, targetJson);
+      entry.contentCompared = true;
+      entry.differenceCount = differ.count;
+      if (differ.differences.length > 0) entry.differences = differ.differences;
+      for (const p of differ.paths)
+        changedPaths.set(p, (changedPaths.get(p) ?? 0) + 1);
+    }
+    const patternKeyChanged =
+      (base.patternKey ?? "") !== (target.patternKey ?? "");
+    // A failed request has no detected pattern key: only successful pairs count as key changes.
+    if (
+      patternKeyChanged &&
+      base.status === "done" &&
+      target.status === "done"
+    ) {
+      const key = `${base.patternKey ?? ""}\u0000${target.patternKey ?? ""}`;
+      const change = patternKeyChanges.get(key) ?? {
+        basePatternKey: base.patternKey ?? "",
+        targetPatternKey: target.patternKey ?? "",
+        count: 0,
+      };
+      change.count++;
+      patternKeyChanges.set(key, change);
+    }
+    entry.classification =
+      classify(base, target) ??
+      (entry.differenceCount > 0 ||
+      patternKeyChanged ||
+      base.statusCode !== target.statusCode
+        ? "changed"
+        : "unchanged");
+
+    if (entry.classification === "newly_failing")
+      entry.regression = `newly failing${target.errorMessage ? `: ${target.errorMessage}` : ""}`;
+    else if (
+      entry.baseF1 !== undefined &&
+      entry.targetF1 !== undefined &&
+      entry.targetF1 < entry.baseF1 - F1_EPSILON
+    )
+      entry.regression = `accuracy F1 ${(entry.baseF1 * 100).toFixed(1)}% → ${(entry.targetF1 * 100).toFixed(1)}%`;
+  }
+
+  const counts = Object.fromEntries(DIFF_CLASSES.map((c) => [c, 0])) as Record<
+    RunDiffClass,
+    number
+  >;
+  for (const e of entries) counts[e.classification]++;
+  const paired = entries.filter(
+    (e) =>
+      e.classification !== "only_in_base" &&
+      e.classification !== "only_in_target",
+  ).length;
+  const regressions = entries.filter((e) => e.regression).length;
+  const regressionRate = paired > 0 ? regressions / paired : 0;
+  return {
+    baseRunId,
+    targetRunId,
+    generatedAt: new Date().toISOString(),
+    ignorePaths,
+    counts,
+    paired,
+    regressions,
+    regressionRate,
+    maxRegressions,
+    maxRegressionRate,
+    thresholdExceeded:
+      regressions > maxRegressions ||
+      (maxRegressionRate !== undefined && regressionRate > maxRegressionRate),
+    patternKeyChanges: [...patternKeyChanges.values()].sort(
+      (a, b) => b.count - a.count,
+    ),
+    changedPaths: [...changedPaths.entries()]
+      .map(([path, files]) => ({ path, files }))
+      .sort((a, b) => b.files - a.files || a.path.localeCompare(b.path))
+      .slice(0, MAX_CHANGED_PATHS),
+    entries,
+  };
+}
+
+/** Readable label of a diff class ("newly_failing" -> "newly failing"). */
+export function formatDiffClass(c: RunDiffClass): string {
+  return c.replaceAll("_", " ");
+}
+
+/** Console summary of a diff (counts, pattern key changes, regressions). */
+export function formatRunDiff(diff: RunDiff): string {
+  const lines = [
+    `Diff ${diff.baseRunId} → ${diff.targetRunId}: ${diff.paired} paired file(s)`,
+    "  " +
+      DIFF_CLASSES.filter((c) => diff.counts[c] > 0)
+        .map((c) => `${formatDiffClass(c)} ${diff.counts[c]}`)
+        .join(", "),
+  ];
+  const uncompared = diff.entries.filter(
+    (e) =>
+      !e.contentCompared &&
+      e.baseStatus !== undefined &&
+      e.targetStatus !== undefined,
+  ).length;
+  if (uncompared > 0)
+    lines.push(
+      `  ${uncompared} pair(s) without stored results in both runs: compared by status and pattern key only`,
+    );
+  for (const p of diff.patternKeyChanges)
+    lines.push(
+      `  Pattern key ${p.basePatternKey || "(none)"} → ${p.targetPatternKey || "(none)"}: ${p.count} file(s)`,
+    );
+  for (const e of diff.entries.filter((x) => x.regression))
+    lines.push(`  REGRESSION ${e.filePath}: ${e.regression}`);
+  const rateLimit =
+    diff.maxRegressionRate !== undefined
+      ? `, max rate ${(diff.maxRegressionRate * 100).toFixed(1)}%`
+      : "";
+  lines.push(
+    `Regressions: ${diff.regressions} (${(diff.regressionRate * 100).toFixed(1)}% of paired; allowed ${diff.maxRegressions}${rateLimit}) — ${diff.thresholdExceeded ? "FAILED" : "OK"}`,
+  );
+  return lines.join("\n");
+}
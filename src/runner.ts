@@ -5,30 +5,55 @@
 import PQueue from "p-queue";
 import { loadConfig } from "./config.js";
 import { syncAllBuckets, type SyncResult } from "./s3-sync.js";
+import { refreshDiscoveredTenants } from "./tenant-discovery.js";
 import {
   runExtraction,
   extractOneFile,
+  createRunLoadProfileGate,
+  createRunConcurrencyController,
+  initRunCircuitBreaker,
+  initRunRecovery,
+  drainOnShutdown,
+  finishRunResults,
+  initResultStore,
   type FileJob,
   type LoadEngineResult,
   type ExtractionFailure,
   NetworkAbortError,
 } from "./load-engine.js";
+import { initRetryBudget } from "./retry-policy.js";
+import { initExtractOptions } from "./extract-options.js";
+import { closeCircuitBreaker } from "./circuit-breaker.js";
+import {
+  maxLoadProfileConcurrency,
+  type ActiveLoadStage,
+} from "./load-profile.js";
 import {
   openCheckpointDb,
   getCurrentRunId,
   startRun,
   getCompletedPaths,
+  getErrorPaths,
   upsertCheckpoints,
   getRecordsForRun,
   closeCheckpointDb,
   getCumulativeStats,
+  invalidateFiles,
 } from "./checkpoint.js";
-import { saveResumeState, clearResumeState } from "./resume-state.js";
+import {
+  markDownloadStarted,
+  markDownloadFinished,
+  loadPartialDownloads,
+} from "./resume-state.js";
 import {
   initRequestResponseLogger,
   closeRequestResponseLogger,
 } from "./logger.js";
+import { initExtractDispatcher, closeExtractDispatcher } from "./api-client.js";
+import { initResultsSink } from "./results-sink.js";
 import { computeMetrics } from "./metrics.js";
+import { applyBaseline, evaluateRunBaseline } from "./baseline.js";
+import { applySlo } from "./slo.js";
 import { sendConsolidatedFailureEmail } from "./mailer.js";
 import type { Config, RunMetrics } from "./types.js";
 
@@ -72,6 +97,8 @@ export interface PipelineOptions extends RunOptions {
   onResumeSkip?: (skipped: number, total: number) => void;
   /** Optional callback during sync when files are skipped (already present): (skipped, totalProcessed) for "Skipping synced files" progress. */
   onSyncSkipProgress?: (skipped: number, totalProcessed: number) => void;
+  /** List every bucket in full even when s3.listing.incremental allows a watermark listing. */
+  fullListing?: boolean;
 }
 
 export interface FullRunResult {
@@ -115,6 +142,7 @@ export async function runFull(
   options: RunOptions = {},
 ): Promise<FullRunResult> {
   const config = loadConfig(options.configPath);
+  if (!options.skipSync) await refreshDiscoveredTenants(config);
   const bucketsFilter =
     options.pairs && options.pairs.length > 0
       ? filterBucketsByPairs(config.s3.buckets, options.pairs)
@@ -149,6 +177,8 @@ export async function runFull(
     runResult.startedAt,
     runResult.finishedAt,
   );
+  applyBaseline(metrics, runResult.baseline);
+  applySlo(config, metrics, runResult.records);
 
   return {
     config,
@@ -176,6 +206,7 @@ export async function runSyncExtractPipeline(
   options: PipelineOptions = {},
 ): Promise<FullRunResult> {
   const config = loadConfig(options.configPath);
+  await refreshDiscoveredTenants(config);
   const bucketsFilter =
     options.pairs && options.pairs.length > 0
       ? filterBucketsByPairs(config.s3.buckets, options.pairs)
@@ -192,10 +223,16 @@ export async function runSyncExtractPipeline(
     limit !== undefined && limit > 0 ? limit : undefined;
 
   const db = openCheckpointDb(config.run.checkpointPath);
+  const stopHeartbeat = initRunRecovery(db);
   const runId =
     options.runId ??
     (options.resume ? (getCurrentRunId(db) ?? startRun(db)) : startRun(db));
   initRequestResponseLogger(config, runId);
+  initExtractDispatcher(config);
+  initRetryBudget(config);
+  initExtractOptions(config);
+  initResultStore(config);
+  initResultsSink(config, db);
 
   const stdoutPiped = !process.stdout.isTTY;
   const limitNum = limit ?? 0; // Use 0 if limit is undefined for output purposes
@@ -218,22 +255,26 @@ export async function runSyncExtractPipeline(
     }
   }
 
-  const concurrency = config.run.concurrency;
+  const loadProfileGate = createRunLoadProfileGate(config);
+  const concurrency = loadProfileGate
+    ? maxLoadProfileConcurrency(config.run.loadProfile!, config.run.concurrency)
+    : config.run.concurrency;
   const extractionQueue = new PQueue({ concurrency });
+  const concurrencyController = createRunConcurrencyController(
+    config,
+    extractionQueue,
+  );
+  initRunCircuitBreaker(config, db, runId);
 
   // If retryFailed is on, we ONLY want to extract files that previously failed
-  const errorPaths = options.retryFailed
-    ? new Set(
-        db._data.checkpoints
-          .filter((c) => c.status === "error")
-          .map((c) => c.file_path),
-      )
-    : null;
+  const errorPaths = options.retryFailed ? getErrorPaths(db) : null;
 
   const startedAt = new Date();
   let syncResults: SyncResult[] = [];
   let extractionQueued = 0;
   let extractionDone = 0;
+  // Queued files the load profile (or a stop) left for a later run; not counted as done.
+  let extractionNotStarted = 0;
   const failures: ExtractionFailure[] = [];
   const skippedRecords: Array<{
     filePath: string;
@@ -242,23 +283,41 @@ export async function runSyncExtractPipeline(
     status: "skipped";
     runId: string;
   }> = [];
+  const filteredRecords: Array<{
+    filePath: string;
+    relativePath: string;
+    brand: string;
+    status: "filtered";
+    errorMessage: string;
+    runId: string;
+  }> = [];
 
   let aborted = false;
+  const stopDraining = drainOnShutdown(extractionQueue, () => {
+    aborted = true;
+    extractionQueue.clear();
+    loadProfileGate?.close();
+  });
 
   const onFileSynced = (job: FileJob) => {
     if (aborted) return;
-    clearResumeState(config);
     extractionQueued++;
 
     if (errorPaths && !errorPaths.has(job.filePath)) {
       extractionDone++;
-      options.onExtractionProgress?.(extractionDone, extractionQueued);
+      options.onExtractionProgress?.(
+        extractionDone,
+        extractionQueued - extractionNotStarted,
+      );
       return;
     }
 
     if (completed.has(job.filePath) && !errorPaths?.has(job.filePath)) {
       extractionDone++;
-      options.onExtractionProgress?.(extractionDone, extractionQueued);
+      options.onExtractionProgress?.(
+        extractionDone,
+        extractionQueued - extractionNotStarted,
+      );
       skippedRecords.push({
         filePath: job.filePath,
         relativePath: job.relativePath,
@@ -272,11 +331,29 @@ export async function runSyncExtractPipeline(
       return; // Skip adding to queue
     }
     extractionQueue.add(async () => {
-      if (aborted) return;
+      let loadStage: ActiveLoadStage | null | undefined;
+      let dispatched = false;
       try {
-        await extractOneFile(config, runId, db, job, (f) => {
-          failures.push(f);
-        });
+        if (aborted) return;
+        if (loadProfileGate) {
+          loadStage = await loadProfileGate.acquire();
+          if (!loadStage) return; // profile finished: leave the file for the next run
+        }
+        dispatched = true;
+        const sample = await extractOneFile(
+          config,
+          runId,
+          db,
+          job,
+          (f) => {
+            failures.push(f);
+          },
+          {
+            loadStage: loadStage ?? undefined,
+            concurrencyLimit: concurrencyController?.concurrency,
+          },
+        );
+        if (sample) concurrencyController?.record(sample);
       } catch (err) {
         if (err instanceof NetworkAbortError) {
           aborted = true;
@@ -290,11 +367,18 @@ export async function runSyncExtractPipeline(
         }
         throw err;
       } finally {
-        extractionDone++;
-        options.onExtractionProgress?.(extractionDone, extractionQueued);
-        try {
-          options.onFileComplete?.(runId);
-        } catch (_) {}
+        if (loadStage) loadProfileGate?.release();
+        if (dispatched) extractionDone++;
+        else extractionNotStarted++;
+        options.onExtractionProgress?.(
+          extractionDone,
+          extractionQueued - extractionNotStarted,
+        );
+        if (dispatched) {
+          try {
+            options.onFileComplete?.(runId);
+          } catch (_) {}
+        }
       }
     });
   };
@@ -305,28 +389,51 @@ export async function runSyncExtractPipeline(
     onProgress: options.onProgress,
     onSyncSkipProgress: options.onSyncSkipProgress,
     onFileSynced,
-    onStartDownload: (destPath, manifestKey) => {
-      saveResumeState(config, {
-        syncInProgressPath: destPath,
-        syncInProgressManifestKey: manifestKey,
+    orderedFileSynced: true,
+    onStartDownload: (destPath, manifestKey, etag) =>
+      markDownloadStarted(config, destPath, manifestKey, etag),
+    onFinishDownload: (destPath) => markDownloadFinished(config, destPath),
+    // Changed content: extract it again in this run (onFileSynced follows).
+    onFileReplaced: (destPath) => {
+      invalidateFiles(db, [destPath]);
+      completed.delete(destPath);
+    },
+    onFileFiltered: (file) => {
+      filteredRecords.push({
+        filePath: file.filePath,
+        relativePath: file.relativePath,
+        brand: file.brand,
+        status: "filtered",
+        errorMessage: file.reason,
+        runId,
       });
     },
     alreadyExtractedPaths: completed.size > 0 ? completed : undefined,
+    partialDownloads: loadPartialDownloads(config),
+    fullListing: options.fullListing,
   });
 
   if (skippedRecords.length > 0) {
     upsertCheckpoints(db, skippedRecords);
   }
+  if (filteredRecords.length > 0) {
+    upsertCheckpoints(db, filteredRecords);
+  }
 
   await extractionQueue.onIdle();
+  loadProfileGate?.close();
+  stopDraining();
 
   const finishedAt = new Date();
+  await finishRunResults(config, db, runId);
   const records = getRecordsForRun(db, runId);
 
   const metrics = computeMetrics(runId, records, startedAt, finishedAt);
+  const baseline = evaluateRunBaseline(config, db, runId, records, metrics);
+  applySlo(config, metrics, records);
 
-  // Send consolidated failure email if any failures occurred
-  if (failures.length > 0) {
+  // Send consolidated email if any failures or baseline regressions occurred
+  if (failures.length > 0 || (baseline?.regressions ?? 0) > 0) {
     void sendConsolidatedFailureEmail(runId, failures, metrics);
   }
 
@@ -343,13 +450,17 @@ export async function runSyncExtractPipeline(
     );
   }
 
+  closeCircuitBreaker();
+  await closeExtractDispatcher();
   closeRequestResponseLogger();
+  stopHeartbeat();
   closeCheckpointDb(db);
   const runResult: LoadEngineResult = {
     runId,
     records,
     startedAt,
     finishedAt,
+    baseline,
   };
 
   return {
@@ -0,0 +1,177 @@
+/**
+ * Run listing and per-file views over the checkpoint store, for `runs list` and `runs show`.
+ */
+
+import { getAllRecords, getAllRunIdsOrdered } from "./checkpoint.js";
+import type { CheckpointDb } from "./checkpoint.js";
+import { formatDuration } from "./report.js";
+import type { CheckpointRecord, CheckpointStatus } from "./types.js";
+
+const MAX_SCOPE_LABELS = 3;
+const MAX_ERROR_CHARS = 80;
+
+export interface RunListEntry {
+  runId: string;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs: number;
+  /** Files in the run, not counting filtered ones. */
+  total: number;
+  counts: Record<CheckpointStatus, number>;
+  /** Distinct tenant (brand) / purchaser pairs in the run. */
+  scope: { tenant: string; purchaser?: string }[];
+}
+
+export interface RunRecordFilter {
+  status?: string;
+  brand?: string;
+  purchaser?: string;
+  statusCode?: number;
+}
+
+/** One entry per run, latest first (same order as getAllRunIdsOrdered). */
+export function listRuns(db: CheckpointDb): RunListEntry[] {
+  const byRun = new Map<string, CheckpointRecord[]>();
+  for (const r of getAllRecords(db)) {
+    const list = byRun.get(r.runId) ?? [];
+    list.push(r);
+    byRun.set(r.runId, list);
+  }
+  return getAllRunIdsOrdered(db).map((runId) =>
+    summarizeRun(runId, byRun.get(runId) ?? []),
+  );
+}
+
+function summarizeRun(
+  runId: string,
+  records: CheckpointRecord[],
+): RunListEntry {
+  const counts: Record<CheckpointStatus, number> = {
+    pending: 0,
+    running: 0,
+    done: 0,
+    error: 0,
+    skipped: 0,
+    interrupted: 0,
+    filtered: 0,
+  };
+  let startedAt: string | undefined;
+  let finishedAt: string | undefined;
+  const scope = new Map<string, { tenant: string; purchaser?: string }>();
+  for (const r of records) {
+    counts[r.status] = (counts[r.status] ?? 0) + 1;
+    if (r.startedAt && (!startedAt || r.startedAt < startedAt)) {
+      startedAt = r.startedAt;
+    }
+    if (r.finishedAt && (!finishedAt || r.finishedAt > finishedAt)) {
+      finishedAt = r.finishedAt;
+    }
+    scope.set(`${r.brand}\0${r.purchaser ?? ""}`, {
+      tenant: r.brand,
+      purchaser: r.purchaser,
+    });
+  }
+  const durationMs =
+    startedAt && finishedAt
+      ? Math.max(0, Date.parse(finishedAt) - Date.parse(startedAt))
+      : 0;
+  return {
+    runId,
+    startedAt,
+    finishedAt,
+    durationMs,
+    total: records.length - counts.filtered,
+    counts,
+    scope: [...scope.values()],
+  };
+}
+
+export function filterRunRecords(
+  records: CheckpointRecord[],
+  filter: RunRecordFilter,
+): CheckpointRecord[] {
+  return records.filter(
+    (r) =>
+      (!filter.status || r.status === filter.status) &&
+      (!filter.brand || r.brand === filter.brand) &&
+      (!filter.purchaser || r.purchaser === filter.purchaser) &&
+      (filter.statusCode === undefined || r.statusCode === filter.statusCode),
+  );
+}
+
+function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((h, i) =>
+    Math.max(h.length, ...rows.map((r) => r[i].length)),
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((c, i) => c.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+  return [
+    line(headers),
+    line(widths.map((w) => "-".repeat(w))),
+    ...rows.map(line),
+  ].join("\n");
+}
+
+function formatScope(scope: RunListEntry["scope"]): string {
+  const labels = scope.map((s) =>
+    s.purchaser ? `${s.tenant}/${s.purchaser}` : s.tenant,
+  );
+  if (labels.length <= MAX_SCOPE_LABELS) return labels.join(", ");
+  return `${labels.slice(0, MAX_SCOPE_LABELS).join(", ")} +${labels.length - MAX_SCOPE_LABELS} more`;
+}
+
+export function formatRunList(entries: RunListEntry[]): string {
+  if (entries.length === 0) return "No runs in the checkpoint store.";
+  return formatTable(
+    [
+      "Run ID",
+      "Started",
+      "Duration",
+      "Files",
+      "Done",
+      "Error",
+      "Skipped",
+      "Running",
+      "Interrupted",
+      "Filtered",
+      "Scope",
+    ],
+    entries.map((e) => [
+      e.runId,
+      e.startedAt ?? "-",
+      e.durationMs > 0 ? formatDuration(e.durationMs) : "-",
+      String(e.total),
+      String(e.counts.done),
+      String(e.counts.error),
+      String(e.counts.skipped),
+      String(e.counts.running + e.counts.pending),
+      String(e.counts.interrupted),
+      String(e.counts.filtered),
+      formatScope(e.scope),
+    ]),
+  );
+}
+
+export function formatRunRecords(records: CheckpointRecord[]): string {
+  if (records.length === 0) return "No matching files.";
+  return formatTable(
+    ["Status", "Code", "Latency", "Brand", "Purchaser", "File", "Error"],
+    records.map((r) => {
+      const error = (r.errorMessage ?? "").replace(/\s+/g, " ");
+      return [
+        r.status,
+        r.statusCode != null ? String(r.statusCode) : "-",
+        r.latencyMs != null ? `${r.latencyMs}ms` : "-",
+        r.brand,
+        r.purchaser ?? "-",
+        r.relativePath,
+        error.length > MAX_ERROR_CHARS
+          ? error.slice(0, MAX_ERROR_CHARS) + "…"
+          : error,
+      ];
+    }),
+  );
+}
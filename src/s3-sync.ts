@@ -1,61 +1,58 @@
 /**
- * Sync files from brand-specific S3 buckets to a local staging directory.
+ * Sync files from brand-specific S3 buckets (or file:// directories, see sync-source.ts) to a local staging directory.
  * Structure: staging/<brand>/<purchaser>/<key after prefix> (purchaser-wise subfolders per brand).
  * Supports syncLimit (max files to download) and SHA-256 skip for already-downloaded unchanged files.
+ * Downloads run in a pool of s3.downloadConcurrency (default 1) shared by all buckets of a sync.
  */
 
+import PQueue from "p-queue";
 import {
-  ListObjectsV2Command,
-  GetObjectCommand,
-  S3Client,
-} from "@aws-sdk/client-s3";
-import {
-  createWriteStream,
-  createReadStream,
+  copyFileSync,
   mkdirSync,
   existsSync,
+  readdirSync,
   readFileSync,
+  renameSync,
+  unlinkSync,
   writeFileSync,
   statSync,
 } from "node:fs";
 import { join, dirname, relative } from "node:path";
-import { pipeline } from "node:stream/promises";
-import { Readable } from "node:stream";
-import { createHash } from "node:crypto";
-import type { Config, S3BucketConfig } from "./types.js";
-
-function getS3Client(region: string): S3Client {
-  return new S3Client({ region });
-}
-
-async function listAllKeys(
-  client: S3Client,
-  bucket: string,
-  prefix: string,
-): Promise<{ key: string; etag: string; size: number }[]> {
-  const keys: { key: string; etag: string; size: number }[] = [];
-  let continuationToken: string | undefined;
-  do {
-    const cmd = new ListObjectsV2Command({
-      Bucket: bucket,
-      Prefix: prefix || undefined,
-      ContinuationToken: continuationToken,
-    });
-    const out = await client.send(cmd);
-    const contents = out.Contents ?? [];
-    for (const obj of contents) {
-      if (obj.Key) {
-        keys.push({
-          key: obj.Key,
-          etag: obj.ETag?.replace(/"/g, "") || "",
-          size: obj.Size ?? 0,
-        });
-      }
-    }
-    continuationToken = out.NextContinuationToken;
-  } while (continuationToken);
-  return keys;
-}
+import type {
+  Config,
+  PruneMode,
+  S3BucketConfig,
+  S3ListingConfig,
+  FileFilterConfig,
+} from "./types.js";
+import { compileFileFilter } from "./file-filter.js";
+import type { SyncDecision, SyncListingSummary } from "./sync-history.js";
+import {
+  invalidateFiles,
+  openCheckpointDb,
+  closeCheckpointDb,
+} from "./checkpoint.js";
+import { isShutdownRequested } from "./shutdown.js";
+import { formatDuration } from "./report.js";
+import {
+  computeFileSha256,
+  createSyncSourceResolver,
+  PART_SUFFIX,
+  type PartialDownload,
+  type SyncSource,
+} from "./sync-source.js";
+import {
+  estimateSavedMs,
+  getWatermarksPath,
+  incrementalWatermark,
+  isBelowWatermark,
+  loadWatermarks,
+  nextWatermark,
+  saveWatermarks,
+  watermarkKey,
+  type ListingStats,
+  type Watermarks,
+} from "./sync-watermark.js";
 
 function manifestKey(brand: string, key: string): string {
   return `${brand}/${key}`;
@@ -97,16 +94,6 @@ function saveSyncManifest(
   writeFileSync(manifestPath, JSON.stringify(data, null, 0), "utf-8");
 }
 
-async function computeFileSha256(filePath: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const hash = createHash("sha256");
-    const rs = createReadStream(filePath);
-    rs.on("data", (chunk: Buffer | string) => hash.update(chunk));
-    rs.on("end", () => resolve(hash.digest("hex")));
-    rs.on("error", reject);
-  });
-}
-
 /** Returns true if file exists and headers/manifest match (skip re-download). */
 async function skipIfUnchanged(
   destPath: string,
@@ -155,27 +142,62 @@ async function skipIfUnchanged(
   return false;
 }
 
-async function downloadToFile(
-  client: S3Client,
-  bucket: string,
-  key: string,
-  destPath: string,
-): Promise<void> {
-  const dir = dirname(destPath);
-  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
-  const cmd = new GetObjectCommand({ Bucket: bucket, Key: key });
-  const response = await client.send(cmd);
-  const body = response.Body as Readable;
-  if (!body) throw new Error(`No body for s3://${bucket}/${key}`);
-  const ws = createWriteStream(destPath);
-  await pipeline(body, ws);
+/** Download pool shared by every bucket of one sync. */
+export interface DownloadPool {
+  queue: PQueue;
+  /** Downloads reserved against limitRemaining that have not finished yet. */
+  reserved: number;
+  /** Woken whenever a reserved download finishes. */
+  waiters: (() => void)[];
+}
+
+export function createDownloadPool(concurrency: number): DownloadPool {
+  return { queue: new PQueue({ concurrency }), reserved: 0, waiters: [] };
+}
+
+function waitForReservedDownload(pool: DownloadPool): Promise<void> {
+  return new Promise((resolve) => pool.waiters.push(resolve));
+}
+
+type SyncedFile = { filePath: string; relativePath: string; brand: string };
+
+/**
+ * Calls onFileSynced for each key that was reserved with next(). When ordered, files are delivered in
+ * listing order even though parallel downloads finish out of order (a failed key is passed as null).
+ */
+function createFileSyncedEmitter(
+  onFileSynced: ((job: SyncedFile) => void) | undefined,
+  ordered: boolean,
+) {
+  let nextSeq = 0;
+  let nextToEmit = 0;
+  const ready = new Map<number, SyncedFile | null>();
+  return {
+    next: () => nextSeq++,
+    done(seq: number, job: SyncedFile | null): void {
+      if (!onFileSynced) return;
+      if (!ordered) {
+        if (job) onFileSynced(job);
+        return;
+      }
+      ready.set(seq, job);
+      while (ready.has(nextToEmit)) {
+        const file = ready.get(nextToEmit);
+        ready.delete(nextToEmit);
+        nextToEmit++;
+        if (file) onFileSynced(file);
+      }
+    },
+  };
 }
 
 /**
  * Sync one bucket to stagingDir/brandName/ with optional limit and SHA-256 skip.
+ * Downloads go through `options.pool`; a download reserves one unit of limitRemaining when it is queued
+ * and gives it back if it fails, so the limit is honoured exactly with several downloads in flight.
  */
 export async function syncBucket(
-  client: S3Client,
+  source: SyncSource,
   bucketConfig: S3BucketConfig,
   stagingDir: string,
   options: {
@@ -195,23 +217,71 @@ export async function syncBucket(
       brand: string;
     }) => void;
     /** When set, called before downloading a file (for resume: persist in-progress path so partial can be removed). */
-    onStartDownload?: (destPath: string, manifestKey: string) => void;
+    onStartDownload?: (
+      destPath: string,
+      manifestKey: string,
+      etag: string,
+    ) => void;
+    /** When set, called when a download started with onStartDownload has finished (or failed). */
+    onFinishDownload?: (destPath: string) => void;
     /** When set, paths in this set are treated as already extracted; skip file read/SHA check and count as skipped. */
     alreadyExtractedPaths?: Set<string>;
+    /** `.part` files left by an interrupted run, by destination path (continued with a ranged GET). */
+    partialDownloads?: Map<string, PartialDownload>;
+    /** Shared download pool (default: one download at a time). */
+    pool?: DownloadPool;
+    /** Deliver onFileSynced in listing order instead of completion order. */
+    orderedFileSynced?: boolean;
+    /** When set, called (before onFileSynced) when a download replaced a staged file whose object changed. */
+    onFileReplaced?: (destPath: string) => void;
+    /** Remove ("delete") or move ("quarantine") staged files whose object is gone. Default: "off". */
+    prune?: PruneMode;
+    /** Destination for prune: "quarantine" (required for that mode). */
+    quarantineDir?: string;
+    /** Replace / prune decisions are appended here (for the sync history). */
+    decisions?: SyncDecision[];
+    /** s3.listing; with `watermarks` set, the bucket's watermark is read and advanced in place. */
+    listing?: S3ListingConfig;
+    watermarks?: Watermarks;
+    /** List everything even when the watermark allows an incremental listing. */
+    fullListing?: boolean;
+    /** run.filter, applied together with the bucket entry's own filter. */
+    runFilter?: FileFilterConfig;
+    /** When set, called for each object left out by the filters (pipeline: record it as filtered). */
+    onFileFiltered?: (file: FilteredFile) => void;
   },
-): Promise<{
-  brand: string;
-  purchaser: string;
-  stagingPath: string;
-  synced: number;
-  skipped: number;
-  errors: number;
-}> {
+): Promise<SyncResult> {
   const prefix = bucketConfig.prefix ?? "";
-  const keys = await listAllKeys(client, bucketConfig.bucket, prefix);
+  const wmKey = watermarkKey(bucketConfig);
+  const mark = options.watermarks
+    ? incrementalWatermark(
+        options.listing,
+        options.watermarks[wmKey],
+        options.fullListing === true,
+      )
+    : null;
+  const startAfter =
+    mark && options.listing?.keysSortedByTime ? mark.lastKey : undefined;
+  const listStarted = Date.now();
+  const listedKeys = await source.list(prefix, startAfter);
+  const listMs = Date.now() - listStarted;
+  // Incremental: objects below the watermark were synced by an earlier run; skip them without any checks.
+  const keys = mark
+    ? listedKeys.filter((o) => !isBelowWatermark(o.lastModified, mark))
+    : listedKeys;
+  const handled: boolean[] = keys.map(() => false);
+  let checkMs = 0;
+  let checks = 0;
   let synced = 0;
   let skipped = 0;
   let errors = 0;
+  let replaced = 0;
+  let pruned = 0;
+  const filteredFiles: FilteredFile[] = [];
+  const fileFilter = compileFileFilter([
+    bucketConfig.filter,
+    options.runFilter,
+  ]);
   const brand = bucketConfig.name;
   const brandDir = join(stagingDir, brand);
   const purchaser =
@@ -219,44 +289,90 @@ export async function syncBucket(
     (bucketConfig.name.includes("__") ? bucketConfig.name.split("__")[1] : "");
   if (!existsSync(brandDir)) mkdirSync(brandDir, { recursive: true });
   const stagingPathForResult = purchaser ? join(brandDir, purchaser) : brandDir;
+  const destPathFor = (key: string): string => {
+    const keyAfterPrefix =
+      prefix && key.startsWith(prefix) ? key.slice(prefix.length) : key;
+    return purchaser
+      ? join(brandDir, purchaser, keyAfterPrefix)
+      : join(brandDir, key);
+  };
+
+  const pool = options.pool ?? createDownloadPool(1);
+  const fileSynced = createFileSyncedEmitter(
+    options.onFileSynced,
+    options.orderedFileSynced === true,
+  );
+  const downloads: Promise<void>[] = [];
 
   const reportProgress = () => {
     if (!options.onProgress) return;
     const total = options.initialLimit > 0 ? options.initialLimit : keys.length;
     const done =
       options.initialLimit > 0
-        ? options.initialLimit - options.limitRemaining.value
+        ? options.initialLimit - options.limitRemaining.value - pool.reserved
         : synced + skipped + errors;
     options.onProgress(done, total);
   };
   reportProgress(); // Initial reporting of 0/Total (or 0/0)
 
-  for (const { key, etag, size } of keys) {
-    if (options.limitRemaining.value <= 0) break;
+  for (const [index, { key, etag, size, lastModified }] of keys.entries()) {
+    // When the limit is used up by downloads still in flight, wait for them: a failed one frees its slot.
+    // Stop queuing on SIGTERM/SIGINT; downloads in flight finish (the manifest is still saved).
+    while (options.limitRemaining.value <= 0 && pool.reserved > 0) {
+      await waitForReservedDownload(pool);
+    }
+    if (options.limitRemaining.value <= 0 || isShutdownRequested()) break;
 
-    const keyAfterPrefix =
-      prefix && key.startsWith(prefix) ? key.slice(prefix.length) : key;
-    const destPath = purchaser
-      ? join(brandDir, purchaser, keyAfterPrefix)
-      : join(brandDir, key);
+    const destPath = destPathFor(key);
+    const filteredBy = fileFilter?.({
+      path: relative(stagingPathForResult, destPath).replace(/\\/g, "/"),
+      size,
+      lastModified,
+    });
+    if (filteredBy) {
+      handled[index] = true;
+      const file: FilteredFile = {
+        key,
+        filePath: destPath,
+        relativePath: relative(brandDir, destPath).replace(/\\/g, "/"),
+        brand,
+        reason: filteredBy,
+      };
+      filteredFiles.push(file);
+      options.onFileFiltered?.(file);
+      continue;
+    }
     const mk = manifestKey(brand, key);
-
-    if (options.alreadyExtractedPaths?.has(destPath)) {
+    const previous = options.manifest[mk];
+    // A staged file whose object has a new ETag/size is downloaded again; it is only extracted again
+    // when the new content differs (see previousSha below).
+    const changed =
+      typeof previous === "object" &&
+      (previous.etag !== etag || previous.size !== size);
+    const job: SyncedFile = {
+      filePath: destPath,
+      relativePath: relative(brandDir, destPath).replace(/\\/g, "/"),
+      brand,
+    };
+
+    if (!changed && options.alreadyExtractedPaths?.has(destPath)) {
+      handled[index] = true;
       skipped++;
       options.onSyncSkipProgress?.(skipped, skipped + synced);
-      if (options.onFileSynced) {
-        const relativePath = relative(brandDir, destPath).replace(/\\/g, "/");
-        options.onFileSynced({ filePath: destPath, relativePath, brand });
-      }
+      fileSynced.done(fileSynced.next(), job);
       reportProgress();
       continue;
     }
 
+    const checkStarted = Date.now();
     const shouldSkip = await skipIfUnchanged(destPath, mk, options.manifest, {
       etag,
       size,
     });
+    checkMs += Date.now() - checkStarted;
+    checks++;
     if (shouldSkip) {
+      handled[index] = true;
       skipped++;
       options.onSyncSkipProgress?.(skipped, skipped + synced);
       // Ensure manifest has the latest info (may have been legacy or recovery)
@@ -267,39 +383,131 @@ export async function syncBucket(
         // We only save if it's been updated.
         saveSyncManifest(options.manifestPath, options.manifest);
       }
-      if (options.onFileSynced) {
-        const relativePath = relative(brandDir, destPath).replace(/\\/g, "/");
-        options.onFileSynced({ filePath: destPath, relativePath, brand });
-      }
+      fileSynced.done(fileSynced.next(), job);
       reportProgress();
       continue;
     }
 
-    try {
-      options.onStartDownload?.(destPath, mk);
-      await downloadToFile(client, bucketConfig.bucket, key, destPath);
-      const sha = await computeFileSha256(destPath);
-      options.manifest[mk] = { sha256: sha, etag, size };
-      synced++;
-      options.onSyncSkipProgress?.(skipped, skipped + synced);
-      options.limitRemaining.value--;
-      // Throttle manifest writes: save every 20 downloads to reduce I/O pressure
-      if (synced % 20 === 0) {
-        saveSyncManifest(options.manifestPath, options.manifest);
-      }
-      if (options.onFileSynced) {
-        const relativePath = relative(brandDir, destPath).replace(/\\/g, "/");
-        options.onFileSynced({ filePath: destPath, relativePath, brand });
-      }
-      reportProgress();
-    } catch (e) {
-      errors++;
-      console.error(
-        `Failed to download s3://${bucketConfig.bucket}/${key}:`,
-        e,
-      );
-      reportProgress();
+    // Keep the pool's backlog short so the limit and shutdown checks stay current.
+    await pool.queue.onSizeLessThan(pool.queue.concurrency);
+    // Other buckets may have used up the limit while this one waited for the pool.
+    while (options.limitRemaining.value <= 0 && pool.reserved > 0) {
+      await waitForReservedDownload(pool);
     }
+    if (options.limitRemaining.value <= 0 || isShutdownRequested()) break;
+
+    options.limitRemaining.value--;
+    pool.reserved++;
+    const seq = fileSynced.next();
+    const download = async (): Promise<void> => {
+      let ok = false;
+      try {
+        if (isShutdownRequested()) return;
+        options.onStartDownload?.(destPath, mk, etag);
+        try {
+          // Only a download whose content differs from the staged file replaces it (a new ETag alone,
+          // e.g. after a metadata-only copy, does not invalidate the file's extraction).
+          const previousSha =
+            typeof previous === "object"
+              ? previous.sha256
+              : (previous ??
+                (existsSync(destPath)
+                  ? await computeFileSha256(destPath)
+                  : undefined));
+          const sha = await source.download(
+            { key, etag, size, lastModified },
+            destPath,
+            options.partialDownloads?.get(destPath),
+          );
+          options.manifest[mk] = { sha256: sha, etag, size };
+          synced++;
+          ok = true;
+          handled[index] = true;
+          if (previousSha !== undefined && previousSha !== sha) {
+            replaced++;
+            options.decisions?.push({
+              action: "replaced",
+              brand,
+              key,
+              path: destPath,
+              previousEtag:
+                typeof previous === "object" ? previous.etag : undefined,
+              etag,
+            });
+            options.onFileReplaced?.(destPath);
+          }
+          options.onSyncSkipProgress?.(skipped, skipped + synced);
+          // Throttle manifest writes: save every 20 downloads to reduce I/O pressure
+          if (synced % 20 === 0) {
+            saveSyncManifest(options.manifestPath, options.manifest);
+          }
+        } catch (e) {
+          errors++;
+          console.error(`Failed to download ${source.describe(key)}:`, e);
+        } finally {
+          options.onFinishDownload?.(destPath);
+        }
+      } finally {
+        if (!ok) options.limitRemaining.value++;
+        pool.reserved--;
+        for (const wake of pool.waiters.splice(0)) wake();
+        fileSynced.done(seq, ok ? job : null);
+        reportProgress();
+      }
+    };
+    downloads.push(pool.queue.add(download));
+  }
+
+  await Promise.all(downloads);
+
+  // The listing is complete even when the limit or a shutdown stopped the loop, so pruning stays exact;
+  // it is skipped on shutdown only to exit promptly. Incremental listings do not show every object.
+  if (
+    options.prune &&
+    options.prune !== "off" &&
+    !mark &&
+    !isShutdownRequested()
+  ) {
+    pruned = pruneStagedFiles({
+      brand,
+      brandDir,
+      prefix,
+      purchaser,
+      listed: new Set(listedKeys.map((k) => destPathFor(k.key))),
+      manifest: options.manifest,
+      mode: options.prune,
+      quarantineDir: options.quarantineDir,
+      decisions: options.decisions,
+    });
+  }
+
+  const listing: ListingStats = {
+    mode: mark ? "incremental" : "full",
+    listMs,
+    listed: listedKeys.length,
+    skippedByWatermark: listedKeys.length - keys.length,
+    estimatedSavedMs: 0,
+  };
+  if (mark) {
+    listing.estimatedSavedMs = estimateSavedMs(
+      mark,
+      listing,
+      startAfter !== undefined,
+    );
+  }
+  if (options.watermarks && options.listing?.incremental) {
+    options.watermarks[wmKey] = nextWatermark(
+      options.watermarks[wmKey],
+      keys,
+      handled,
+      mark
+        ? null
+        : {
+            listMs,
+            listed: listedKeys.length,
+            checkMsPerObject: checks > 0 ? checkMs / checks : 0,
+          },
+    );
   }
 
   reportProgress();
@@ -310,7 +518,87 @@ export async function syncBucket(
     synced,
     skipped,
     errors,
+    replaced,
+    pruned,
+    filtered: filteredFiles.length,
+    filteredFiles,
+    listing,
+  };
+}
+
+/**
+ * Delete or quarantine staged files of one bucket whose object is not in `listed` (destination paths of the
+ * current listing), and drop their manifest entries. `.part` files are left to resume handling. Only files
+ * this bucket config maps to are considered: its purchaser folder, or keys under its prefix.
+ */
+function pruneStagedFiles(opts: {
+  brand: string;
+  brandDir: string;
+  prefix: string;
+  purchaser: string;
+  listed: Set<string>;
+  manifest: Record<string, ManifestEntry | string>;
+  mode: Exclude<PruneMode, "off">;
+  quarantineDir?: string;
+  decisions?: SyncDecision[];
+}): number {
+  const { brand, brandDir, prefix, purchaser } = opts;
+  const scopeDir = purchaser
+    ? join(brandDir, purchaser)
+    : join(brandDir, prefix.slice(0, prefix.lastIndexOf("/") + 1));
+  if (!existsSync(scopeDir)) return 0;
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  let pruned = 0;
+  const walk = (dir: string) => {
+    for (const e of readdirSync(dir, { withFileTypes: true })) {
+      const full = join(dir, e.name);
+      if (e.isDirectory()) {
+        walk(full);
+        continue;
+      }
+      if (!e.isFile() || e.name.endsWith(PART_SUFFIX)) continue;
+      if (opts.listed.has(full)) continue;
+      // Key the staged file was synced from (inverse of destPathFor).
+      const key = purchaser
+        ? prefix + relative(scopeDir, full).replace(/\\/g, "/")
+        : relative(brandDir, full).replace(/\\/g, "/");
+      if (!purchaser && !key.startsWith(prefix)) continue;
+      try {
+        let quarantinePath: string | undefined;
+        if (opts.mode === "quarantine") {
+          quarantinePath = join(
+            opts.quarantineDir!,
+            stamp,
+            brand,
+            relative(brandDir, full),
+          );
+          mkdirSync(dirname(quarantinePath), { recursive: true });
+          try {
+            renameSync(full, quarantinePath);
+          } catch {
+            // Different filesystem: copy, then remove
+            copyFileSync(full, quarantinePath);
+            unlinkSync(full);
+          }
+        } else {
+          unlinkSync(full);
+        }
+        delete opts.manifest[manifestKey(brand, key)];
+        pruned++;
+        opts.decisions?.push({
+          action: opts.mode === "quarantine" ? "quarantined" : "deleted",
+          brand,
+          key,
+          path: full,
+          quarantinePath,
+        });
+      } catch (e) {
+        console.error(`Failed to prune ${full}:`, e);
+      }
+    }
   };
+  walk(scopeDir);
+  return pruned;
 }
 
 /**
@@ -331,12 +619,28 @@ export async function syncAllBuckets(
       relativePath: string;
       brand: string;
     }) => void;
-    onStartDownload?: (destPath: string, manifestKey: string) => void;
+    onStartDownload?: (
+      destPath: string,
+      manifestKey: string,
+      etag: string,
+    ) => void;
+    onFinishDownload?: (destPath: string) => void;
     /** When set, paths in this set are already extracted; sync skips file read/SHA for them. */
     alreadyExtractedPaths?: Set<string>;
+    partialDownloads?: Map<string, PartialDownload>;
+    /** Deliver onFileSynced in listing order per bucket (pipeline) instead of completion order. */
+    orderedFileSynced?: boolean;
+    /**
+     * Called when a changed object replaced a staged file. When not set, the files are invalidated in the
+     * checkpoint at the end of the sync (the pipeline passes its own handler since it holds the checkpoint open).
+     */
+    onFileReplaced?: (destPath: string) => void;
+    /** List everything even when s3.listing.incremental allows an incremental listing (--full-listing). */
+    fullListing?: boolean;
+    onFileFiltered?: (file: FilteredFile) => void;
   },
 ): Promise<SyncResult[]> {
-  const client = getS3Client(config.s3.region);
+  const sourceFor = createSyncSourceResolver(config.s3);
   const stagingDir = config.s3.stagingDir;
   if (!existsSync(stagingDir)) mkdirSync(stagingDir, { recursive: true });
 
@@ -350,32 +654,83 @@ export async function syncAllBuckets(
     config.s3.syncManifestPath ??
     join(dirname(config.run.checkpointPath), "sync-manifest.json");
   const manifest = loadSyncManifest(manifestPath);
+  const watermarksPath = getWatermarksPath(manifestPath);
+  const watermarks = config.s3.listing?.incremental
+    ? loadWatermarks(watermarksPath)
+    : undefined;
 
   const buckets = overrides?.buckets ?? config.s3.buckets;
-  const results: SyncResult[] = [];
-  for (const bucket of buckets) {
-    const result = await syncBucket(client, bucket, stagingDir, {
-      manifest,
-      manifestPath,
-      limitRemaining,
-      onProgress: overrides?.onProgress,
-      initialLimit,
-      onSyncSkipProgress: overrides?.onSyncSkipProgress,
-      onFileSynced: overrides?.onFileSynced,
-      onStartDownload: overrides?.onStartDownload,
-      alreadyExtractedPaths: overrides?.alreadyExtractedPaths,
-    });
-    results.push(result);
-  }
+  // Buckets are listed and synced side by side (up to downloadConcurrency at once); their downloads
+  // share one pool, so at most downloadConcurrency files are downloading in total.
+  const downloadConcurrency = config.s3.downloadConcurrency ?? 1;
+  const pool = createDownloadPool(downloadConcurrency);
+  const bucketQueue = new PQueue({ concurrency: downloadConcurrency });
+  const prune = config.s3.prune ?? "off";
+  const quarantineDir =
+    config.s3.quarantineDir ?? join(dirname(stagingDir), "quarantine");
+  const decisions: SyncDecision[] = [];
+  const replacedPaths: string[] = [];
+  const onFileReplaced =
+    overrides?.onFileReplaced ??
+    ((destPath: string) => replacedPaths.push(destPath));
+  const bucketResults = await Promise.all(
+    buckets.map((bucket) =>
+      bucketQueue.add(async () => {
+        if (isShutdownRequested()) return undefined;
+        return syncBucket(sourceFor(bucket), bucket, stagingDir, {
+          manifest,
+          manifestPath,
+          limitRemaining,
+          onProgress: overrides?.onProgress,
+          initialLimit,
+          onSyncSkipProgress: overrides?.onSyncSkipProgress,
+          onFileSynced: overrides?.onFileSynced,
+          onStartDownload: overrides?.onStartDownload,
+          onFinishDownload: overrides?.onFinishDownload,
+          alreadyExtractedPaths: overrides?.alreadyExtractedPaths,
+          partialDownloads: overrides?.partialDownloads,
+          pool,
+          orderedFileSynced: overrides?.orderedFileSynced,
+          onFileReplaced,
+          prune,
+          quarantineDir,
+          decisions,
+          listing: config.s3.listing,
+          watermarks,
+          fullListing: overrides?.fullListing,
+          runFilter: config.run.filter,
+          onFileFiltered: overrides?.onFileFiltered,
+        });
+      }),
+    ),
+  );
+  const results: SyncResult[] = bucketResults.filter(
+    (r): r is SyncResult => r !== undefined,
+  );
 
   saveSyncManifest(manifestPath, manifest);
+  if (watermarks) saveWatermarks(watermarksPath, watermarks);
+
+  if (replacedPaths.length > 0) {
+    const db = openCheckpointDb(config.run.checkpointPath);
+    invalidateFiles(db, replacedPaths);
+    closeCheckpointDb(db);
+  }
 
   // Record history
   try {
     const totalSynced = results.reduce((s, r) => s + r.synced, 0);
     const totalSkipped = results.reduce((s, r) => s + r.skipped, 0);
     const totalErrors = results.reduce((s, r) => s + r.errors, 0);
-    if (totalSynced > 0 || totalSkipped > 0 || totalErrors > 0) {
+    const totalReplaced = results.reduce((s, r) => s + r.replaced, 0);
+    const totalPruned = results.reduce((s, r) => s + r.pruned, 0);
+    if (
+      totalSynced > 0 ||
+      totalSkipped > 0 ||
+      totalErrors > 0 ||
+      totalPruned > 0 ||
+      results.some((r) => r.listing.skippedByWatermark > 0)
+    ) {
       const { appendSyncHistory } = await import("./sync-history.js");
       appendSyncHistory(dirname(config.run.checkpointPath), {
         timestamp: new Date().toISOString(),
@@ -384,6 +739,10 @@ export async function syncAllBuckets(
         errors: totalErrors,
         brands: results.map((r) => r.brand),
         purchasers: results.map((r) => r.purchaser || ""),
+        ...(totalReplaced > 0 && { replaced: totalReplaced }),
+        ...(totalPruned > 0 && { pruned: totalPruned }),
+        ...(decisions.length > 0 && { decisions }),
+        listing: summarizeListing(results),
       });
     }
   } catch (e) {
@@ -393,6 +752,25 @@ export async function syncAllBuckets(
   return results;
 }
 
+function summarizeListing(results: SyncResult[]): SyncListingSummary {
+  const summary: SyncListingSummary = {
+    full: 0,
+    incremental: 0,
+    listMs: 0,
+    objectsListed: 0,
+    skippedByWatermark: 0,
+    estimatedSavedMs: 0,
+  };
+  for (const { listing } of results) {
+    summary[listing.mode]++;
+    summary.listMs += listing.listMs;
+    summary.objectsListed += listing.listed;
+    summary.skippedByWatermark += listing.skippedByWatermark;
+    summary.estimatedSavedMs += listing.estimatedSavedMs;
+  }
+  return summary;
+}
+
 export interface SyncResult {
   brand: string;
   purchaser: string;
@@ -400,8 +778,29 @@ export interface SyncResult {
   synced: number;
   skipped: number;
   errors: number;
+  /** Downloads that replaced a staged file whose object changed (its extraction is invalidated). */
+  replaced: number;
+  /** Staged files deleted or quarantined because their object is gone (s3.prune). */
+  pruned: number;
+  /** Objects left out by include/exclude rules (s3.buckets[].filter, run.filter); not downloaded. */
+  filtered: number;
+  filteredFiles: FilteredFile[];
+  listing: ListingStats;
 }
 
+export interface FilteredFile {
+  key: string;
+  /** Staging path the object would have been synced to. */
+  filePath: string;
+  relativePath: string;
+  brand: string;
+  /** The rule that excluded it, e.g. "excluded by ~$*". */
+  reason: string;
+}
+
+/** Filtered files listed per bucket entry in the sync summary. */
+const FILTERED_LIST_LIMIT = 20;
+
 /**
  * Print structured sync summary. Clarifies: download limit applies only to new downloads;
  * skipped = already present and unchanged (do not count toward limit).
@@ -413,6 +812,10 @@ export function printSyncResults(
   const totalSynced = results.reduce((s, r) => s + r.synced, 0);
   const totalSkipped = results.reduce((s, r) => s + r.skipped, 0);
   const totalErrors = results.reduce((s, r) => s + r.errors, 0);
+  const totalReplaced = results.reduce((s, r) => s + r.replaced, 0);
+  const totalPruned = results.reduce((s, r) => s + r.pruned, 0);
+  const totalFiltered = results.reduce((s, r) => s + r.filtered, 0);
+  const listing = summarizeListing(results);
   const limitLabel =
     syncLimit !== undefined && syncLimit > 0
       ? `${syncLimit} new file(s)`
@@ -425,6 +828,24 @@ export function printSyncResults(
     `Downloaded (new): ${totalSynced}`,
     `Skipped (already present, unchanged): ${totalSkipped}`,
     `Errors: ${totalErrors}`,
+    ...(totalReplaced > 0
+      ? [
+          `Replaced (object changed, queued for re-extraction): ${totalReplaced}`,
+        ]
+      : []),
+    ...(totalPruned > 0
+      ? [`Pruned (object no longer in bucket): ${totalPruned}`]
+      : []),
+    ...(totalFiltered > 0
+      ? [`Filtered (include/exclude rules): ${totalFiltered}`]
+      : []),
+    ...(listing.incremental > 0
+      ? [
+          `Listing: ${listing.incremental} incremental, ${listing.full} full; ` +
+            `${listing.skippedByWatermark} object(s) below watermark skipped, ` +
+            `~${formatDuration(listing.estimatedSavedMs)} saved`,
+        ]
+      : []),
     "",
   ];
 
@@ -438,8 +859,19 @@ export function printSyncResults(
       lines.push(
         `  ${label}`,
         `    Staging path: ${r.stagingPath}`,
-        `    Downloaded: ${r.synced}, Skipped: ${r.skipped}, Errors: ${r.errors}`,
+        `    Downloaded: ${r.synced}, Skipped: ${r.skipped}, Errors: ${r.errors}` +
+          (r.replaced > 0 ? `, Replaced: ${r.replaced}` : "") +
+          (r.pruned > 0 ? `, Pruned: ${r.pruned}` : "") +
+          (r.filtered > 0 ? `, Filtered: ${r.filtered}` : ""),
       );
+      for (const f of r.filteredFiles.slice(0, FILTERED_LIST_LIMIT)) {
+        lines.push(`      filtered: ${f.relativePath} (${f.reason})`);
+      }
+      if (r.filteredFiles.length > FILTERED_LIST_LIMIT) {
+        lines.push(
+          `      … and ${r.filteredFiles.length - FILTERED_LIST_LIMIT} more filtered`,
+        );
+      }
     }
   }
 
@@ -0,0 +1,58 @@
+/**
+ * Graceful SIGTERM / SIGINT handling. While a run has registered a drain handler, the first signal asks the
+ * run to stop dequeuing and let in-flight requests finish (the exit code is still 143 / 130); a second
+ * signal exits immediately. With no run in progress the process exits straight away, as before.
+ */
+
+const EXIT_CODES: Record<"SIGTERM" | "SIGINT", number> = {
+  SIGTERM: 143,
+  SIGINT: 130,
+};
+
+let requestedSignal: NodeJS.Signals | null = null;
+const drainHandlers = new Set<(signal: NodeJS.Signals) => void>();
+const shutdownWaiters = new Set<() => void>();
+
+/** Install the signal handlers (call once, from the CLI entry point). */
+export function installShutdownHandlers(): void {
+  for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    process.on(signal, () => {
+      if (requestedSignal || drainHandlers.size === 0) {
+        process.exit(EXIT_CODES[signal]);
+      }
+      requestedSignal = signal;
+      process.exitCode = EXIT_CODES[signal];
+      for (const handler of drainHandlers) handler(signal);
+      for (const wake of shutdownWaiters) wake();
+      shutdownWaiters.clear();
+    });
+  }
+}
+
+/** Register a drain handler for the duration of a run; returns the function that unregisters it. */
+export function onShutdownRequested(
+  handler: (signal: NodeJS.Signals) => void,
+): () => void {
+  drainHandlers.add(handler);
+  return () => {
+    drainHandlers.delete(handler);
+  };
+}
+
+export function isShutdownRequested(): boolean {
+  return requestedSignal !== null;
+}
+
+/** Wait `ms`, returning early when a shutdown is requested. */
+export function sleepUnlessShutdown(ms: number): Promise<void> {
+  if (requestedSignal) return Promise.resolve();
+  return new Promise((resolve) => {
+    const wake = () => {
+      clearTimeout(timer);
+      shutdownWaiters.delete(wake);
+      resolve();
+    };
+    const timer = setTimeout(wake, ms);
+    shutdownWaiters.add(wake);
+  });
+}
@@ -0,0 +1,223 @@
+/**
+ * Service-level objectives (slo in config): limits on error rate, p95/p99 latency, wall-clock throughput
+ * and timeouts, checked against a run's RunMetrics when it ends. byBrand / byPatternKey limits are checked against the
+ * metrics of that slice of the run's files. The verdict goes into RunMetrics.slo (and from there into
+ * every report format); `run` and `sync-extract` print it, write an SLO line to piped stdout and exit
+ * with SLO_FAILED_EXIT_CODE when a limit is exceeded, so pipelines can gate on it.
+ */
+
+import type {
+  CheckpointRecord,
+  Config,
+  RunMetrics,
+  SloCheck,
+  SloConfig,
+  SloThresholds,
+  SloVerdict,
+} from "./types.js";
+import { computeMetrics } from "./metrics.js";
+
+/** Exit code of `run` / `sync-extract` when the SLO failed (1 = the command failed, 2 = `diff` regressions). */
+export const SLO_FAILED_EXIT_CODE = 3;
+
+const THRESHOLD_KEYS: (keyof SloThresholds)[] = [
+  "maxErrorRate",
+  "maxP95LatencyMs",
+  "maxP99LatencyMs",
+  "minThroughputPerSecond",
+  "maxTimeouts",
+];
+
+function validateThresholds(value: unknown, path: string): string[] {
+  const t = value as SloThresholds | null;
+  if (typeof t !== "object" || t === null) return [`${path} (object)`];
+  const problems: string[] = [];
+  for (const key of THRESHOLD_KEYS) {
+    const v = t[key];
+    if (v === undefined) continue;
+    if (key === "maxErrorRate") {
+      if (!(typeof v === "number" && v >= 0 && v <= 1))
+        problems.push(`${path}.${key} (between 0 and 1 when set)`);
+    } else if (key === "maxTimeouts") {
+      if (!(Number.isInteger(v) && v >= 0))
+        problems.push(`${path}.${key} (integer >= 0 when set)`);
+    } else if (!(typeof v === "number" && v >= 0)) {
+      problems.push(`${path}.${key} (>= 0 when set)`);
+    }
+  }
+  return problems;
+}
+
+/** Validate slo; returns human-readable problems (empty when valid). */
+export function validateSlo(value: unknown): string[] {
+  const c = value as SloConfig | null;
+  if (typeof c !== "object" || c === null) return ["slo (object)"];
+  const problems = validateThresholds(c, "slo");
+  for (const group of ["byBrand", "byPatternKey"] as const) {
+    const entries = c[group];
+    if (entries === undefined) continue;
+    if (typeof entries !== "object" || entries === null) {
+      problems.push(`slo.${group} (map of limits when set)`);
+      continue;
+    }
+    for (const [name, limits] of Object.entries(entries))
+      problems.push(...validateThresholds(limits, `slo.${group}.${name}`));
+  }
+  return problems;
+}
+
+/** Checks of one scope; none when the scope processed no files (see evaluateSlo for an empty run). */
+function checkThresholds(
+  scope: SloCheck["scope"],
+  name: string | undefined,
+  limits: SloThresholds,
+  metrics: RunMetrics,
+): SloCheck[] {
+  if (metrics.success + metrics.failed === 0) return [];
+  const checks: SloCheck[] = [];
+  const max = (
+    metric: SloCheck["metric"],
+    threshold: number | undefined,
+    actual: number,
+  ) => {
+    if (threshold !== undefined)
+      checks.push({
+        scope,
+        name,
+        metric,
+        threshold,
+        actual,
+        passed: actual <= threshold,
+      });
+  };
+  max("errorRate", limits.maxErrorRate, metrics.errorRate);
+  max("p95LatencyMs", limits.maxP95LatencyMs, metrics.p95LatencyMs);
+  max("p99LatencyMs", limits.maxP99LatencyMs, metrics.p99LatencyMs);
+  if (limits.minThroughputPerSecond !== undefined)
+    checks.push({
+      scope,
+      name,
+      metric: "throughputPerSecond",
+      threshold: limits.minThroughputPerSecond,
+      actual: metrics.wallClockThroughputPerSecond,
+      passed:
+        metrics.wallClockThroughputPerSecond >= limits.minThroughputPerSecond,
+    });
+  max("timeouts", limits.maxTimeouts, metrics.failureBreakdown.timeout);
+  return checks;
+}
+
+/** Metrics of the run's files for which `key` returns `name`. */
+function sliceMetrics(
+  metrics: RunMetrics,
+  records: CheckpointRecord[],
+  key: (r: CheckpointRecord) => string,
+  name: string,
+): RunMetrics {
+  return computeMetrics(
+    metrics.runId,
+    records.filter((r) => key(r) === name),
+    new Date(metrics.startedAt),
+    new Date(metrics.finishedAt),
+  );
+}
+
+/**
+ * Check a run's metrics (and its brand / pattern key slices of `records`) against the SLO. A run that
+ * processed no files fails with a processedFiles check whenever any objective is set, so a run that
+ * extracted nothing (e.g. every download failed) cannot pass the gate.
+ */
+export function evaluateSlo(
+  slo: SloConfig,
+  metrics: RunMetrics,
+  records: CheckpointRecord[],
+): SloVerdict {
+  const hasObjectives = (t: SloThresholds) =>
+    THRESHOLD_KEYS.some((k) => t[k] !== undefined);
+  if (
+    metrics.success + metrics.failed === 0 &&
+    [
+      slo,
+      ...Object.values(slo.byBrand ?? {}),
+      ...Object.values(slo.byPatternKey ?? {}),
+    ].some(hasObjectives)
+  ) {
+    const check: SloCheck = {
+      scope: "run",
+      metric: "processedFiles",
+      threshold: 1,
+      actual: 0,
+      passed: false,
+    };
+    return { passed: false, checks: [check], violations: 1 };
+  }
+  const checks = checkThresholds("run", undefined, slo, metrics);
+  for (const [brand, limits] of Object.entries(slo.byBrand ?? {}))
+    checks.push(
+      ...checkThresholds(
+        "brand",
+        brand,
+        limits,
+        sliceMetrics(metrics, records, (r) => r.brand, brand),
+      ),
+    );
+  for (const [patternKey, limits] of Object.entries(slo.byPatternKey ?? {}))
+    checks.push(
+      ...checkThresholds(
+        "patternKey",
+        patternKey,
+        limits,
+        sliceMetrics(
+          metrics,
+          records,
+          (r) => r.patternKey || r.requestedPatternKey || "(none)",
+          patternKey,
+        ),
+      ),
+    );
+  const violations = checks.filter((c) => !c.passed).length;
+  return { passed: violations === 0, checks, violations };
+}
+
+const METRIC_LABELS: Record<SloCheck["metric"], string> = {
+  errorRate: "Error rate",
+  p95LatencyMs: "P95 latency",
+  p99LatencyMs: "P99 latency",
+  throughputPerSecond: "Throughput",
+  timeouts: "Timeouts",
+  processedFiles: "Processed files (no data)",
+};
+
+/** "brand-a: P95 latency 1200ms (max 1000ms)" and the like. */
+export function formatSloCheck(c: SloCheck): string {
+  const value = (v: number) =>
+    c.metric === "errorRate"
+      ? `${(v * 100).toFixed(2)}%`
+      : c.metric === "throughputPerSecond"
+        ? `${v.toFixed(2)}/s`
+        : c.metric === "timeouts" || c.metric === "processedFiles"
+          ? String(v)
+          : `${v.toFixed(0)}ms`;
+  const scope =
+    c.scope === "brand"
+      ? `${c.name}: `
+      : c.scope === "patternKey"
+        ? `pattern ${c.name}: `
+        : "";
+  const bound =
+    c.metric === "throughputPerSecond" || c.metric === "processedFiles"
+      ? "min"
+      : "max";
+  return `${scope}${METRIC_LABELS[c.metric]} ${value(c.actual)} (${bound} ${value(c.threshold)})`;
+}
+
+/** Evaluate a finished run against the SLO and record the verdict on the metrics (no-op without slo in config). */
+export function applySlo(
+  config: Config,
+  metrics: RunMetrics,
+  records: CheckpointRecord[],
+): SloVerdict | undefined {
+  if (!config.slo) return undefined;
+  metrics.slo = evaluateSlo(config.slo, metrics, records);
+  return metrics.slo;
+}
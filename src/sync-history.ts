@@ -9,6 +9,40 @@ export interface SyncHistoryEntry {
   brands: string[];
   /** Purchaser folder names involved in this sync entry, parallel to brands. */
   purchasers?: string[];
+  /** Staged files re-downloaded because their object changed (ETag or size). */
+  replaced?: number;
+  /** Staged files deleted or quarantined because their object is gone from the bucket. */
+  pruned?: number;
+  /** One entry per replaced / pruned file. */
+  decisions?: SyncDecision[];
+  /** How the bucket entries were listed (s3.listing.incremental) and the time that saved. */
+  listing?: SyncListingSummary;
+}
+
+export interface SyncListingSummary {
+  /** Bucket entries listed in full / from their watermark. */
+  full: number;
+  incremental: number;
+  listMs: number;
+  objectsListed: number;
+  /** Listed objects skipped as older than the watermark. */
+  skippedByWatermark: number;
+  /** Estimated time saved compared with full listings. */
+  estimatedSavedMs: number;
+}
+
+export interface SyncDecision {
+  action: "replaced" | "deleted" | "quarantined";
+  brand: string;
+  /** Object key (for pruned files: the key the staged file was synced from). */
+  key: string;
+  /** Staged file path. */
+  path: string;
+  /** replaced: ETag before and after. */
+  previousEtag?: string;
+  etag?: string;
+  /** quarantined: where the file was moved. */
+  quarantinePath?: string;
 }
 
 const HISTORY_FILE = "sync-history.json";
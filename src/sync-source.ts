@@ -0,0 +1,483 @@
+/**
+ * Where sync reads objects from. `bucket` is either an S3 bucket name (AWS, or any S3-compatible store such as
+ * MinIO / LocalStack via s3.endpoint + forcePathStyle) or a `file://` directory holding the same
+ * tenant/purchaser layout, so sync-extract can run without AWS. Both go through the same manifest and
+ * onFileSynced handling in s3-sync.ts.
+ * Downloads are written to `<dest>.part` and renamed into staging only after the size and SHA-256 (or the
+ * MD5 ETag) check out; a `.part` left by an interrupted run continues from its byte offset when the ETag is
+ * unchanged, and is downloaded again from the start when the joined file cannot be verified.
+ */
+
+import {
+  ListObjectsV2Command,
+  GetObjectCommand,
+  HeadObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import {
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  truncateSync,
+  unlinkSync,
+  utimesSync,
+} from "node:fs";
+import { createHash } from "node:crypto";
+import { dirname, join, relative, resolve } from "node:path";
+import { pipeline } from "node:stream/promises";
+import type { Readable } from "node:stream";
+import type { S3BucketConfig, S3Config } from "./types.js";
+
+const FILE_SCHEME = "file://";
+/** Suffix of in-progress downloads in staging (never extracted). */
+export const PART_SUFFIX = ".part";
+
+export interface SourceObject {
+  key: string;
+  etag: string;
+  size: number;
+  /** LastModified (ISO), when the source reports it. */
+  lastModified?: string;
+}
+
+/** A `.part` file left by an interrupted download: bytes already written and the ETag they belong to. */
+export interface PartialDownload {
+  etag: string;
+  offset: number;
+}
+
+export interface SyncSource {
+  /** Location of a key for log messages, e.g. s3://bucket/key or file:///dir/key. */
+  describe(key: string): string;
+  /** All objects whose key starts with prefix (and sorts after startAfter, when set), in key order. */
+  list(prefix: string, startAfter?: string): Promise<SourceObject[]>;
+  /** Names of the folders directly below prefix (S3 common prefixes), in key order. */
+  listFolders(prefix: string): Promise<string[]>;
+  /**
+   * Download `object` to destPath (via destPath.part), continuing from `partial` when its ETag still matches.
+   * Resolves with the file's SHA-256 (hex) once it has been verified and renamed into place.
+   */
+  download(
+    object: SourceObject,
+    destPath: string,
+    partial?: PartialDownload,
+  ): Promise<string>;
+}
+
+export function partPath(destPath: string): string {
+  return destPath + PART_SUFFIX;
+}
+
+export async function computeFileSha256(filePath: string): Promise<string> {
+  return (await computeFileDigests(filePath)).sha256;
+}
+
+/** Digests a download is checked against (hex); either may be unknown. */
+interface ExpectedDigests {
+  sha256?: string;
+  md5?: string;
+}
+
+async function computeFileDigests(
+  filePath: string,
+): Promise<{ sha256: string; md5: string }> {
+  return new Promise((resolve, reject) => {
+    const sha256 = createHash("sha256");
+    const md5 = createHash("md5");
+    const rs = createReadStream(filePath);
+    rs.on("data", (chunk: Buffer | string) => {
+      sha256.update(chunk);
+      md5.update(chunk);
+    });
+    rs.on("end", () =>
+      resolve({ sha256: sha256.digest("hex"), md5: md5.digest("hex") }),
+    );
+    rs.on("error", reject);
+  });
+}
+
+/**
+ * Byte offset to continue `object` from: the recorded offset when the `.part` file still belongs to the
+ * same ETag and holds at least that many bytes (extra bytes are cut off), otherwise 0 (full download).
+ */
+function resumeOffset(
+  part: string,
+  object: SourceObject,
+  partial: PartialDownload | undefined,
+): number {
+  if (!partial || !partial.etag || partial.etag !== object.etag) return 0;
+  if (partial.offset <= 0 || partial.offset > object.size) return 0;
+  try {
+    const size = statSync(part).size;
+    if (size < partial.offset) return 0;
+    if (size > partial.offset) truncateSync(part, partial.offset);
+    return partial.offset;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Check a completed `.part` (size, and SHA-256 / MD5 when the source published one) and rename it to
+ * destPath. A file that fails the check is deleted so the next attempt starts over.
+ */
+async function verifyAndRename(
+  part: string,
+  destPath: string,
+  object: SourceObject,
+  label: string,
+  expected: ExpectedDigests = {},
+): Promise<string> {
+  const size = statSync(part).size;
+  const { sha256: sha, md5 } = await computeFileDigests(part);
+  let problem: string | null = null;
+  if (size !== object.size) {
+    problem = `size ${size} does not match ${object.size}`;
+  } else if (expected.sha256 && expected.sha256 !== sha) {
+    problem = `SHA-256 ${sha} does not match ${expected.sha256}`;
+  } else if (expected.md5 && expected.md5 !== md5) {
+    problem = `MD5 ${md5} does not match ETag ${expected.md5}`;
+  }
+  if (problem) {
+    try {
+      unlinkSync(part);
+    } catch {
+      // ignore
+    }
+    throw new Error(`Downloaded ${label} is corrupt: ${problem}`);
+  }
+  renameSync(part, destPath);
+  // Keep the object's LastModified as mtime so filters on age agree between sync and extraction.
+  if (object.lastModified) {
+    utimesSync(destPath, new Date(), new Date(object.lastModified));
+  }
+  return sha;
+}
+
+/** S3 full-object SHA-256 checksum (base64) as hex; undefined when absent or composite (multipart). */
+function s3ChecksumHex(checksum: string | undefined): string | undefined {
+  if (!checksum || checksum.includes("-")) return undefined;
+  return Buffer.from(checksum, "base64").toString("hex");
+}
+
+/**
+ * What to verify an S3 download against: its full-object SHA-256 checksum, else the ETag when it is the
+ * content MD5 (single-part upload without SSE-KMS / SSE-C; multipart ETags end in "-N").
+ */
+function s3ExpectedDigests(
+  object: SourceObject,
+  response: {
+    ChecksumSHA256?: string;
+    ServerSideEncryption?: string;
+    SSECustomerAlgorithm?: string;
+  },
+): ExpectedDigests {
+  const sha256 = s3ChecksumHex(response.ChecksumSHA256);
+  if (sha256) return { sha256 };
+  const encrypted =
+    response.ServerSideEncryption?.startsWith("aws:kms") ||
+    !!response.SSECustomerAlgorithm;
+  if (!encrypted && /^[0-9a-f]{32}$/i.test(object.etag)) {
+    return { md5: object.etag.toLowerCase() };
+  }
+  return {};
+}
+
+export type ConnectionSettings = Pick<
+  S3Config,
+  "region" | "endpoint" | "forcePathStyle" | "profile"
+>;
+
+/** True when the bucket is a local directory (`file://...`) rather than an S3 bucket. */
+export function isLocalSource(bucket: string): boolean {
+  return bucket.startsWith(FILE_SCHEME);
+}
+
+/** Absolute directory of a `file://` bucket. */
+export function localSourceDir(bucket: string): string {
+  return resolve(bucket.slice(FILE_SCHEME.length));
+}
+
+/** Validate connection overrides (region / endpoint / forcePathStyle / profile) found at `path`. */
+export function validateConnectionSettings(
+  c: Partial<ConnectionSettings>,
+  path: string,
+): string[] {
+  const problems: string[] = [];
+  if (c.endpoint !== undefined) {
+    let ok = typeof c.endpoint === "string";
+    if (ok) {
+      try {
+        new URL(c.endpoint);
+      } catch {
+        ok = false;
+      }
+    }
+    if (!ok) problems.push(`${path}.endpoint (URL when set)`);
+  }
+  if (c.forcePathStyle !== undefined && typeof c.forcePathStyle !== "boolean")
+    problems.push(`${path}.forcePathStyle (boolean when set)`);
+  if (
+    c.profile !== undefined &&
+    (typeof c.profile !== "string" || c.profile === "")
+  )
+    problems.push(`${path}.profile (non-empty string when set)`);
+  if (
+    c.region !== undefined &&
+    (typeof c.region !== "string" || c.region === "")
+  )
+    problems.push(`${path}.region (non-empty string when set)`);
+  return problems;
+}
+
+/** Validate s3 connection settings (s3.* and per-bucket overrides); returns human-readable problems. */
+export function validateSyncSources(s3: S3Config): string[] {
+  const problems: string[] = validateConnectionSettings(s3, "s3");
+  if (Array.isArray(s3.buckets)) {
+    s3.buckets.forEach((b, i) => {
+      if (!b || typeof b.bucket !== "string" || b.bucket === "") {
+        problems.push(`s3.buckets[${i}].bucket`);
+        return;
+      }
+      if (isLocalSource(b.bucket) && b.bucket.length === FILE_SCHEME.length)
+        problems.push(`s3.buckets[${i}].bucket (file:// needs a directory)`);
+      problems.push(...validateConnectionSettings(b, `s3.buckets[${i}]`));
+    });
+  }
+  return problems;
+}
+
+export function createS3Client(settings: ConnectionSettings): S3Client {
+  return new S3Client({
+    region: settings.region,
+    ...(settings.endpoint !== undefined && { endpoint: settings.endpoint }),
+    ...(settings.forcePathStyle !== undefined && {
+      forcePathStyle: settings.forcePathStyle,
+    }),
+    ...(settings.profile !== undefined && { profile: settings.profile }),
+  });
+}
+
+function createS3Source(client: S3Client, bucket: string): SyncSource {
+  return {
+    describe: (key) => `s3://${bucket}/${key}`,
+    async list(prefix, startAfter) {
+      const keys: SourceObject[] = [];
+      let continuationToken: string | undefined;
+      do {
+        const cmd = new ListObjectsV2Command({
+          Bucket: bucket,
+          Prefix: prefix || undefined,
+          StartAfter: startAfter || undefined,
+          ContinuationToken: continuationToken,
+        });
+        const out = await client.send(cmd);
+        const contents = out.Contents ?? [];
+        for (const obj of contents) {
+          if (obj.Key) {
+            keys.push({
+              key: obj.Key,
+              etag: obj.ETag?.replace(/"/g, "") || "",
+              size: obj.Size ?? 0,
+              lastModified: obj.LastModified?.toISOString(),
+            });
+          }
+        }
+        continuationToken = out.NextContinuationToken;
+      } while (continuationToken);
+      return keys;
+    },
+    async listFolders(prefix) {
+      const folders: string[] = [];
+      let continuationToken: string | undefined;
+      do {
+        const out = await client.send(
+          new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: prefix || undefined,
+            Delimiter: "/",
+            ContinuationToken: continuationToken,
+          }),
+        );
+        for (const p of out.CommonPrefixes ?? []) {
+          if (p.Prefix) folders.push(p.Prefix.slice(prefix.length, -1));
+        }
+        continuationToken = out.NextContinuationToken;
+      } while (continuationToken);
+      return folders.filter(Boolean);
+    },
+    async download(object, destPath, partial) {
+      const { key } = object;
+      const label = `s3://${bucket}/${key}`;
+      const dir = dirname(destPath);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+      const part = partPath(destPath);
+      const offset = resumeOffset(part, object, partial);
+      if (offset > 0) {
+        let response;
+        try {
+          // If-Match makes S3 refuse the range when the object was replaced since the .part was written.
+          response = await client.send(
+            new GetObjectCommand({
+              Bucket: bucket,
+              Key: key,
+              Range: `bytes=${offset}-`,
+              IfMatch: `"${object.etag}"`,
+            }),
+          );
+        } catch (e) {
+          const status = (e as { $metadata?: { httpStatusCode?: number } })
+            .$metadata?.httpStatusCode;
+          if (status !== 412 && status !== 416) throw e;
+        }
+        const body = response?.Body as Readable | undefined;
+        if (body) {
+          await pipeline(body, createWriteStream(part, { flags: "a" }));
+          // A ranged GET carries no full-object checksum; ask for it separately.
+          const head = await client.send(
+            new HeadObjectCommand({
+              Bucket: bucket,
+              Key: key,
+              ChecksumMode: "ENABLED",
+            }),
+          );
+          const expected = s3ExpectedDigests(object, head);
+          // A joined file is only kept when a digest confirms it; otherwise start over from offset 0.
+          if (expected.sha256 || expected.md5) {
+            try {
+              return await verifyAndRename(
+                part,
+                destPath,
+                object,
+                label,
+                expected,
+              );
+            } catch {
+              // .part was deleted; download the whole object below
+            }
+          }
+        }
+      }
+      const response = await client.send(
+        new GetObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          ChecksumMode: "ENABLED",
+        }),
+      );
+      const body = response.Body as Readable;
+      if (!body) throw new Error(`No body for ${label}`);
+      await pipeline(body, createWriteStream(part, { flags: "w" }));
+      return verifyAndRename(
+        part,
+        destPath,
+        object,
+        label,
+        s3ExpectedDigests(object, response),
+      );
+    },
+  };
+}
+
+/**
+ * Local directory source. Keys are paths relative to the root with "/" separators; the etag is derived
+ * from size and mtime, so a file that is rewritten in place is synced again.
+ */
+function createLocalSource(rootDir: string): SyncSource {
+  const walk = (dir: string, out: SourceObject[]) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const full = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(full, out);
+      } else if (entry.isFile()) {
+        const st = statSync(full);
+        out.push({
+          key: relative(rootDir, full).replace(/\\/g, "/"),
+          etag: `${st.size.toString(16)}-${Math.floor(st.mtimeMs).toString(16)}`,
+          size: st.size,
+          lastModified: st.mtime.toISOString(),
+        });
+      }
+    }
+  };
+  return {
+    describe: (key) => `${FILE_SCHEME}${join(rootDir, key)}`,
+    async list(prefix, startAfter) {
+      if (!existsSync(rootDir)) {
+        throw new Error(`Source directory not found: ${rootDir}`);
+      }
+      // Only walk the directory part of the prefix; the rest is matched per key like S3 does.
+      const prefixDir = prefix.includes("/")
+        ? prefix.slice(0, prefix.lastIndexOf("/"))
+        : "";
+      const start = join(rootDir, prefixDir);
+      const keys: SourceObject[] = [];
+      if (existsSync(start) && statSync(start).isDirectory()) walk(start, keys);
+      return keys
+        .filter(
+          (o) =>
+            o.key.startsWith(prefix) && (!startAfter || o.key > startAfter),
+        )
+        .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    },
+    async listFolders(prefix) {
+      if (!existsSync(rootDir)) {
+        throw new Error(`Source directory not found: ${rootDir}`);
+      }
+      const dir = join(rootDir, prefix);
+      if (!existsSync(dir) || !statSync(dir).isDirectory()) return [];
+      return readdirSync(dir, { withFileTypes: true })
+        .filter((e) => e.isDirectory())
+        .map((e) => e.name)
+        .sort();
+    },
+    async download(object, destPath, partial) {
+      const dir = dirname(destPath);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+      const part = partPath(destPath);
+      const offset = resumeOffset(part, object, partial);
+      await pipeline(
+        createReadStream(join(rootDir, object.key), { start: offset }),
+        createWriteStream(part, { flags: offset > 0 ? "a" : "w" }),
+      );
+      return verifyAndRename(
+        part,
+        destPath,
+        object,
+        `${FILE_SCHEME}${join(rootDir, object.key)}`,
+      );
+    },
+  };
+}
+
+/**
+ * Returns a function resolving each bucket config to its source. S3 clients are shared by buckets with the
+ * same connection settings (bucket fields override s3.region / endpoint / forcePathStyle / profile).
+ */
+export function createSyncSourceResolver(
+  s3: S3Config,
+): (bucket: S3BucketConfig) => SyncSource {
+  const clients = new Map<string, S3Client>();
+  return (bucketConfig) => {
+    if (isLocalSource(bucketConfig.bucket)) {
+      return createLocalSource(localSourceDir(bucketConfig.bucket));
+    }
+    const settings: ConnectionSettings = {
+      region: bucketConfig.region ?? s3.region,
+      endpoint: bucketConfig.endpoint ?? s3.endpoint,
+      forcePathStyle: bucketConfig.forcePathStyle ?? s3.forcePathStyle,
+      profile: bucketConfig.profile ?? s3.profile,
+    };
+    const cacheKey = JSON.stringify(settings);
+    let client = clients.get(cacheKey);
+    if (!client) {
+      client = createS3Client(settings);
+      clients.set(cacheKey, client);
+    }
+    return createS3Source(client, bucketConfig.bucket);
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Incremental listing: a LastModified high-water mark per bucket entry (bucket + prefix), stored in
+ * sync-watermarks.json next to the sync manifest. Objects older than the mark are skipped without any
+ * per-object checks; when keys sort by upload time (s3.listing.keysSortedByTime) listing also starts after
+ * the last key seen, so older pages are not fetched at all. A full listing runs at least every
+ * fullReconcileHours (or with --full-listing) to catch deletions and rewrites of old keys.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type { S3BucketConfig, S3ListingConfig } from "./types.js";
+
+const WATERMARKS_FILE = "sync-watermarks.json";
+const DEFAULT_FULL_RECONCILE_HOURS = 24;
+
+export interface Watermark {
+  /** Objects with LastModified before this (ISO) were all synced. */
+  lastModified: string;
+  /** Last key handled in listing order (StartAfter for keysSortedByTime). */
+  lastKey: string;
+  /** When the last full listing ran (ISO). */
+  lastFullListAt: string;
+  /** Cost of that full listing, to estimate the time incremental listings save. */
+  fullListMs: number;
+  fullListObjects: number;
+  /** Average time of the per-object skip checks in that sync (ms). */
+  checkMsPerObject: number;
+}
+
+export type Watermarks = Record<string, Watermark>;
+
+/** Validate s3.listing; returns human-readable problems (empty when valid). */
+export function validateListing(value: unknown): string[] {
+  const c = value as S3ListingConfig | null;
+  if (typeof c !== "object" || c === null) return ["s3.listing (object)"];
+  const problems: string[] = [];
+  for (const key of ["incremental", "keysSortedByTime"] as const) {
+    if (c[key] !== undefined && typeof c[key] !== "boolean")
+      problems.push(`s3.listing.${key} (boolean when set)`);
+  }
+  if (
+    c.fullReconcileHours !== undefined &&
+    !(typeof c.fullReconcileHours === "number" && c.fullReconcileHours > 0)
+  )
+    problems.push("s3.listing.fullReconcileHours (> 0 when set)");
+  return problems;
+}
+
+export function getWatermarksPath(manifestPath: string): string {
+  return join(dirname(manifestPath), WATERMARKS_FILE);
+}
+
+export function loadWatermarks(path: string): Watermarks {
+  if (!existsSync(path)) return {};
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8")) as Watermarks;
+    return typeof data === "object" && data !== null ? data : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveWatermarks(path: string, data: Watermarks): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(path, JSON.stringify(data, null, 2), "utf-8");
+}
+
+export function watermarkKey(bucket: S3BucketConfig): string {
+  return `${bucket.bucket}|${bucket.prefix ?? ""}`;
+}
+
+/**
+ * The watermark to list from, or null when this sync must list everything: incremental listing is off,
+ * there is no mark yet, a full listing was requested, or the last one is older than fullReconcileHours.
+ */
+export function incrementalWatermark(
+  listing: S3ListingConfig | undefined,
+  watermark: Watermark | undefined,
+  forceFull: boolean,
+  now: Date = new Date(),
+): Watermark | null {
+  if (!listing?.incremental || !watermark || forceFull) return null;
+  const hours = listing.fullReconcileHours ?? DEFAULT_FULL_RECONCILE_HOURS;
+  const age = now.getTime() - new Date(watermark.lastFullListAt).getTime();
+  if (!(age >= 0 && age < hours * 3600_000)) return null;
+  return watermark;
+}
+
+/** How one bucket entry was listed in a sync. */
+export interface ListingStats {
+  mode: "full" | "incremental";
+  listMs: number;
+  /** Objects returned by the listing. */
+  listed: number;
+  /** Listed objects older than the watermark (no per-object checks). */
+  skippedByWatermark: number;
+  /** Time saved compared with the last full listing (estimate; 0 for full listings). */
+  estimatedSavedMs: number;
+}
+
+/**
+ * Estimate the time an incremental listing saved: the per-object checks not done for objects below the
+ * watermark and, when listing started after the last key, the listing time and checks of the pages not
+ * fetched (relative to the last full listing).
+ */
+export function estimateSavedMs(
+  mark: Watermark,
+  stats: Pick<ListingStats, "listMs" | "listed" | "skippedByWatermark">,
+  startedAfterKey: boolean,
+): number {
+  let saved = stats.skippedByWatermark * mark.checkMsPerObject;
+  if (startedAfterKey) {
+    const notListed = Math.max(0, mark.fullListObjects - stats.listed);
+    saved +=
+      Math.max(0, mark.fullListMs - stats.listMs) +
+      notListed * mark.checkMsPerObject;
+  }
+  return Math.round(saved);
+}
+
+/** Objects this close below the watermark are still checked (uploads finishing while the last sync listed). */
+export const WATERMARK_OVERLAP_MS = 5 * 60 * 1000;
+
+/** True when the object is old enough to skip under `mark`. */
+export function isBelowWatermark(
+  lastModified: string | undefined,
+  mark: Watermark,
+): boolean {
+  if (!lastModified) return false;
+  return (
+    new Date(lastModified).getTime() <
+    new Date(mark.lastModified).getTime() - WATERMARK_OVERLAP_MS
+  );
+}
+
+/**
+ * Advance the watermark after a sync. `handled[i]` is true when keys[i] was skipped as unchanged or downloaded;
+ * the mark never moves past an object that was not (download error, sync limit, shutdown), so it is picked
+ * up next time. A full listing also refreshes the cost figures used by estimateSavedMs.
+ */
+export function nextWatermark(
+  previous: Watermark | undefined,
+  keys: { key: string; lastModified?: string }[],
+  handled: boolean[],
+  full: { listMs: number; listed: number; checkMsPerObject: number } | null,
+  now: Date = new Date(),
+): Watermark {
+  const pending = keys.filter((_, i) => !handled[i]);
+  let lastModified: string;
+  if (pending.length > 0) {
+    lastModified = pending.reduce(
+      (min, k) => ((k.lastModified ?? "") < min ? (k.lastModified ?? "") : min),
+      pending[0].lastModified ?? "",
+    );
+  } else {
+    lastModified = keys.reduce(
+      (max, k) =>
+        k.lastModified && k.lastModified > max ? k.lastModified : max,
+      full ? "" : (previous?.lastModified ?? ""),
+    );
+  }
+  const firstPending = handled.indexOf(false);
+  const lastKey =
+    firstPending === -1
+      ? (keys.at(-1)?.key ?? previous?.lastKey ?? "")
+      : firstPending > 0
+        ? keys[firstPending - 1].key
+        : (previous?.lastKey ?? "");
+  return {
+    lastModified,
+    lastKey,
+    lastFullListAt: full
+      ? now.toISOString()
+      : (previous?.lastFullListAt ?? now.toISOString()),
+    fullListMs: full ? full.listMs : (previous?.fullListMs ?? 0),
+    fullListObjects: full ? full.listed : (previous?.fullListObjects ?? 0),
+    checkMsPerObject: full
+      ? full.checkMsPerObject
+      : (previous?.checkMsPerObject ?? 0),
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Tenant/purchaser auto-discovery (s3.discovery): list the top-level (tenant) and second-level (purchaser)
+ * folders of S3_BUCKET instead of maintaining S3_TENANT_PURCHASERS by hand. The raw listing is cached in
+ * discovered-tenants.json; allow/deny rules are applied when buckets are built from it, so changing them
+ * does not need a new listing. Refreshed by `discover`, before sync / sync-extract when the cache is missing
+ * or older than refreshMinutes, and from the app's brand/purchaser picker.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type { Config, S3BucketConfig, S3DiscoveryConfig } from "./types.js";
+import { globMatcher } from "./file-filter.js";
+import { createSyncSourceResolver } from "./sync-source.js";
+
+const DISCOVERY_CACHE_FILE = "discovered-tenants.json";
+
+export type TenantPurchasers = Record<string, string[]>;
+
+export interface DiscoveredTenants {
+  bucket: string;
+  /** When the bucket was listed (ISO). */
+  discoveredAt: string;
+  /** Every tenant folder with its purchaser folders, before allow/deny rules. */
+  tenantPurchasers: TenantPurchasers;
+}
+
+/** Validate s3.discovery; returns human-readable problems (empty when valid). */
+export function validateDiscovery(value: unknown): string[] {
+  const c = value as S3DiscoveryConfig | null;
+  if (typeof c !== "object" || c === null) return ["s3.discovery (object)"];
+  const problems: string[] = [];
+  if (c.enabled !== undefined && typeof c.enabled !== "boolean")
+    problems.push("s3.discovery.enabled (boolean when set)");
+  for (const key of [
+    "allowTenants",
+    "denyTenants",
+    "allowPurchasers",
+    "denyPurchasers",
+  ] as const) {
+    const v = c[key];
+    if (
+      v !== undefined &&
+      !(Array.isArray(v) && v.every((p) => typeof p === "string" && p !== ""))
+    )
+      problems.push(`s3.discovery.${key} (array of strings when set)`);
+  }
+  if (
+    c.cachePath !== undefined &&
+    (typeof c.cachePath !== "string" || c.cachePath === "")
+  )
+    problems.push("s3.discovery.cachePath (path when set)");
+  if (
+    c.refreshMinutes !== undefined &&
+    !(typeof c.refreshMinutes === "number" && c.refreshMinutes >= 0)
+  )
+    problems.push("s3.discovery.refreshMinutes (>= 0 when set)");
+  return problems;
+}
+
+export function getDiscoveryCachePath(config: Config): string {
+  return (
+    config.s3.discovery?.cachePath ??
+    join(dirname(config.run.checkpointPath), DISCOVERY_CACHE_FILE)
+  );
+}
+
+export function loadDiscoveredTenants(path: string): DiscoveredTenants | null {
+  if (!existsSync(path)) return null;
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8")) as DiscoveredTenants;
+    return typeof data?.bucket === "string" &&
+      typeof data.tenantPurchasers === "object" &&
+      data.tenantPurchasers !== null
+      ? data
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveDiscoveredTenants(path: string, data: DiscoveredTenants): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(path, JSON.stringify(data, null, 2), "utf-8");
+}
+
+/**
+ * One bucket entry per (tenant, purchaser) in a single bucket with <tenant>/<purchaser>/... folders.
+ * Staging becomes output/staging/<tenant>/<purchaser>/<key-after-prefix>.
+ */
+export function bucketsForTenantPurchasers(
+  bucket: string,
+  mapping: TenantPurchasers,
+): S3BucketConfig[] {
+  const buckets: S3BucketConfig[] = [];
+  for (const [tenant, purchasers] of Object.entries(mapping)) {
+    if (!Array.isArray(purchasers)) continue;
+    for (const purchaser of purchasers) {
+      buckets.push({
+        name: tenant,
+        bucket,
+        prefix: `${tenant}/${purchaser}/`,
+        tenant,
+        purchaser,
+      });
+    }
+  }
+  return buckets;
+}
+
+function ruleMatcher(
+  allow: string[] | undefined,
+  deny: string[] | undefined,
+): (name: string) => boolean {
+  const allowed = (allow ?? []).map(globMatcher);
+  const denied = (deny ?? []).map(globMatcher);
+  return (name) =>
+    (allowed.length === 0 || allowed.some((m) => m(name))) &&
+    !denied.some((m) => m(name));
+}
+
+/** Apply allow/deny rules; tenants left without purchasers are dropped. */
+export function applyDiscoveryRules(
+  mapping: TenantPurchasers,
+  discovery: S3DiscoveryConfig,
+): TenantPurchasers {
+  const tenantOk = ruleMatcher(discovery.allowTenants, discovery.denyTenants);
+  const purchaserOk = ruleMatcher(
+    discovery.allowPurchasers,
+    discovery.denyPurchasers,
+  );
+  const out: TenantPurchasers = {};
+  for (const [tenant, purchasers] of Object.entries(mapping)) {
+    if (!tenantOk(tenant)) continue;
+    const kept = purchasers.filter((p) => purchaserOk(`${tenant}/${p}`));
+    if (kept.length > 0) out[tenant] = kept;
+  }
+  return out;
+}
+
+/** List the tenant and purchaser folders of `bucket` (S3 common prefixes, or directories for file://). */
+export async function discoverTenants(
+  config: Config,
+  bucket: string,
+): Promise<DiscoveredTenants> {
+  const source = createSyncSourceResolver(config.s3)({ name: bucket, bucket });
+  const tenantPurchasers: TenantPurchasers = {};
+  for (const tenant of await source.listFolders("")) {
+    tenantPurchasers[tenant] = await source.listFolders(`${tenant}/`);
+  }
+  return {
+    bucket,
+    discoveredAt: new Date().toISOString(),
+    tenantPurchasers,
+  };
+}
+
+function isStale(
+  cached: DiscoveredTenants,
+  discovery: S3DiscoveryConfig,
+  now: Date,
+): boolean {
+  const minutes = discovery.refreshMinutes ?? 0;
+  if (minutes <= 0) return false;
+  const age = now.getTime() - new Date(cached.discoveredAt).getTime();
+  return !(age >= 0 && age < minutes * 60_000);
+}
+
+/**
+ * With discovery enabled and S3_BUCKET set: re-list the bucket when forced, when there is no cache for it,
+ * or when the cache is older than refreshMinutes, then replace config.s3.buckets with the discovered
+ * entries (unless none pass the rules). Returns the listing used, or null when discovery is off.
+ */
+export async function refreshDiscoveredTenants(
+  config: Config,
+  options: { force?: boolean } = {},
+): Promise<DiscoveredTenants | null> {
+  const discovery = config.s3.discovery;
+  const bucket = process.env.S3_BUCKET?.trim();
+  if (!discovery?.enabled || !bucket) return null;
+  const cachePath = getDiscoveryCachePath(config);
+  let discovered = loadDiscoveredTenants(cachePath);
+  if (
+    options.force ||
+    !discovered ||
+    discovered.bucket !== bucket ||
+    isStale(discovered, discovery, new Date())
+  ) {
+    discovered = await discoverTenants(config, bucket);
+    saveDiscoveredTenants(cachePath, discovered);
+  }
+  const buckets = bucketsForTenantPurchasers(
+    bucket,
+    applyDiscoveryRules(discovered.tenantPurchasers, discovery),
+  );
+  if (buckets.length > 0) config.s3.buckets = buckets;
+  return discovered;
+}
@@ -5,39 +5,226 @@
 export interface ApiConfig {
   baseUrl: string;
   timeoutMs: number;
+  /** Max pooled keep-alive connections to the API per run. Default: run.concurrency. */
+  maxConnections?: number;
+  /** Close idle pooled connections after this many ms. Default: 4000 (undici default). */
+  keepAliveTimeoutMs?: number;
+  /** Upper bound for a server-advertised keep-alive timeout (ms). Default: 600000. */
+  keepAliveMaxTimeoutMs?: number;
+  /** HTTP/1.1 pipelining depth per connection. Default: 1 (no pipelining). */
+  pipelining?: number;
+}
+
+/** Include/exclude rules (see file-filter.ts). A file must satisfy every rule that is set. */
+export interface FileFilterConfig {
+  /** Globs a file must match (any of). A pattern without "/" matches the file name at any depth. */
+  include?: string[];
+  /** Globs that filter a file out, e.g. ".DS_Store", "~$*", "*.tmp", "archive/**". */
+  exclude?: string[];
+  /** Allowed extensions, e.g. ["xlsx", "xls", "csv"] (case-insensitive). */
+  extensions?: string[];
+  /** Size bounds in bytes (minSize: 1 drops zero-byte objects). */
+  minSize?: number;
+  maxSize?: number;
+  /** LastModified window: ISO date or an age like "30d" / "12h" (modifiedAfter inclusive, modifiedBefore exclusive). */
+  modifiedAfter?: string;
+  modifiedBefore?: string;
 }
 
 export interface S3BucketConfig {
   name: string;
+  /** S3 bucket name, or file:///path/to/dir (or file://./relative/dir) to sync from a local directory. */
   bucket: string;
   prefix?: string;
   /** Tenant folder name (when using single-bucket tenant/purchaser layout). */
   tenant?: string;
   /** Purchaser folder name (when using single-bucket tenant/purchaser layout). */
   purchaser?: string;
+  /** Include/exclude rules for this bucket entry (applied at sync and when discovering staged files). */
+  filter?: FileFilterConfig;
+  /** Per-bucket overrides of s3.region / s3.endpoint / s3.forcePathStyle / s3.profile. */
+  region?: string;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  profile?: string;
 }
 
 export interface S3Config {
   buckets: S3BucketConfig[];
   stagingDir: string;
   region: string;
+  /** Custom S3 endpoint URL for S3-compatible stores (e.g. http://localhost:9000 for MinIO). Default: AWS. */
+  endpoint?: string;
+  /** Use path-style addressing (endpoint/bucket/key), usually required with endpoint. Default: false. */
+  forcePathStyle?: boolean;
+  /** Credentials profile from the shared AWS config/credentials files. Default: the SDK credential chain. */
+  profile?: string;
   /** Max number of files to download per sync (optional). Skipped (checksum match) do not count. */
   syncLimit?: number;
   /** Path to JSON file storing key -> SHA-256 for skip-on-checksum. Default: output/checkpoints/sync-manifest.json */
   syncManifestPath?: string;
+  /** Max number of S3 downloads in flight across all buckets of a sync. Default: 1 (one file at a time). */
+  downloadConcurrency?: number;
+  /** What to do with staged files whose object is no longer in the bucket. Default: "off" (keep them). */
+  prune?: PruneMode;
+  /** Incremental listing with a LastModified watermark per bucket entry. */
+  listing?: S3ListingConfig;
+  /** Where prune: quarantine moves files (under <timestamp>/<brand>/...). Default: output/quarantine next to stagingDir. */
+  quarantineDir?: string;
+  /** Build the tenant -> purchaser map by listing S3_BUCKET instead of reading S3_TENANT_PURCHASERS. */
+  discovery?: S3DiscoveryConfig;
+}
+
+export interface S3DiscoveryConfig {
+  /** List top-level (tenant) and second-level (purchaser) folders of S3_BUCKET. Default: false. */
+  enabled?: boolean;
+  /** Tenant folder names or globs to keep (all when empty). */
+  allowTenants?: string[];
+  /** Tenant folder names or globs to drop; wins over allowTenants. */
+  denyTenants?: string[];
+  /** Purchaser names or globs to keep (all when empty); a pattern with "/" matches "<tenant>/<purchaser>". */
+  allowPurchasers?: string[];
+  /** Purchaser names or globs to drop; wins over allowPurchasers. */
+  denyPurchasers?: string[];
+  /** Discovery cache. Default: discovered-tenants.json next to run.checkpointPath. */
+  cachePath?: string;
+  /** Re-list before sync / sync-extract once the cache is older than this. Default: 0 (only when missing or on `discover`). */
+  refreshMinutes?: number;
+}
+
+export type PruneMode = "off" | "delete" | "quarantine";
+
+export interface S3ListingConfig {
+  /** Skip objects older than the bucket entry's LastModified watermark. Default: false (list everything). */
+  incremental?: boolean;
+  /** Keys sort in upload order (e.g. date-prefixed), so listing can start after the last key seen. Default: false. */
+  keysSortedByTime?: boolean;
+  /** Run a full listing (deletions, rewrites of old keys, prune) at least this often. Default: 24 hours. */
+  fullReconcileHours?: number;
 }
 
 export interface RunConfig {
+  /** Include/exclude rules for every bucket entry, on top of the entry's own filter. */
+  filter?: FileFilterConfig;
   concurrency: number;
   requestsPerSecond: number;
   checkpointPath: string;
   skipCompleted: boolean;
   /** Max number of retries per file when the API call fails with timeout/5xx/429. Default: 0 (no retries). */
   maxRetries?: number;
-  /** Base delay in milliseconds between retries (simple linear backoff). Default: 500ms. */
+  /** Base delay in milliseconds between retries (simple linear backoff). Default: 0 (500ms as the retryPolicy base). */
   retryBackoffMs?: number;
   /** When true, only retry files that previously failed (status 'error'). Default: false. */
   retryFailed?: boolean;
+  /** Optional staged request rate (replaces requestsPerSecond while set). */
+  loadProfile?: LoadProfileConfig;
+  /** Optional: resize the extraction queue from observed latency and 429/5xx rate (run.concurrency is the starting point). */
+  adaptiveConcurrency?: AdaptiveConcurrencyConfig;
+  /** Optional retry policy; when set it replaces maxRetries / retryBackoffMs and the fixed network retry schedule. */
+  retryPolicy?: RetryPolicyConfig;
+  /** Optional circuit breaker: pause extraction while the API is failing instead of aborting the run. */
+  circuitBreaker?: CircuitBreakerConfig;
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerConfig {
+  /** Open when at least this fraction of the window failed (network error or 5xx). Default: 0.5. */
+  failureRatio?: number;
+  /** Sliding window of most recent requests. Default: 20. */
+  windowSize?: number;
+  /** Requests needed in the window before the breaker can open. Default: 10. */
+  minRequests?: number;
+  /** How long to hold requests before a half-open probe (ms). Default: 30000. */
+  openDurationMs?: number;
+  /** Abort the run (resume later) once the breaker has been open this long in total (ms). Default: 1800000. */
+  maxOpenDurationMs?: number;
+}
+
+export type RetryStrategy =
+  "fixed" | "linear" | "exponential" | "decorrelated-jitter";
+
+export interface RetryPolicyConfig {
+  /** Backoff for 429/5xx retries. Default: exponential (with jitter). */
+  strategy?: RetryStrategy;
+  /** Base delay for 429/5xx retries (ms). Default: run.retryBackoffMs, else 500. */
+  baseDelayMs?: number;
+  /** Cap on any backoff delay (ms); a longer Retry-After is still honored. Default: 30000. */
+  maxDelayMs?: number;
+  /** Wait at least the Retry-After header on 429/5xx responses. Default: true. */
+  respectRetryAfter?: boolean;
+  /** Retries per file for 429/5xx. Default: run.maxRetries, else 0. */
+  maxHttpRetries?: number;
+  /** Retries per file for network errors before the run is aborted. Default: 5. */
+  maxNetworkRetries?: number;
+  /** Backoff for network retries. Default: fixed. */
+  networkStrategy?: RetryStrategy;
+  /** Base delay for network retries (ms). Default: 12000. */
+  networkBaseDelayMs?: number;
+  /** Total retries (network + HTTP) allowed across the whole run. Omit for no limit. */
+  runRetryBudget?: number;
+}
+
+export interface AdaptiveConcurrencyConfig {
+  /** Lower bound for the queue concurrency. */
+  min: number;
+  /** Upper bound for the queue concurrency. */
+  max: number;
+  /** Shrink by 1 when the p95 latency of a window exceeds this (ms). */
+  targetLatencyMs: number;
+  /** Halve (see decreaseFactor) when more than this fraction of attempts in a window got 429/5xx. Default: 0.05. */
+  maxThrottleRate?: number;
+  /** Completed files per evaluation window. Default: 10. */
+  windowSize?: number;
+  /** Multiplier applied when throttled. Default: 0.5. */
+  decreaseFactor?: number;
+}
+
+/**
+ * One load profile stage.
+ * - ramp: linear from startRps to targetRps over the stage.
+ * - step: startRps to targetRps in `steps` equal jumps.
+ * - hold / soak / spike: constant targetRps (the type only labels the stage in reports).
+ */
+export interface LoadProfileStage {
+  type: "ramp" | "step" | "hold" | "spike" | "soak";
+  durationSeconds: number;
+  targetRps: number;
+  /** ramp/step only. Default: the previous stage's targetRps (0 for the first stage). */
+  startRps?: number;
+  /** step only. Default: 5. */
+  steps?: number;
+  /** Max in-flight requests during this stage. Default: run.concurrency. */
+  concurrency?: number;
+  /** Label in reports. Default: e.g. "ramp 1→20 rps". */
+  name?: string;
+}
+
+export interface LoadProfileConfig {
+  /** Stages run back to back from the start of extraction. Files not started when the last stage ends stay pending for a later run. */
+  stages: LoadProfileStage[];
+}
+
+/** pattern_key / request_metadata sent with an extract upload. */
+export interface ExtractRequestOptions {
+  /** Force extraction with this pattern (empty = let the API detect). Supports {{var}} placeholders. */
+  patternKey?: string;
+  /** JSON object (or pre-serialized JSON string) sent as request_metadata. String values support {{var}} placeholders. */
+  requestMetadata?: Record<string, unknown> | string;
+}
+
+export interface ExtractOverride extends ExtractRequestOptions {
+  /** Tenant (brand) this override applies to. Omit to match any tenant. */
+  tenant?: string;
+  /** Purchaser this override applies to. Omit to match any purchaser. */
+  purchaser?: string;
+}
+
+export interface ExtractConfig extends ExtractRequestOptions {
+  /** Per tenant/purchaser overrides; the first match wins. */
+  overrides?: ExtractOverride[];
+  /** JSON file mapping "<brand>/<relativePath>" to per-file options (highest precedence). */
+  mappingFile?: string;
 }
 
 export interface LoggingConfig {
@@ -49,8 +236,14 @@ export interface LoggingConfig {
 export interface ReportConfig {
   outputDir: string;
   formats: ("markdown" | "html" | "json")[];
-  /** Keep only this many report sets (each run = one .html + one .json). Older reports are deleted after each write. Omit or 0 = keep all. */
+  /** Keep only this many report sets (each run = one .md/.html/.json per enabled format). Older reports are deleted after each write. Omit or 0 = keep all. */
   retainCount?: number;
+  /** Keep the per-run extraction result folders (output/extractions/runs/<runId>) of only the newest N runs. Omit or 0 = keep all. */
+  extractionRetainRuns?: number;
+  /** Delete per-run extraction result folders last written more than this many days ago. Omit or 0 = keep all. */
+  extractionRetainDays?: number;
+  /** Interval of the per-run time series in the reports (throughput, in-flight, latency, errors). Default 10. */
+  timeSeriesIntervalSeconds?: number;
 }
 
 export interface Config {
@@ -59,6 +252,211 @@ export interface Config {
   run: RunConfig;
   logging: LoggingConfig;
   report: ReportConfig;
+  /** Optional pattern_key / request_metadata settings for extract requests. */
+  extract?: ExtractConfig;
+  /** Optional: upload extraction JSON and report files to a bucket for downstream teams. */
+  resultsSink?: ResultsSinkConfig;
+  /** Optional: score extraction results against a ground-truth directory (golden dataset). */
+  accuracy?: AccuracyConfig;
+  /** Optional: settings of the run-to-run `diff` command (ignored JSON paths, regression threshold). */
+  diff?: DiffConfig;
+  /** Optional: compare each run's latency, throughput and error rate with a baseline run or window of runs. */
+  baseline?: BaselineConfig;
+  /** Optional: service-level objectives checked at the end of `run` / `sync-extract` (pass/fail and exit code). */
+  slo?: SloConfig;
+}
+
+export interface ResultsSinkConfig {
+  /** Output bucket, or file:///dir (file://./dir) for a local folder. */
+  bucket: string;
+  /** Key prefix for everything uploaded (e.g. "intelliextract/"). Default: none. */
+  prefix?: string;
+  /** Connection overrides; default to s3.region / endpoint / forcePathStyle / profile. */
+  region?: string;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  profile?: string;
+  /** Upload the report files written at the end of a run. Default: true. */
+  uploadReports?: boolean;
+  /** Uploads in flight. Default: 4. */
+  concurrency?: number;
+  /** Retries per upload after a failed attempt. Default: 3. */
+  maxRetries?: number;
+  /** First retry delay (ms), doubled per retry with jitter. Default: 500. */
+  retryBaseDelayMs?: number;
+  /** Key -> SHA-256 of uploaded content, so unchanged files are not uploaded again. Default: results-sink-manifest.json next to run.checkpointPath. */
+  manifestPath?: string;
+}
+
+export interface AccuracyConfig {
+  /** Expected JSON per staged file: <groundTruthDir>/<brand>/<relativePath>.json (same tree as staging). */
+  groundTruthDir: string;
+  /** Dot path of the extracted values in the API response (e.g. "data"). Default: the whole response. */
+  responsePath?: string;
+  /** Field paths left out of scoring; globs on dot paths, "[]" marks line item rows (e.g. "meta.*", "items[].sku"). */
+  ignoreFields?: string[];
+  /** Relative tolerance for numeric matches after normalization (e.g. 0.01 = 1%). Default 0. */
+  numericTolerance?: number;
+}
+
+export interface DiffConfig {
+  /** JSON paths left out of the comparison; globs on dot paths, "[]" marks array elements (e.g. "meta.requestId", "**.timestamp"). */
+  ignorePaths?: string[];
+  /** `diff` exits non-zero when more files than this regressed. Default 0. */
+  maxRegressions?: number;
+  /** `diff` also exits non-zero when regressed / paired files exceeds this ratio (0..1). Default: not checked. */
+  maxRegressionRate?: number;
+}
+
+export interface BaselineConfig {
+  /** Pinned baseline run. Default: a rolling window of earlier runs. */
+  runId?: string;
+  /** Rolling window: the last N earlier runs with files of the same tenant/purchaser pairs. Default 5. */
+  window?: number;
+  /** Significance level of the statistical tests. Default 0.05. */
+  alpha?: number;
+  /** Smallest relative worsening of latency or throughput that is flagged (0.1 = 10%). Default 0.1. */
+  minRelativeChange?: number;
+  /** Latency samples needed in both the run and the baseline before comparing. Default 10. */
+  minSamples?: number;
+}
+
+/** One metric of a run compared with its baseline. */
+export interface BaselineMetricComparison {
+  metric:
+    | "p50LatencyMs"
+    | "p95LatencyMs"
+    | "p99LatencyMs"
+    | "throughputPerSecond"
+    | "errorRate";
+  baseline: number;
+  current: number;
+  /** (current - baseline) / baseline; undefined when the baseline is 0. */
+  relativeChange?: number;
+  /**
+   * One-sided p-value of the test behind the metric (latency: Mann-Whitney, throughput: two Poisson rates,
+   * error rate: two-proportion z). Throughput is the wall-clock rate (wallClockThroughputPerSecond).
+   */
+  pValue: number;
+  /** Significantly worse than the baseline. */
+  regressed: boolean;
+}
+
+/** Statistical comparison of a run with its baseline (see baseline.ts). */
+export interface BaselineComparison {
+  mode: "pinned" | "window";
+  /** Baseline runs, newest first. */
+  runIds: string[];
+  alpha: number;
+  minRelativeChange: number;
+  /** Processed requests (with latency) in the run and in the baseline. */
+  currentSamples: number;
+  baselineSamples: number;
+  /** Mann-Whitney U of the run's latencies against the baseline's (one-sided: the run is slower). */
+  mannWhitneyU: number;
+  metrics: BaselineMetricComparison[];
+  /** Metrics that regressed. */
+  regressions: number;
+}
+
+/** SLO limits; only the ones set are checked. */
+export interface SloThresholds {
+  /** Failed / processed files (0..1). */
+  maxErrorRate?: number;
+  maxP95LatencyMs?: number;
+  maxP99LatencyMs?: number;
+  /** Processed files per wall-clock second (RunMetrics.wallClockThroughputPerSecond). */
+  minThroughputPerSecond?: number;
+  /** Failures classified as timeouts (failureBreakdown.timeout). */
+  maxTimeouts?: number;
+}
+
+export interface SloConfig extends SloThresholds {
+  /** Limits for the files of one brand (tenant), keyed by brand. */
+  byBrand?: Record<string, SloThresholds>;
+  /** Limits for the files of one pattern key (detected, else requested), keyed by pattern key. */
+  byPatternKey?: Record<string, SloThresholds>;
+}
+
+/** One SLO limit checked against a run (or the brand / pattern key slice of it). */
+export interface SloCheck {
+  scope: "run" | "brand" | "patternKey";
+  /** Brand or pattern key (unset for scope "run"). */
+  name?: string;
+  /** processedFiles: the check that fails a run that processed no files while objectives are set. */
+  metric:
+    | "errorRate"
+    | "p95LatencyMs"
+    | "p99LatencyMs"
+    | "throughputPerSecond"
+    | "timeouts"
+    | "processedFiles";
+  threshold: number;
+  actual: number;
+  passed: boolean;
+}
+
+/** SLO verdict of a run (see slo.ts). Scopes without processed files are not checked. */
+export interface SloVerdict {
+  passed: boolean;
+  checks: SloCheck[];
+  /** Checks that failed. */
+  violations: number;
+}
+
+/** Field-level score of one extraction against its ground truth. */
+export interface FileAccuracy {
+  /** Non-empty fields in the ground truth. */
+  expectedFields: number;
+  /** Non-empty extracted fields at paths the ground truth defines. */
+  predictedFields: number;
+  /** Fields equal after normalization (includes exact matches). */
+  matchedFields: number;
+  /** Fields equal before normalization. */
+  exactFields: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  /** exactFields / expectedFields. */
+  exactMatchRate: number;
+  /** Row alignment of line item arrays (arrays of objects), summed over all of them. */
+  lineItems?: {
+    expectedRows: number;
+    predictedRows: number;
+    alignedRows: number;
+  };
+  /** First mismatched fields (values truncated), for reports. */
+  mismatches?: { path: string; expected: string; actual: string }[];
+}
+
+/** Accuracy summed over a group of scored files (micro-averaged: field counts are added before dividing). */
+export interface AccuracyGroup {
+  key: string;
+  files: number;
+  expectedFields: number;
+  predictedFields: number;
+  matchedFields: number;
+  exactFields: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  exactMatchRate: number;
+}
+
+/** Outcome of uploading a file's extraction JSON to the results sink. */
+export type UploadStatus = "uploaded" | "unchanged" | "failed";
+
+/** Per-request timing breakdown (ms). connectMs/tlsMs are 0 when a pooled connection was reused. */
+export interface RequestTiming {
+  /** DNS + TCP connect for a new connection. */
+  connectMs: number;
+  /** TLS handshake for a new https connection. */
+  tlsMs: number;
+  /** Request start (including upload) until response headers. */
+  ttfbMs: number;
+  /** Response body download after headers. */
+  downloadMs: number;
+  reusedConnection: boolean;
 }
 
 export type CheckpointStatus =
@@ -66,7 +464,9 @@ export type CheckpointStatus =
   | "running"
   | "done"
   | "error"
-  | "skipped";
+  | "skipped"
+  | "interrupted"
+  | "filtered";
 
 export interface CheckpointRecord {
   filePath: string;
@@ -81,6 +481,28 @@ export interface CheckpointRecord {
   patternKey?: string;
   runId: string;
   purchaser?: string;
+  /** pattern_key sent with the request (from extract config); patternKey is the one the API detected. */
+  requestedPatternKey?: string;
+  /** request_metadata JSON sent with the request. */
+  requestMetadata?: string;
+  /** Connect/TLS/TTFB/download breakdown of the final attempt (latencyMs is headers-received time). */
+  timing?: RequestTiming;
+  /** Load profile stage (0-based index into run.loadProfile.stages) the request was dispatched in. */
+  loadStageIndex?: number;
+  /** Load profile stage label. */
+  loadStage?: string;
+  /** Adaptive queue concurrency limit when the request was dispatched. */
+  concurrencyLimit?: number;
+  /** Process that wrote a "running" row; used to find rows orphaned by a crash. */
+  pid?: number;
+  /** Results sink upload of the extraction JSON (unset when no sink is configured or not uploaded yet). */
+  uploadStatus?: UploadStatus;
+  /** Where the extraction JSON was uploaded (s3://bucket/key or file:///dir/key). */
+  uploadLocation?: string;
+  /** Last upload error when uploadStatus is "failed". */
+  uploadError?: string;
+  /** Score against the ground truth (only when accuracy is configured and the file has an expected JSON). */
+  accuracy?: FileAccuracy;
 }
 
 export interface RequestResponseLogEntry {
@@ -92,7 +514,12 @@ export interface RequestResponseLogEntry {
     method: string;
     url: string;
     bodyPreview?: string;
+    /** Bytes of the uploaded file sent with this attempt (matches its size on disk after a full upload). */
     bodyLength?: number;
+    /** Bytes of the whole multipart body: the file plus the form-data envelope and fields. */
+    multipartLength?: number;
+    patternKey?: string;
+    requestMetadata?: string;
   };
   response: {
     statusCode: number;
@@ -100,8 +527,19 @@ export interface RequestResponseLogEntry {
     bodyPreview?: string;
     bodyLength?: number;
     headers?: Record<string, string>;
+    timing?: RequestTiming;
   };
   success: boolean;
+  /** 1-based attempt number for this file (every attempt is logged). */
+  attempt?: number;
+  /** Set when another attempt follows: why and after how long. */
+  retry?: {
+    /** "network" or "http_<status>". */
+    reason: string;
+    delayMs: number;
+    /** Delay requested by the Retry-After header (ms), when present and honored. */
+    retryAfterMs?: number;
+  };
 }
 
 /** Failure counts by inferred error type (timeout, 4xx, 5xx, read error, other). */
@@ -121,12 +559,26 @@ export interface RunMetrics {
   success: number;
   failed: number;
   skipped: number;
+  /** Files whose request was cut off by a crash or shutdown; they are re-queued on resume. */
+  interrupted: number;
+  /** Staged files left out by include/exclude rules (s3.buckets[].filter, run.filter); not in totalFiles. */
+  filtered: number;
+  /** Filtered files with the rule that excluded them. */
+  filteredFiles?: Array<{
+    relativePath: string;
+    brand: string;
+    purchaser?: string;
+    reason: string;
+  }>;
   totalLatencyMs: number;
   /** Sum of extraction latency for all processed files (done + error). Used for "Run duration" in report. */
   totalProcessingTimeMs: number;
   latenciesMs: number[];
+  /** Processed files per second of summed latency (a per-request rate; understates throughput above concurrency 1). */
   throughputPerSecond: number;
   throughputPerMinute: number;
+  /** Processed files per second of wall-clock time (first request start to last finish, per run). */
+  wallClockThroughputPerSecond: number;
   avgLatencyMs: number;
   p50LatencyMs: number;
   p95LatencyMs: number;
@@ -155,10 +607,160 @@ export interface RunMetrics {
     statusCode?: number;
     errorMessage?: string;
   }[];
+  /** Requested vs detected pattern key counts (only when at least one file had a requested pattern key). */
+  patternKeyComparison?: {
+    requestedPatternKey: string;
+    detectedPatternKey: string;
+    count: number;
+  }[];
+  /** Per load profile stage results (only when requests were tagged with a stage). */
+  loadStages?: LoadStageMetrics[];
+  /** Adaptive concurrency over the run (only when run.adaptiveConcurrency was set). */
+  adaptiveConcurrency?: {
+    minConcurrency: number;
+    maxConcurrency: number;
+    finalConcurrency: number;
+    /** Limit changes in dispatch order: first request at each new limit. */
+    timeline: { at: string; concurrency: number }[];
+  };
+  /** Comparison with the baseline runs (only when baseline is configured and a baseline was found). */
+  baseline?: BaselineComparison;
+  /** SLO verdict (only when slo is configured). */
+  slo?: SloVerdict;
+  /** Per-interval throughput, latency and errors (set for reports, see computeTimeSeries in metrics.ts). */
+  timeSeries?: RunTimeSeries;
+  /** Golden-dataset accuracy (only when at least one processed file was scored). */
+  accuracy?: {
+    overall: AccuracyGroup;
+    byPatternKey: AccuracyGroup[];
+    byBrand: AccuracyGroup[];
+    byPurchaser: AccuracyGroup[];
+    /** Scored files with the lowest F1 (worst first). */
+    lowestScoring: {
+      filePath: string;
+      relativePath: string;
+      brand: string;
+      purchaser?: string;
+      patternKey?: string;
+      accuracy: FileAccuracy;
+    }[];
+  };
+}
+
+export type RunDiffClass =
+  | "unchanged"
+  | "changed"
+  | "newly_failing"
+  | "newly_passing"
+  | "still_failing"
+  | "only_in_base"
+  | "only_in_target";
+
+/** One structural difference between two extraction JSONs (values truncated). */
+export interface JsonDifference {
+  /** Dot path; array elements as [i]. */
+  path: string;
+  kind: "added" | "removed" | "changed";
+  base?: string;
+  target?: string;
+}
+
+/** A file of the base and/or target run (done/error rows only). */
+export interface RunDiffEntry {
+  filePath: string;
+  relativePath: string;
+  brand: string;
+  purchaser?: string;
+  classification: RunDiffClass;
+  baseStatus?: CheckpointStatus;
+  targetStatus?: CheckpointStatus;
+  baseStatusCode?: number;
+  targetStatusCode?: number;
+  basePatternKey?: string;
+  targetPatternKey?: string;
+  /** Both runs kept the file's extraction JSON, so the content was compared. */
+  contentCompared: boolean;
+  /** Differences found (differences holds the first few). */
+  differenceCount: number;
+  differences?: JsonDifference[];
+  /** Accuracy F1 in each run (only when the file was scored). */
+  baseF1?: number;
+  targetF1?: number;
+  /** Why the file counts as a regression (newly failing, or accuracy dropped). */
+  regression?: string;
+}
+
+/** Comparison of the extraction outputs of two runs (`diff --base --target`). */
+export interface RunDiff {
+  baseRunId: string;
+  targetRunId: string;
+  generatedAt: string;
+  ignorePaths: string[];
+  counts: Record<RunDiffClass, number>;
+  /** Files processed (done/error) in both runs. */
+  paired: number;
+  regressions: number;
+  /** regressions / paired. */
+  regressionRate: number;
+  maxRegressions: number;
+  maxRegressionRate?: number;
+  /** Regressions exceed maxRegressions or maxRegressionRate. */
+  thresholdExceeded: boolean;
+  /** Files successful in both runs whose detected pattern key changed, by base -> target key. */
+  patternKeyChanges: {
+    basePatternKey: string;
+    targetPatternKey: string;
+    count: number;
+  }[];
+  /** JSON paths that differ most often across paired files (array indexes folded to []). */
+  changedPaths: { path: string; files: number }[];
+  entries: RunDiffEntry[];
+}
+
+export interface LoadStageMetrics {
+  index: number;
+  name: string;
+  requests: number;
+  success: number;
+  failed: number;
+  errorRate: number;
+  /** Completed requests per second of stage wall-clock time (first start to last finish in the stage). */
+  throughputPerSecond: number;
+  p50LatencyMs: number;
+  p95LatencyMs: number;
+}
+
+/** One interval of a run, from the startedAt/finishedAt of its processed requests. */
+export interface TimeSeriesBucket {
+  /** Interval start (ISO). */
+  start: string;
+  /** Requests (done + error) that finished in the interval. */
+  completed: number;
+  /** Of those, failed (status error). */
+  errors: number;
+  /** Completed requests per second of the interval. */
+  throughputPerSecond: number;
+  /** Most requests in flight at once during the interval. */
+  inFlight: number;
+  /** Latency of the requests that finished in the interval (0 when none did). */
+  p50LatencyMs: number;
+  p95LatencyMs: number;
+}
+
+export interface RunTimeSeries {
+  /** Interval length; report.timeSeriesIntervalSeconds, widened when a run would need too many buckets. */
+  intervalSeconds: number;
+  /** Intervals with activity, in time order (idle intervals, e.g. between resumed sessions, are left out). */
+  buckets: TimeSeriesBucket[];
 }
 
 export interface Anomaly {
-  type: "high_latency" | "error_spike" | "timeout" | "unexpected_status";
+  type:
+    | "high_latency"
+    | "error_spike"
+    | "timeout"
+    | "unexpected_status"
+    | "baseline_regression";
   message: string;
   filePath?: string;
   value?: number;
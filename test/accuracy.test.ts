@@ -0,0 +1,135 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import type { Config } from "../src/types.js";
+import {
+  fieldPathMatcher,
+  groundTruthPath,
+  scoreAgainstGroundTruth,
+  scoreExtraction,
+  validateAccuracy,
+} from "../src/accuracy.js";
+
+describe("fieldPathMatcher", () => {
+  it("keeps '*' within a segment and covers everything below a match", () => {
+    const m = fieldPathMatcher("meta.*");
+    expect(m("meta.requestId")).toBe(true);
+    expect(m("meta.requestId.value")).toBe(true);
+    expect(m("metadata.requestId")).toBe(false);
+    expect(fieldPathMatcher("items[].sku")("items[].sku")).toBe(true);
+  });
+
+  it("matches a leading '**.' at any depth, including the top level", () => {
+    const m = fieldPathMatcher("**.timestamp");
+    expect(m("timestamp")).toBe(true);
+    expect(m("header.audit.timestamp")).toBe(true);
+    expect(m("header.timestamps")).toBe(false);
+  });
+});
+
+describe("validateAccuracy", () => {
+  it("requires groundTruthDir", () => {
+    expect(validateAccuracy({ numericTolerance: -1 })).toEqual([
+      "accuracy.groundTruthDir",
+      "accuracy.numericTolerance (>= 0 when set)",
+    ]);
+  });
+});
+
+describe("scoreAgainstGroundTruth", () => {
+  it("scores only the fields the ground truth defines", () => {
+    const score = scoreAgainstGroundTruth(
+      { groundTruthDir: "gt" },
+      { invoice: "INV-1", total: 10, note: "" },
+      { invoice: "INV-1", total: 12, extra: "ignored" },
+    );
+    expect(score).toMatchObject({
+      expectedFields: 2,
+      predictedFields: 2,
+      matchedFields: 1,
+      exactFields: 1,
+      precision: 0.5,
+      recall: 0.5,
+      f1: 0.5,
+    });
+    expect(score.mismatches).toEqual([
+      { path: "total", expected: "10", actual: "12" },
+    ]);
+  });
+
+  it("matches after normalization and within numericTolerance", () => {
+    const score = scoreAgainstGroundTruth(
+      { groundTruthDir: "gt", numericTolerance: 0.01 },
+      { vendor: "ACME  Corp", total: "1,234.50", tax: 100 },
+      { vendor: "acme corp", total: 1234.5, tax: 100.5 },
+    );
+    expect(score.matchedFields).toBe(3);
+    expect(score.exactFields).toBe(0);
+    expect(score.exactMatchRate).toBe(0);
+    expect(score.f1).toBe(1);
+  });
+
+  it("aligns line items by field overlap and counts unaligned rows", () => {
+    const score = scoreAgainstGroundTruth(
+      { groundTruthDir: "gt" },
+      {
+        items: [
+          { sku: "A", qty: 1 },
+          { sku: "B", qty: 2 },
+        ],
+      },
+      {
+        items: [
+          { sku: "B", qty: 2 },
+          { sku: "C", qty: 5 },
+          { sku: "A", qty: 1 },
+        ],
+      },
+    );
+    expect(score.lineItems).toEqual({
+      expectedRows: 2,
+      predictedRows: 3,
+      alignedRows: 2,
+    });
+    expect(score.expectedFields).toBe(4);
+    expect(score.predictedFields).toBe(6);
+    expect(score.matchedFields).toBe(4);
+    expect(score.recall).toBe(1);
+  });
+
+  it("honours responsePath and ignoreFields", () => {
+    const score = scoreAgainstGroundTruth(
+      { groundTruthDir: "gt", responsePath: "data", ignoreFields: ["meta"] },
+      { total: 5, meta: { requestId: "x" } },
+      { data: { total: 5, meta: { requestId: "y" } } },
+    );
+    expect(score.expectedFields).toBe(1);
+    expect(score.f1).toBe(1);
+  });
+});
+
+describe("scoreExtraction", () => {
+  let dir: string | undefined;
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("scores a response against the file's expected JSON", () => {
+    dir = mkdtempSync(join(tmpdir(), "accuracy-"));
+    const accuracy = { groundTruthDir: dir };
+    const job = { brand: "brand-a", relativePath: "q1/a.xlsx" };
+    const path = groundTruthPath(accuracy, job);
+    expect(path).toBe(join(dir, "brand-a", "q1", "a.xlsx.json"));
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify({ total: 5 }));
+    const config = { accuracy } as unknown as Config;
+
+    expect(scoreExtraction(config, job, '{"total":5}')?.f1).toBe(1);
+    expect(scoreExtraction(config, job, "not json")).toBeUndefined();
+    expect(
+      scoreExtraction(config, { ...job, relativePath: "b.xlsx" }, "{}"),
+    ).toBeUndefined();
+  });
+});
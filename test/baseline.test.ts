@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import type { CheckpointRecord } from "../src/types.js";
+import {
+  compareWithBaseline,
+  formatBaselineMetric,
+  validateBaseline,
+} from "../src/baseline.js";
+import { computeMetrics } from "../src/metrics.js";
+import { processedRecord } from "./records.js";
+
+/** `n` requests of a run; latencies vary a little so the rank test sees few ties. */
+function run(
+  runId: string,
+  n: number,
+  latencyMs: number,
+  { spacingMs = 1000, brand = "brand-a", failed = 0, day = 1 } = {},
+): CheckpointRecord[] {
+  return Array.from({ length: n }, (_, i) =>
+    processedRecord(
+      runId,
+      i,
+      latencyMs + (i % 10),
+      { brand, ...(i < failed ? { status: "error" as const } : {}) },
+      { start: Date.UTC(2024, 0, day), spacingMs },
+    ),
+  );
+}
+
+function compare(
+  records: CheckpointRecord[],
+  history: { runId: string; records: CheckpointRecord[] }[],
+  baseline = {},
+) {
+  const runId = records[0].runId;
+  const metrics = computeMetrics(
+    runId,
+    records,
+    new Date(records[0].startedAt!),
+    new Date(records[records.length - 1].finishedAt!),
+  );
+  return compareWithBaseline(baseline, [runId], records, metrics, [
+    { runId, records },
+    ...history,
+  ]);
+}
+
+function metric(
+  comparison: ReturnType<typeof compare>,
+  name: string,
+): NonNullable<typeof comparison>["metrics"][number] {
+  return comparison!.metrics.find((m) => m.metric === name)!;
+}
+
+describe("validateBaseline", () => {
+  it("reports out-of-range settings", () => {
+    expect(validateBaseline({ window: 0, alpha: 1, minSamples: 1.5 })).toEqual([
+      "baseline.window (integer >= 1 when set)",
+      "baseline.alpha (between 0 and 1 when set)",
+      "baseline.minSamples (integer >= 1 when set)",
+    ]);
+  });
+});
+
+describe("compareWithBaseline", () => {
+  it("returns undefined without an earlier run or with too few samples", () => {
+    expect(compare(run("r2", 20, 100, { day: 2 }), [])).toBeUndefined();
+    expect(
+      compare(run("r2", 20, 100, { day: 2 }), [
+        { runId: "r1", records: run("r1", 5, 100) },
+      ]),
+    ).toBeUndefined();
+  });
+
+  it("finds no regression when the run matches its baseline", () => {
+    const c = compare(run("r2", 30, 100, { day: 2 }), [
+      { runId: "r1", records: run("r1", 30, 100) },
+    ])!;
+    expect(c.mode).toBe("window");
+    expect(c.runIds).toEqual(["r1"]);
+    expect(c.regressions).toBe(0);
+  });
+
+  it("flags slower latencies with the Mann-Whitney test", () => {
+    const c = compare(run("r2", 30, 200, { day: 2 }), [
+      { runId: "r1", records: run("r1", 30, 100) },
+    ]);
+    const p95 = metric(c, "p95LatencyMs");
+    expect(p95.pValue).toBeLessThan(0.001);
+    expect(p95.regressed).toBe(true);
+    expect(formatBaselineMetric(p95)).toMatch(
+      /^P95 latency 209ms vs baseline 109ms \(\+\d+\.\d%, p<0\.001\)$/,
+    );
+  });
+
+  it("does not flag a significant shift smaller than minRelativeChange", () => {
+    const c = compare(
+      run("r2", 30, 105, { day: 2 }),
+      [{ runId: "r1", records: run("r1", 30, 100) }],
+      { minRelativeChange: 0.5 },
+    );
+    expect(metric(c, "p50LatencyMs").regressed).toBe(false);
+  });
+
+  it("flags lower wall-clock throughput with the Poisson rate test", () => {
+    const c = compare(run("r2", 40, 100, { day: 2, spacingMs: 1000 }), [
+      { runId: "r1", records: run("r1", 40, 100, { spacingMs: 250 }) },
+    ]);
+    const throughput = metric(c, "throughputPerSecond");
+    expect(throughput.current).toBeLessThan(throughput.baseline / 3);
+    expect(throughput.pValue).toBeLessThan(1e-6);
+    expect(throughput.regressed).toBe(true);
+  });
+
+  it("flags a higher error rate with the two-proportion test", () => {
+    const c = compare(run("r2", 40, 100, { day: 2, failed: 15 }), [
+      { runId: "r1", records: run("r1", 40, 100, { failed: 1 }) },
+    ]);
+    expect(metric(c, "errorRate").regressed).toBe(true);
+  });
+
+  it("pools only the window runs of the same tenant/purchaser pairs", () => {
+    const c = compare(
+      run("r4", 20, 100, { day: 4 }),
+      [
+        { runId: "r3", records: run("r3", 20, 100, { brand: "other" }) },
+        { runId: "r2", records: run("r2", 20, 100) },
+        { runId: "r1", records: run("r1", 20, 100) },
+      ],
+      { window: 1 },
+    )!;
+    expect(c.runIds).toEqual(["r2"]);
+    expect(c.baselineSamples).toBe(20);
+  });
+
+  it("uses the pinned run when baseline.runId is set", () => {
+    const c = compare(
+      run("r3", 20, 100, { day: 3 }),
+      [
+        { runId: "r2", records: run("r2", 20, 100) },
+        { runId: "r1", records: run("r1", 20, 100) },
+      ],
+      { runId: "r1" },
+    )!;
+    expect(c.mode).toBe("pinned");
+    expect(c.runIds).toEqual(["r1"]);
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  compactCheckpointDb,
+  getAllRecords,
+  getRecordsForRun,
+  openCheckpointDb,
+  startRun,
+  upsertCheckpoint,
+} from "../src/checkpoint.js";
+import { processedRecord } from "./records.js";
+
+let dir: string;
+let path: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "checkpoint-"));
+  path = join(dir, "checkpoint.jsonl");
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("checkpoint journal", () => {
+  it("gives handles sharing a journal distinct run numbers", () => {
+    const a = openCheckpointDb(path);
+    const b = openCheckpointDb(path);
+    expect(startRun(a)).toBe("RUN1");
+    expect(startRun(b)).toBe("RUN2");
+    expect(startRun(a)).toBe("RUN3");
+  });
+
+  it("applies rows other handles appended before its own", () => {
+    const a = openCheckpointDb(path);
+    const b = openCheckpointDb(path);
+    upsertCheckpoint(a, processedRecord("RUN1", 0, 100));
+    upsertCheckpoint(b, processedRecord("RUN1", 1, 100));
+    expect(getRecordsForRun(b, "RUN1")).toHaveLength(2);
+    upsertCheckpoint(a, processedRecord("RUN1", 2, 100));
+    expect(getRecordsForRun(a, "RUN1")).toHaveLength(3);
+  });
+
+  it("keeps rows appended by another handle across compaction", () => {
+    const a = openCheckpointDb(path);
+    const b = openCheckpointDb(path);
+    const record = processedRecord("RUN1", 0, 100, { status: "error" });
+    for (let i = 0; i < 3; i++) upsertCheckpoint(a, record);
+    upsertCheckpoint(a, { ...record, status: "done" });
+    upsertCheckpoint(b, processedRecord("RUN1", 1, 100));
+
+    const result = compactCheckpointDb(a);
+    expect(result.entriesAfter).toBeLessThan(result.entriesBefore);
+    // b's index predates the compaction; its next append re-reads the new journal first.
+    upsertCheckpoint(b, processedRecord("RUN1", 2, 100));
+
+    const reopened = getAllRecords(openCheckpointDb(path));
+    expect(reopened.map((r) => [r.relativePath, r.status]).sort()).toEqual([
+      ["file-0.xlsx", "done"],
+      ["file-1.xlsx", "done"],
+      ["file-2.xlsx", "done"],
+    ]);
+  });
+
+  it("removes a lock left by a process that is gone", () => {
+    const db = openCheckpointDb(path);
+    const lockFile = path + ".lock";
+    // Above the Linux pid_max limit, so no process has it.
+    writeFileSync(lockFile, "4194305");
+    startRun(db);
+    expect(existsSync(lockFile)).toBe(false);
+    expect(readFileSync(path, "utf-8")).toContain("RUN1");
+  });
+});
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  type CircuitStateChange,
+  createCircuitBreaker,
+  validateCircuitBreaker,
+} from "../src/circuit-breaker.js";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("validateCircuitBreaker", () => {
+  it("accepts defaults and reports out-of-range settings", () => {
+    expect(validateCircuitBreaker({})).toEqual([]);
+    expect(validateCircuitBreaker({ failureRatio: 0, windowSize: 0 })).toEqual([
+      "run.circuitBreaker.failureRatio (0 < ratio <= 1 when set)",
+      "run.circuitBreaker.windowSize (>= 1 when set)",
+    ]);
+  });
+});
+
+describe("createCircuitBreaker", () => {
+  it("opens once the failure ratio is reached over minRequests", async () => {
+    const changes: CircuitStateChange[] = [];
+    const breaker = createCircuitBreaker(
+      { failureRatio: 0.5, windowSize: 4, minRequests: 4 },
+      "closed",
+      (c) => changes.push(c),
+    );
+    for (const failed of [true, false, true]) {
+      breaker.record((await breaker.beforeRequest())!, failed);
+    }
+    expect(breaker.state).toBe("closed");
+    breaker.record((await breaker.beforeRequest())!, false);
+    expect(breaker.state).toBe("open");
+    expect(changes).toEqual([
+      {
+        state: "open",
+        previous: "closed",
+        reason: "2/4 recent requests failed",
+      },
+    ]);
+    breaker.close();
+  });
+
+  it("lets one probe through after the open period and closes when it succeeds", async () => {
+    const breaker = createCircuitBreaker({
+      windowSize: 2,
+      minRequests: 2,
+      openDurationMs: 1000,
+    });
+    const a = (await breaker.beforeRequest())!;
+    const b = (await breaker.beforeRequest())!;
+    breaker.record(a, true);
+    breaker.record(b, true);
+    expect(breaker.state).toBe("open");
+
+    const probe = breaker.beforeRequest();
+    const waiting = breaker.beforeRequest();
+    let released = false;
+    void waiting.then(() => (released = true));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(breaker.state).toBe("half_open");
+    const permit = (await probe)!;
+    expect(permit.probe).toBe(true);
+    expect(released).toBe(false);
+
+    breaker.record(permit, false);
+    expect(breaker.state).toBe("closed");
+    expect((await waiting)?.probe).toBe(false);
+    breaker.close();
+  });
+
+  it("reopens when the probe fails", async () => {
+    const breaker = createCircuitBreaker({}, "open");
+    expect(breaker.state).toBe("half_open");
+    const probe = (await breaker.beforeRequest())!;
+    breaker.record(probe, true);
+    expect(breaker.state).toBe("open");
+    breaker.close();
+  });
+
+  it("ignores outcomes of requests admitted before a state change", async () => {
+    const breaker = createCircuitBreaker({ windowSize: 1, minRequests: 1 });
+    const stale = (await breaker.beforeRequest())!;
+    const opener = (await breaker.beforeRequest())!;
+    breaker.record(opener, true);
+    expect(breaker.state).toBe("open");
+    await vi.advanceTimersByTimeAsync(30_000);
+    const probe = (await breaker.beforeRequest())!;
+    breaker.record(stale, false);
+    expect(breaker.state).toBe("half_open");
+    breaker.record(probe, false);
+    expect(breaker.state).toBe("closed");
+    breaker.close();
+  });
+
+  it("gives up after maxOpenDurationMs in total", async () => {
+    const breaker = createCircuitBreaker(
+      { openDurationMs: 1000, maxOpenDurationMs: 1500 },
+      "half_open",
+    );
+    breaker.record((await breaker.beforeRequest())!, true);
+    await vi.advanceTimersByTimeAsync(1000);
+    breaker.record((await breaker.beforeRequest())!, true);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(await breaker.beforeRequest()).toBeNull();
+    breaker.close();
+  });
+
+  it("resolves pending beforeRequest() calls with null on close()", async () => {
+    const breaker = createCircuitBreaker({}, "open");
+    await breaker.beforeRequest(); // the probe
+    const pending = breaker.beforeRequest();
+    breaker.close();
+    expect(await pending).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  compileFileFilter,
+  globMatcher,
+  validateFileFilter,
+} from "../src/file-filter.js";
+
+describe("globMatcher", () => {
+  it("matches a pattern without '/' against the file name at any depth", () => {
+    const m = globMatcher("*.xlsx");
+    expect(m("a.xlsx")).toBe(true);
+    expect(m("2024/q1/a.xlsx")).toBe(true);
+    expect(m("a.xlsx.tmp")).toBe(false);
+  });
+
+  it("keeps '*' within a segment and lets '**/' match zero or more directories", () => {
+    expect(globMatcher("archive/*")("archive/a.xlsx")).toBe(true);
+    expect(globMatcher("archive/*")("archive/old/a.xlsx")).toBe(false);
+    expect(globMatcher("archive/**")("archive/old/a.xlsx")).toBe(true);
+    expect(globMatcher("**/in/*.csv")("in/a.csv")).toBe(true);
+    expect(globMatcher("**/in/*.csv")("x/y/in/a.csv")).toBe(true);
+  });
+
+  it("supports '?' and negated character classes", () => {
+    expect(globMatcher("report-?.csv")("report-1.csv")).toBe(true);
+    expect(globMatcher("report-?.csv")("report-10.csv")).toBe(false);
+    expect(globMatcher("[!~]*.xlsx")("~$a.xlsx")).toBe(false);
+    expect(globMatcher("[!~]*.xlsx")("a.xlsx")).toBe(true);
+  });
+});
+
+describe("validateFileFilter", () => {
+  it("accepts a valid filter", () => {
+    expect(
+      validateFileFilter(
+        { include: ["*.xlsx"], minSize: 1, modifiedAfter: "30d" },
+        "run.filter",
+      ),
+    ).toEqual([]);
+  });
+
+  it("reports invalid globs, sizes and times", () => {
+    const problems = validateFileFilter(
+      { exclude: ["[z-a]*"], maxSize: -1, modifiedBefore: "yesterday" },
+      "run.filter",
+    );
+    expect(problems).toHaveLength(3);
+    expect(problems[0]).toMatch(
+      /^run\.filter\.exclude \(invalid glob "\[z-a\]\*"/,
+    );
+    expect(problems[1]).toBe("run.filter.maxSize (bytes >= 0 when set)");
+    expect(problems[2]).toMatch(/^run\.filter\.modifiedBefore/);
+  });
+});
+
+describe("compileFileFilter", () => {
+  const now = new Date("2024-06-30T00:00:00Z");
+
+  it("returns null when no filter is configured", () => {
+    expect(compileFileFilter([undefined], now)).toBeNull();
+  });
+
+  it("reports the first failing rule", () => {
+    const filter = compileFileFilter(
+      [{ extensions: ["XLSX"], exclude: ["~$*"], minSize: 1 }],
+      now,
+    )!;
+    expect(filter({ path: "a.csv", size: 10 })).toBe("extension not in .xlsx");
+    expect(filter({ path: "dir/~$a.xlsx", size: 10 })).toBe("excluded by ~$*");
+    expect(filter({ path: "a.xlsx", size: 0 })).toBe("size 0 < minSize 1");
+    expect(filter({ path: "A.XLSX", size: 10 })).toBeNull();
+  });
+
+  it("requires every combined filter to pass", () => {
+    const filter = compileFileFilter(
+      [{ include: ["in/**"] }, { maxSize: 100 }],
+      now,
+    )!;
+    expect(filter({ path: "out/a.xlsx", size: 10 })).toBe(
+      "not matched by include",
+    );
+    expect(filter({ path: "in/a.xlsx", size: 200 })).toBe(
+      "size 200 > maxSize 100",
+    );
+    expect(filter({ path: "in/a.xlsx", size: 10 })).toBeNull();
+  });
+
+  it("resolves relative ages against now", () => {
+    const filter = compileFileFilter([{ modifiedAfter: "7d" }], now)!;
+    expect(
+      filter({ path: "a", size: 1, lastModified: "2024-06-25T00:00:00Z" }),
+    ).toBeNull();
+    expect(
+      filter({ path: "a", size: 1, lastModified: "2024-06-01T00:00:00Z" }),
+    ).toBe("modified before 2024-06-23T00:00:00.000Z");
+    expect(filter({ path: "a", size: 1 })).toBe("LastModified unknown");
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  type ActiveLoadStage,
+  createLoadProfileGate,
+  validateLoadProfile,
+} from "../src/load-profile.js";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("validateLoadProfile", () => {
+  it("reports invalid stages with their index", () => {
+    expect(
+      validateLoadProfile({
+        stages: [{ type: "hold", durationSeconds: 0, targetRps: 1 }],
+      }),
+    ).toEqual(["run.loadProfile.stages[0].durationSeconds (> 0)"]);
+  });
+});
+
+describe("createLoadProfileGate", () => {
+  it("paces requests with the token bucket and ends with the last stage", async () => {
+    const gate = createLoadProfileGate(
+      { stages: [{ type: "hold", durationSeconds: 1, targetRps: 10 }] },
+      100,
+    );
+    const granted: number[] = [];
+    const results = Array.from({ length: 20 }, () =>
+      gate.acquire().then((stage) => {
+        if (stage) granted.push(Date.now());
+        return stage;
+      }),
+    );
+    await vi.advanceTimersByTimeAsync(500);
+    expect(granted.length).toBeGreaterThanOrEqual(4);
+    expect(granted.length).toBeLessThanOrEqual(5);
+    await vi.advanceTimersByTimeAsync(600);
+    const stages = await Promise.all(results);
+    expect(stages.filter(Boolean).length).toBeGreaterThanOrEqual(9);
+    expect(stages.filter(Boolean).length).toBeLessThanOrEqual(10);
+    expect(stages.filter((s) => s === null).length).toBeGreaterThan(0);
+    expect(await gate.acquire()).toBeNull();
+  });
+
+  it("holds requests beyond the stage concurrency until a slot is released", async () => {
+    const gate = createLoadProfileGate(
+      {
+        stages: [
+          { type: "hold", durationSeconds: 10, targetRps: 100, concurrency: 2 },
+        ],
+      },
+      100,
+    );
+    const granted: (ActiveLoadStage | null)[] = [];
+    for (let i = 0; i < 3; i++)
+      void gate.acquire().then((s) => granted.push(s));
+    await vi.advanceTimersByTimeAsync(500);
+    expect(granted).toHaveLength(2);
+    expect(granted[0]).toMatchObject({ index: 0, concurrency: 2 });
+    gate.release();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(granted).toHaveLength(3);
+    gate.close();
+  });
+
+  it("reports stage changes and steps the rate up", async () => {
+    const changes: (string | null)[] = [];
+    const gate = createLoadProfileGate(
+      {
+        stages: [
+          { type: "hold", durationSeconds: 1, targetRps: 5 },
+          { type: "step", durationSeconds: 2, targetRps: 20, steps: 2 },
+        ],
+      },
+      100,
+      (stage) => changes.push(stage && stage.name),
+    );
+    const first = gate.acquire();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect((await first)?.rps).toBe(5);
+    const second = gate.acquire();
+    await vi.advanceTimersByTimeAsync(200);
+    // First step of 5 → 20 in two steps.
+    expect((await second)?.rps).toBe(12.5);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(await gate.acquire()).toBeNull();
+    expect(changes).toEqual(["hold 5 rps", "step 5→20 rps", null]);
+  });
+});
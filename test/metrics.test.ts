@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { computeTimeSeries } from "../src/metrics.js";
+import { processedRecord } from "./records.js";
+
+const start = Date.parse("2024-01-01T00:00:00Z");
+
+describe("computeTimeSeries", () => {
+  it("returns undefined when no request has both timestamps", () => {
+    expect(
+      computeTimeSeries([
+        processedRecord("r1", 0, 100, { finishedAt: undefined }),
+        processedRecord("r1", 1, 100, { status: "skipped" }),
+      ]),
+    ).toBeUndefined();
+  });
+
+  it("buckets completions by finish time and leaves idle intervals out", () => {
+    const records = [
+      processedRecord("r1", 0, 2000, {}, { start, spacingMs: 1000 }),
+      processedRecord("r1", 1, 2000, { status: "error" }, { start }),
+      processedRecord("r1", 5, 8000, {}, { start }),
+      processedRecord("r1", 60, 1000, {}, { start }),
+    ];
+    const series = computeTimeSeries(records, 10)!;
+    expect(series.intervalSeconds).toBe(10);
+    expect(series.buckets.map((b) => b.start)).toEqual([
+      "2024-01-01T00:00:00.000Z",
+      "2024-01-01T00:00:10.000Z",
+      "2024-01-01T00:01:00.000Z",
+    ]);
+    expect(series.buckets[0]).toMatchObject({
+      completed: 2,
+      errors: 1,
+      throughputPerSecond: 0.2,
+      inFlight: 2,
+      p50LatencyMs: 2000,
+    });
+    // Still running from the first interval, finishing in the second.
+    expect(series.buckets[1]).toMatchObject({ completed: 1, inFlight: 1 });
+    expect(series.buckets[2]).toMatchObject({ completed: 1, inFlight: 1 });
+  });
+
+  it("does not count back-to-back requests as overlapping", () => {
+    const records = [0, 1, 2].map((i) =>
+      processedRecord("r1", i, 1000, {}, { start, spacingMs: 1000 }),
+    );
+    expect(computeTimeSeries(records, 10)!.buckets[0].inFlight).toBe(1);
+  });
+
+  it("doubles the interval until at most 720 buckets remain", () => {
+    // One request every 10s for 3 hours: 1080 ten-second intervals.
+    const records = Array.from({ length: 1080 }, (_, i) =>
+      processedRecord("r1", i, 100, {}, { start, spacingMs: 10_000 }),
+    );
+    const series = computeTimeSeries(records, 10)!;
+    expect(series.intervalSeconds).toBe(20);
+    expect(series.buckets).toHaveLength(540);
+    expect(series.buckets.every((b) => b.completed === 2)).toBe(true);
+  });
+});
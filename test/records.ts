@@ -0,0 +1,27 @@
+import type { CheckpointRecord } from "../src/types.js";
+
+/**
+ * A processed checkpoint row: request `i` of a run starts `i * spacingMs` after `start` and takes
+ * `latencyMs`.
+ */
+export function processedRecord(
+  runId: string,
+  i: number,
+  latencyMs: number,
+  overrides: Partial<CheckpointRecord> = {},
+  { start = Date.parse("2024-01-01T00:00:00Z"), spacingMs = 1000 } = {},
+): CheckpointRecord {
+  const startedAt = start + i * spacingMs;
+  return {
+    filePath: `/staging/brand-a/file-${i}.xlsx`,
+    relativePath: `file-${i}.xlsx`,
+    brand: "brand-a",
+    status: "done",
+    runId,
+    startedAt: new Date(startedAt).toISOString(),
+    finishedAt: new Date(startedAt + latencyMs).toISOString(),
+    latencyMs,
+    statusCode: 200,
+    ...overrides,
+  };
+}
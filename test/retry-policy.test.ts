@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Config } from "../src/types.js";
+import {
+  computeBackoffMs,
+  initRetryBudget,
+  parseRetryAfterMs,
+  resolveRetryPolicy,
+  tryConsumeRetryBudget,
+  validateRetryPolicy,
+} from "../src/retry-policy.js";
+
+function config(run: Record<string, unknown>): Config {
+  return { run } as unknown as Config;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  initRetryBudget(config({}));
+});
+
+describe("resolveRetryPolicy", () => {
+  it("keeps the legacy linear backoff without a retryPolicy block", () => {
+    const p = resolveRetryPolicy(config({ maxRetries: 3 }));
+    expect(p.strategy).toBe("linear");
+    expect(p.baseDelayMs).toBe(0);
+    expect(p.maxHttpRetries).toBe(3);
+    expect(p.runRetryBudget).toBeNull();
+  });
+
+  it("defaults to exponential backoff with a retryPolicy block", () => {
+    const p = resolveRetryPolicy(config({ retryPolicy: {} }));
+    expect(p.strategy).toBe("exponential");
+    expect(p.baseDelayMs).toBe(500);
+    expect(p.maxDelayMs).toBe(30_000);
+    expect(p.maxNetworkRetries).toBe(5);
+    expect(p.networkStrategy).toBe("fixed");
+  });
+
+  it("uses retryBackoffMs as the base delay when the block leaves it unset", () => {
+    const p = resolveRetryPolicy(
+      config({ retryBackoffMs: 200, retryPolicy: { strategy: "fixed" } }),
+    );
+    expect(p.strategy).toBe("fixed");
+    expect(p.baseDelayMs).toBe(200);
+  });
+});
+
+describe("validateRetryPolicy", () => {
+  it("accepts a valid block", () => {
+    expect(
+      validateRetryPolicy({ strategy: "decorrelated-jitter", maxDelayMs: 0 }),
+    ).toEqual([]);
+  });
+
+  it("reports unknown strategies and negative numbers", () => {
+    const problems = validateRetryPolicy({
+      networkStrategy: "random",
+      runRetryBudget: -1,
+    });
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toMatch(/^run\.retryPolicy\.networkStrategy/);
+    expect(problems[1]).toBe("run.retryPolicy.runRetryBudget (>= 0 when set)");
+  });
+
+  it("rejects a non-object", () => {
+    expect(validateRetryPolicy(null)).toEqual(["run.retryPolicy (object)"]);
+  });
+});
+
+describe("retry budget", () => {
+  it("is unlimited by default", () => {
+    initRetryBudget(config({ retryPolicy: {} }));
+    for (let i = 0; i < 100; i++) expect(tryConsumeRetryBudget()).toBe(true);
+  });
+
+  it("stops once runRetryBudget retries were taken", () => {
+    initRetryBudget(config({ retryPolicy: { runRetryBudget: 2 } }));
+    expect(tryConsumeRetryBudget()).toBe(true);
+    expect(tryConsumeRetryBudget()).toBe(true);
+    expect(tryConsumeRetryBudget()).toBe(false);
+  });
+});
+
+describe("parseRetryAfterMs", () => {
+  it("parses delta-seconds", () => {
+    expect(parseRetryAfterMs("3")).toBe(3000);
+    expect(parseRetryAfterMs(" 1.5 ")).toBe(1500);
+  });
+
+  it("parses an HTTP date relative to now", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    expect(parseRetryAfterMs("Mon, 01 Jan 2024 00:00:10 GMT", now)).toBe(
+      10_000,
+    );
+    expect(parseRetryAfterMs("Sun, 31 Dec 2023 23:59:00 GMT", now)).toBe(0);
+  });
+
+  it("returns undefined when absent or unparseable", () => {
+    expect(parseRetryAfterMs(undefined)).toBeUndefined();
+    expect(parseRetryAfterMs("soon")).toBeUndefined();
+  });
+});
+
+describe("computeBackoffMs", () => {
+  it("computes fixed and linear delays, capped at maxDelayMs", () => {
+    expect(computeBackoffMs("fixed", 100, 1000, 3, 0)).toBe(100);
+    expect(computeBackoffMs("linear", 100, 1000, 3, 0)).toBe(300);
+    expect(computeBackoffMs("linear", 100, 250, 3, 0)).toBe(250);
+  });
+
+  it("keeps exponential delays between 50% and 100% of the doubled base", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(computeBackoffMs("exponential", 100, 10_000, 4, 0)).toBe(400);
+    vi.spyOn(Math, "random").mockReturnValue(0.999999);
+    expect(computeBackoffMs("exponential", 100, 10_000, 4, 0)).toBe(800);
+    expect(computeBackoffMs("exponential", 100, 500, 10, 0)).toBe(500);
+  });
+
+  it("draws decorrelated jitter between base and three times the previous delay", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(computeBackoffMs("decorrelated-jitter", 100, 10_000, 2, 300)).toBe(
+      500,
+    );
+    // The first retry (no previous delay) stays at the base.
+    expect(computeBackoffMs("decorrelated-jitter", 100, 10_000, 1, 0)).toBe(
+      100,
+    );
+    expect(computeBackoffMs("decorrelated-jitter", 100, 200, 5, 5000)).toBe(
+      200,
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { CheckpointRecord, Config } from "../src/types.js";
+import { saveExtractionResult } from "../src/result-store.js";
+import { diffRuns, formatRunDiff, validateDiff } from "../src/run-diff.js";
+import { processedRecord } from "./records.js";
+
+let dir: string;
+let config: Config;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "run-diff-"));
+  config = { report: { outputDir: join(dir, "reports") } } as unknown as Config;
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/** Checkpoint row of file `i` in a run, with its extraction JSON saved to the run's folder. */
+function processed(
+  runId: string,
+  i: number,
+  json: unknown,
+  overrides: Partial<CheckpointRecord> = {},
+): CheckpointRecord {
+  const record = processedRecord(runId, i, 100, overrides);
+  if (json !== undefined)
+    saveExtractionResult(
+      config,
+      runId,
+      record,
+      JSON.stringify(json),
+      record.status === "done" ? "succeeded" : "failed",
+    );
+  return record;
+}
+
+describe("validateDiff", () => {
+  it("reports out-of-range settings", () => {
+    expect(validateDiff({ ignorePaths: [""], maxRegressionRate: 1.5 })).toEqual(
+      [
+        "diff.ignorePaths (array of strings when set)",
+        "diff.maxRegressionRate (0..1 when set)",
+      ],
+    );
+  });
+});
+
+describe("diffRuns", () => {
+  it("classifies paired files by status and content", () => {
+    const base = [
+      processed("base", 0, { total: 1, _runId: "base" }),
+      processed("base", 1, { total: 1 }),
+      processed("base", 2, { total: 1 }),
+      processed("base", 3, undefined, { status: "error" }),
+      processed("base", 4, undefined, { status: "error" }),
+      processed("base", 5, { total: 1 }),
+    ];
+    const target = [
+      processed("target", 0, { total: 1, _runId: "target" }),
+      processed("target", 1, { total: 2 }),
+      processed("target", 2, undefined, {
+        status: "error",
+        errorMessage: "HTTP 500",
+      }),
+      processed("target", 3, { total: 1 }),
+      processed("target", 4, undefined, { status: "error" }),
+      processed("target", 6, { total: 1 }),
+    ];
+    const diff = diffRuns(config, "base", base, "target", target);
+    expect(diff.entries.map((e) => e.classification)).toEqual([
+      "unchanged",
+      "changed",
+      "newly_failing",
+      "newly_passing",
+      "still_failing",
+      "only_in_base",
+      "only_in_target",
+    ]);
+    expect(diff.paired).toBe(5);
+    expect(diff.entries[1].differences).toEqual([
+      { path: "total", kind: "changed", base: "1", target: "2" },
+    ]);
+    expect(diff.regressions).toBe(1);
+    expect(diff.entries[2].regression).toBe("newly failing: HTTP 500");
+    expect(diff.thresholdExceeded).toBe(true);
+    expect(formatRunDiff(diff)).toContain("base → target: 5 paired file(s)");
+  });
+
+  it("skips ignorePaths and folds array indexes in changed paths", () => {
+    const base = [
+      processed("base", 0, {
+        meta: { requestId: "a" },
+        items: [{ sku: "A" }, { sku: "B" }],
+      }),
+    ];
+    const target = [
+      processed("target", 0, {
+        meta: { requestId: "b" },
+        items: [{ sku: "X" }, { sku: "Y" }],
+      }),
+    ];
+    const diff = diffRuns(config, "base", base, "target", target, {
+      ignorePaths: ["meta"],
+    });
+    expect(diff.entries[0].differenceCount).toBe(2);
+    expect(diff.changedPaths).toEqual([{ path: "items[].sku", files: 1 }]);
+  });
+
+  it("counts pattern key changes and accuracy drops", () => {
+    const accuracy = (f1: number) => ({
+      expectedFields: 1,
+      predictedFields: 1,
+      matchedFields: f1,
+      exactFields: f1,
+      precision: f1,
+      recall: f1,
+      f1,
+      exactMatchRate: f1,
+    });
+    const base = [
+      processed("base", 0, { total: 1 }, { patternKey: "invoice" }),
+      processed("base", 1, { total: 1 }, { accuracy: accuracy(1) }),
+    ];
+    const target = [
+      processed("target", 0, { total: 1 }, { patternKey: "receipt" }),
+      processed("target", 1, { total: 1 }, { accuracy: accuracy(0.5) }),
+    ];
+    const diff = diffRuns(config, "base", base, "target", target, {
+      maxRegressions: 1,
+    });
+    expect(diff.entries[0].classification).toBe("changed");
+    expect(diff.patternKeyChanges).toEqual([
+      { basePatternKey: "invoice", targetPatternKey: "receipt", count: 1 },
+    ]);
+    expect(diff.entries[1].regression).toBe("accuracy F1 100.0% → 50.0%");
+    expect(diff.regressions).toBe(1);
+    expect(diff.thresholdExceeded).toBe(false);
+  });
+
+  it("uses the latest row of a file retried within a run", () => {
+    const base = [processed("base", 0, { total: 1 })];
+    const target = [
+      processed("target", 0, undefined, {
+        status: "error",
+        finishedAt: "2024-01-01T00:00:00.100Z",
+      }),
+      processed(
+        "target",
+        0,
+        { total: 1 },
+        {
+          finishedAt: "2024-01-01T00:00:05.000Z",
+        },
+      ),
+    ];
+    const diff = diffRuns(config, "base", base, "target", target);
+    expect(diff.entries[0].classification).toBe("unchanged");
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import type { CheckpointRecord } from "../src/types.js";
+import { computeMetrics } from "../src/metrics.js";
+import { evaluateSlo, formatSloCheck, validateSlo } from "../src/slo.js";
+import { processedRecord } from "./records.js";
+
+function metricsOf(records: CheckpointRecord[]) {
+  return computeMetrics(
+    "run-1",
+    records,
+    new Date("2024-01-01T00:00:00Z"),
+    new Date("2024-01-01T00:01:00Z"),
+  );
+}
+
+describe("validateSlo", () => {
+  it("reports out-of-range limits with their config path", () => {
+    expect(
+      validateSlo({
+        maxErrorRate: 2,
+        byBrand: { "brand-a": { maxTimeouts: 1.5 } },
+      }),
+    ).toEqual([
+      "slo.maxErrorRate (between 0 and 1 when set)",
+      "slo.byBrand.brand-a.maxTimeouts (integer >= 0 when set)",
+    ]);
+  });
+});
+
+describe("evaluateSlo", () => {
+  const records = [
+    ...Array.from({ length: 8 }, (_, i) => processedRecord("run-1", i, 100)),
+    processedRecord("run-1", 8, 2000, {
+      brand: "brand-b",
+      patternKey: "invoice",
+    }),
+    processedRecord("run-1", 9, 2000, {
+      brand: "brand-b",
+      status: "error",
+      errorMessage: "timeout",
+    }),
+  ];
+
+  it("passes when every limit holds", () => {
+    const verdict = evaluateSlo(
+      { maxErrorRate: 0.2, maxP95LatencyMs: 5000 },
+      metricsOf(records),
+      records,
+    );
+    expect(verdict.passed).toBe(true);
+    expect(verdict.checks).toHaveLength(2);
+  });
+
+  it("checks brand and pattern key slices separately", () => {
+    const verdict = evaluateSlo(
+      {
+        maxErrorRate: 0.2,
+        byBrand: {
+          "brand-a": { maxP95LatencyMs: 500 },
+          "brand-b": { maxP95LatencyMs: 500 },
+        },
+        byPatternKey: { "(none)": { maxErrorRate: 0.5 } },
+      },
+      metricsOf(records),
+      records,
+    );
+    expect(verdict.passed).toBe(false);
+    expect(verdict.violations).toBe(1);
+    const failed = verdict.checks.find((c) => !c.passed)!;
+    expect(failed).toMatchObject({
+      scope: "brand",
+      name: "brand-b",
+      metric: "p95LatencyMs",
+    });
+    expect(formatSloCheck(failed)).toBe(
+      "brand-b: P95 latency 2000ms (max 500ms)",
+    );
+    // The error row has no detected pattern key, so it lands in "(none)" with the 8 brand-a files.
+    expect(verdict.checks.find((c) => c.scope === "patternKey")).toMatchObject({
+      name: "(none)",
+      actual: 1 / 9,
+      passed: true,
+    });
+  });
+
+  it("fails a run that processed no files", () => {
+    const verdict = evaluateSlo(
+      { byBrand: { "brand-a": { maxErrorRate: 0 } } },
+      metricsOf([]),
+      [],
+    );
+    expect(verdict).toEqual({
+      passed: false,
+      checks: [
+        {
+          scope: "run",
+          metric: "processedFiles",
+          threshold: 1,
+          actual: 0,
+          passed: false,
+        },
+      ],
+      violations: 1,
+    });
+  });
+
+  it("passes an empty run when no objective is set", () => {
+    expect(evaluateSlo({}, metricsOf([]), []).passed).toBe(true);
+  });
+});